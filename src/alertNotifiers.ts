@@ -0,0 +1,97 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { PriceAlert } from './types.js';
+
+// A webhook that does not answer must not hold up the next checks of the alert scheduler
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Alert Notifier Interface
+ * Delivers the alerts triggered by the alert scheduler
+ */
+export interface AlertNotifier {
+  // Name recorded in the deliveredTo list of the alerts
+  readonly name: string;
+
+  /**
+   * Deliver a triggered alert
+   * @param alert - Triggered alert with the description of the move
+   * @returns Promise<boolean> - Whether the alert was delivered, false when it cannot be delivered
+   * yet and must be retried
+   */
+  notify(alert: PriceAlert): Promise<boolean>;
+}
+
+/**
+ * Delivers triggered alerts to the connected MCP client as logging notifications. Only used with
+ * the stdio transport, the stateless HTTP transport has no stream to send them on.
+ */
+export class McpLoggingNotifier implements AlertNotifier {
+  readonly name = 'mcp_logging';
+  private readonly server: McpServer;
+
+  /**
+   * Create a new McpLoggingNotifier
+   * @param server - MCP server declaring the logging capability
+   */
+  constructor(server: McpServer) {
+    this.server = server;
+  }
+
+  /**
+   * Send the alert as a warning of the price-alerts logger
+   * @param alert - Triggered alert
+   * @returns Promise<boolean> - Whether the alert was sent, false while no client is connected
+   */
+  async notify(alert: PriceAlert): Promise<boolean> {
+    if (!this.server.isConnected()) return false;
+    await this.server.sendLoggingMessage({ level: 'warning', logger: 'price-alerts', data: alert });
+    return true;
+  }
+}
+
+/**
+ * Delivers triggered alerts by posting them as JSON to a webhook
+ */
+export class WebhookNotifier implements AlertNotifier {
+  readonly name = 'webhook';
+  private readonly url: string;
+  private readonly timeoutMs: number;
+
+  /**
+   * Create a new WebhookNotifier
+   * @param url - URL the alerts are posted to
+   * @param timeoutMs - Milliseconds the webhook has to respond to a post
+   */
+  constructor(url: string, timeoutMs: number = DEFAULT_WEBHOOK_TIMEOUT_MS) {
+    this.url = url;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Post the alert as a price_alert event
+   * @param alert - Triggered alert
+   * @returns Promise<boolean> - True once the webhook accepted the alert
+   */
+  async notify(alert: PriceAlert): Promise<boolean> {
+    const signal = AbortSignal.timeout(this.timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ event: 'price_alert', alert }),
+        signal,
+      });
+    } catch (error) {
+      // The scheduler retries the alert on its next check
+      if (signal.aborted) {
+        throw new Error(`Alert webhook did not respond within ${this.timeoutMs} ms`);
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`Alert webhook responded with HTTP ${response.status}`);
+    }
+    return true;
+  }
+}
@@ -0,0 +1,105 @@
+import type { AlertNotifier } from './alertNotifiers.js';
+import { logger } from './logger.js';
+import type { StockQuotesService } from './stockQuotesService.js';
+
+/**
+ * Checks the price alerts at a fixed interval and delivers the triggered alerts to the notifiers
+ */
+export class AlertScheduler {
+  private readonly stockService: StockQuotesService;
+  private readonly notifiers: AlertNotifier[];
+  private readonly intervalSeconds: number;
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  /**
+   * Create a new AlertScheduler
+   * @param stockService - Stock quotes service storing the alerts
+   * @param notifiers - Notifiers each triggered alert is delivered to
+   * @param intervalSeconds - Seconds between two checks
+   */
+  constructor(
+    stockService: StockQuotesService,
+    notifiers: AlertNotifier[],
+    intervalSeconds: number
+  ) {
+    this.stockService = stockService;
+    this.notifiers = notifiers;
+    this.intervalSeconds = intervalSeconds;
+  }
+
+  /**
+   * Start checking the alerts, the timer does not keep the process alive
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.runCheck(), this.intervalSeconds * 1000);
+    this.timer.unref();
+    logger.info(`Checking price alerts every ${this.intervalSeconds} seconds`);
+  }
+
+  /**
+   * Stop checking the alerts
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Check the alerts once and deliver the triggered ones. A check is skipped while the previous
+   * one is running, and failures are logged so that the next check still runs.
+   */
+  async runCheck(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const { triggered } = await this.stockService.checkAlerts();
+      for (const alert of triggered) {
+        logger.info('Price alert triggered', { id: alert.id, message: alert.message });
+      }
+      await this.deliverPendingAlerts();
+    } catch (error) {
+      logger.error('Error checking price alerts', { error });
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Deliver the triggered alerts that some notifier does not have yet, including the alerts
+   * triggered by earlier checks or by the check_alerts tool. Each notifier gets an alert once,
+   * the others are retried on the next check.
+   */
+  private async deliverPendingAlerts(): Promise<void> {
+    const triggered = await this.stockService.listAlerts({ status: 'triggered' });
+    for (const alert of triggered.filter((candidate) => candidate.notifiedAt === undefined)) {
+      const deliveredTo = [...(alert.deliveredTo ?? [])];
+      for (const notifier of this.notifiers) {
+        if (deliveredTo.includes(notifier.name)) continue;
+        try {
+          if (await notifier.notify(alert)) deliveredTo.push(notifier.name);
+        } catch (error) {
+          logger.error('Error delivering price alert', {
+            id: alert.id,
+            notifier: notifier.name,
+            error,
+          });
+        }
+      }
+
+      // Without notifiers the alerts are only triggered, none of them is marked as delivered
+      const notified =
+        this.notifiers.length > 0 &&
+        this.notifiers.every((notifier) => deliveredTo.includes(notifier.name));
+      if (notified || deliveredTo.length > (alert.deliveredTo?.length ?? 0)) {
+        await this.stockService.recordAlertDelivery(
+          alert.id,
+          deliveredTo,
+          notified ? new Date().toISOString() : undefined
+        );
+      }
+    }
+  }
+}
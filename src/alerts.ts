@@ -0,0 +1,117 @@
+import { round } from './performanceStats.js';
+import type { MovingAverage, PriceAlert, StockQuoteResponse } from './types.js';
+
+// Quote fields the alert conditions are evaluated on
+export const ALERT_QUOTE_FIELDS = [
+  'regularMarketPrice',
+  'regularMarketChangePercent',
+  'regularMarketVolume',
+  'fiftyDayAverage',
+  'twoHundredDayAverage',
+  'averageDailyVolume10Day',
+];
+
+export const DEFAULT_VOLUME_SPIKE_MULTIPLE = 2;
+export const DEFAULT_MOVING_AVERAGE: MovingAverage = '200d';
+
+/**
+ * Outcome of the evaluation of an alert against a quote
+ */
+export interface AlertEvaluation {
+  triggered: boolean;
+  // Side of the moving average, for the crossing alerts
+  side?: 'above' | 'below';
+  price?: number;
+  message?: string;
+}
+
+/**
+ * Returns the moving average a crossing alert watches
+ * @param quote - Quote with the moving average fields
+ * @param average - Moving average
+ * @returns number | undefined - Moving average, or undefined when the quote has none
+ */
+function movingAverage(quote: StockQuoteResponse, average: MovingAverage): number | undefined {
+  return average === '50d' ? quote.fiftyDayAverage : quote.twoHundredDayAverage;
+}
+
+/**
+ * Evaluates an alert against a quote. Crossing alerts trigger when the price moves to the
+ * watched side of the moving average since the previous evaluation, so the first evaluation
+ * only records the side.
+ * @param alert - Active alert
+ * @param quote - Quote of the alert ticker with the ALERT_QUOTE_FIELDS
+ * @returns AlertEvaluation - Whether the alert triggered, with a description of the move
+ */
+export function evaluateAlert(alert: PriceAlert, quote: StockQuoteResponse): AlertEvaluation {
+  const price = quote.regularMarketPrice;
+  const { ticker, threshold } = alert;
+
+  switch (alert.condition) {
+    case 'price_above':
+      if (price === undefined || threshold === undefined || price < threshold) {
+        return { triggered: false };
+      }
+      return { triggered: true, price, message: `${ticker} rose to ${price}, above ${threshold}` };
+
+    case 'price_below':
+      if (price === undefined || threshold === undefined || price > threshold) {
+        return { triggered: false };
+      }
+      return { triggered: true, price, message: `${ticker} fell to ${price}, below ${threshold}` };
+
+    case 'percent_move': {
+      const changePercent = quote.regularMarketChangePercent;
+      if (
+        changePercent === undefined ||
+        threshold === undefined ||
+        Math.abs(changePercent) < threshold
+      ) {
+        return { triggered: false };
+      }
+      const move = `${changePercent > 0 ? '+' : ''}${round(changePercent)}%`;
+      return { triggered: true, price, message: `${ticker} moved ${move} today, to ${price}` };
+    }
+
+    case 'cross_above_average':
+    case 'cross_below_average': {
+      const average = alert.average ?? DEFAULT_MOVING_AVERAGE;
+      const value = movingAverage(quote, average);
+      if (price === undefined || value === undefined) {
+        return { triggered: false };
+      }
+      const side = price >= value ? 'above' : 'below';
+      const watchedSide = alert.condition === 'cross_above_average' ? 'above' : 'below';
+      if (alert.lastSide === undefined || alert.lastSide === side || side !== watchedSide) {
+        return { triggered: false, side };
+      }
+      return {
+        triggered: true,
+        side,
+        price,
+        message: `${ticker} crossed ${side} its ${average} average of ${round(value)}, at ${price}`,
+      };
+    }
+
+    case 'volume_spike': {
+      const volume = quote.regularMarketVolume;
+      const averageVolume = quote.averageDailyVolume10Day;
+      const multiple = threshold ?? DEFAULT_VOLUME_SPIKE_MULTIPLE;
+      if (
+        volume === undefined ||
+        averageVolume === undefined ||
+        averageVolume <= 0 ||
+        volume < multiple * averageVolume
+      ) {
+        return { triggered: false };
+      }
+      return {
+        triggered: true,
+        price,
+        message:
+          `${ticker} traded ${volume} shares, ${round(volume / averageVolume, 1)}x its ` +
+          `10-day average volume`,
+      };
+    }
+  }
+}
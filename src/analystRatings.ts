@@ -0,0 +1,79 @@
+import { addMonths, format } from 'date-fns';
+import { round } from './performanceStats.js';
+import type { PriceTargets, RecommendationTrendPeriod } from './types.js';
+import { numberField, pickNumbers } from './yahooFields.js';
+
+/**
+ * Maps the recommendationTrend module
+ * @param trend - Yahoo recommendationTrend entries, with periods such as 0m and -1m
+ * @param referenceDate - Date in the month of the 0m period
+ * @returns RecommendationTrendPeriod[] - Recommendation counts per month, newest first
+ */
+export function mapRecommendationTrend(
+  trend: Array<Record<string, unknown>>,
+  referenceDate: Date
+): RecommendationTrendPeriod[] {
+  return trend
+    .flatMap((entry) => {
+      const match = typeof entry.period === 'string' ? /^([+-]?\d+)m$/.exec(entry.period) : null;
+      if (!match) return [];
+
+      const offset = Number(match[1]);
+      const counts = {
+        strongBuy: numberField(entry, 'strongBuy') ?? 0,
+        buy: numberField(entry, 'buy') ?? 0,
+        hold: numberField(entry, 'hold') ?? 0,
+        sell: numberField(entry, 'sell') ?? 0,
+        strongSell: numberField(entry, 'strongSell') ?? 0,
+      };
+      return [
+        {
+          offset,
+          period: {
+            period: match[0],
+            month: format(addMonths(referenceDate, offset), 'yyyy-MM'),
+            ...counts,
+            total: counts.strongBuy + counts.buy + counts.hold + counts.sell + counts.strongSell,
+          },
+        },
+      ];
+    })
+    .sort((a, b) => b.offset - a.offset)
+    .map(({ period }) => period);
+}
+
+/**
+ * Maps the price targets of the financialData module
+ * @param financialData - Yahoo financialData module
+ * @param currentPrice - Current price of the ticker, used to compute the upside of each target
+ * @returns PriceTargets - Low, mean, median and high targets, with their upside in percent
+ */
+export function mapPriceTargets(
+  financialData: Record<string, unknown>,
+  currentPrice: number | undefined
+): PriceTargets {
+  const targets: PriceTargets = pickNumbers(financialData, {
+    low: 'targetLowPrice',
+    mean: 'targetMeanPrice',
+    median: 'targetMedianPrice',
+    high: 'targetHighPrice',
+  });
+
+  if (currentPrice) {
+    const upside = (target: number | undefined): number | undefined =>
+      target === undefined ? undefined : round((target / currentPrice - 1) * 100);
+    const upsides = {
+      lowUpsidePercent: upside(targets.low),
+      meanUpsidePercent: upside(targets.mean),
+      medianUpsidePercent: upside(targets.median),
+      highUpsidePercent: upside(targets.high),
+    };
+    for (const [key, value] of Object.entries(upsides)) {
+      if (value !== undefined) {
+        targets[key as keyof PriceTargets] = value;
+      }
+    }
+  }
+
+  return targets;
+}
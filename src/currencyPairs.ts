@@ -0,0 +1,56 @@
+/**
+ * A currency or cryptocurrency pair, the price of one base unit in the quote currency
+ */
+export interface CurrencyPair {
+  base: string;
+  quote: string;
+}
+
+// Pairs written with a separator: EUR/USD, EUR-USD, EUR:USD, EUR USD, EUR to USD, BTC in EUR
+const SEPARATED_PAIR = /^([A-Z0-9]{2,10})\s*(?:\/|-|:|\s(?:IN|TO)\s|\s)\s*([A-Z]{3})$/;
+// Pairs of two ISO codes written together, as in Yahoo FX symbols: EURUSD, EURUSD=X
+const JOINED_PAIR = /^([A-Z]{3})([A-Z]{3})(?:=X)?$/;
+// A single currency or cryptocurrency: BTC
+const SINGLE_CURRENCY = /^([A-Z0-9]{2,10})$/;
+
+/**
+ * Reads a currency pair written in natural form
+ * @param text - Pair such as EUR/USD, EURUSD, "EUR to JPY" or "BTC in EUR"
+ * @param defaultQuote - Quote currency of a single currency (e.g., USD for BTC), single currencies
+ * are rejected without it
+ * @returns CurrencyPair | null - The pair, or null when the text is not a pair
+ */
+export function parseCurrencyPair(text: string, defaultQuote?: string): CurrencyPair | null {
+  const normalized = text.trim().toUpperCase().replace(/\s+/g, ' ');
+
+  const match = SEPARATED_PAIR.exec(normalized) ?? JOINED_PAIR.exec(normalized);
+  if (match) {
+    return { base: match[1], quote: match[2] };
+  }
+
+  if (defaultQuote) {
+    const single = SINGLE_CURRENCY.exec(normalized);
+    if (single) return { base: single[1], quote: defaultQuote };
+  }
+  return null;
+}
+
+/**
+ * Returns the Yahoo Finance symbol of a currency pair
+ * @param base - ISO 4217 currency code (e.g., EUR)
+ * @param quote - ISO 4217 currency code (e.g., USD)
+ * @returns string - FX symbol (e.g., EURUSD=X)
+ */
+export function fxSymbol(base: string, quote: string): string {
+  return `${base}${quote}=X`;
+}
+
+/**
+ * Returns the Yahoo Finance symbol of a cryptocurrency quoted in a currency
+ * @param base - Cryptocurrency (e.g., BTC)
+ * @param quote - ISO 4217 currency code (e.g., EUR)
+ * @returns string - Crypto symbol (e.g., BTC-EUR)
+ */
+export function cryptoSymbol(base: string, quote: string): string {
+  return `${base}-${quote}`;
+}
@@ -0,0 +1,27 @@
+/**
+ * Major currency of a minor currency unit
+ */
+export interface MajorCurrencyUnit {
+  currency: string;
+  // Number of minor units in one major unit
+  divisor: number;
+}
+
+// Yahoo quotes London listings in pence, Tel Aviv listings in agorot and Johannesburg listings
+// in cents
+const MINOR_CURRENCY_UNITS = new Map<string, MajorCurrencyUnit>([
+  ['GBp', { currency: 'GBP', divisor: 100 }],
+  ['GBX', { currency: 'GBP', divisor: 100 }],
+  ['ILA', { currency: 'ILS', divisor: 100 }],
+  ['ZAc', { currency: 'ZAR', divisor: 100 }],
+]);
+
+/**
+ * Returns the major currency of a minor currency unit
+ * @param currency - Currency reported by Yahoo (e.g., GBp)
+ * @returns MajorCurrencyUnit | undefined - Major currency and divisor (e.g., GBP and 100), or
+ * undefined when the currency is not a minor unit
+ */
+export function majorCurrencyUnit(currency: string | undefined): MajorCurrencyUnit | undefined {
+  return currency === undefined ? undefined : MINOR_CURRENCY_UNITS.get(currency);
+}
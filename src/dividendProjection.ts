@@ -0,0 +1,191 @@
+import { addMonths, differenceInCalendarDays, format, isAfter, parseISO } from 'date-fns';
+import { round } from './performanceStats.js';
+import type {
+  CurrencyDividendIncome,
+  DividendEvent,
+  DividendIncomeProjection,
+  DividendProjectionBasis,
+  HoldingDividendProjection,
+  PortfolioPositionInput,
+} from './types.js';
+
+// Dividend frequencies in payments per year: annual, semiannual, quarterly and monthly
+const PAYMENT_FREQUENCIES = [1, 2, 4, 12];
+
+// A holding whose last dividend is older than this no longer pays a regular dividend
+const MAX_DIVIDEND_AGE_DAYS = 400;
+
+/**
+ * A holding with its dividend data, amounts in the major unit of the listing currency
+ */
+export interface DividendHolding {
+  position: PortfolioPositionInput;
+  name?: string;
+  currency: string;
+  price?: number;
+  trailingAnnualDividendRate?: number;
+  // Dividend yield in percent
+  dividendYield?: number;
+  // Dividends per share of the last years, oldest first
+  dividends: DividendEvent[];
+  // Exchange rate from the cost basis currency to the listing currency
+  costRate: number;
+}
+
+/**
+ * Infers how often a dividend is paid from the intervals between its ex-dates
+ * @param dividends - Dividends, oldest first
+ * @returns number | undefined - Payments per year (1, 2, 4 or 12), or undefined without dividends
+ */
+export function paymentsPerYear(dividends: DividendEvent[]): number | undefined {
+  if (dividends.length === 0) return undefined;
+  if (dividends.length === 1) return 1;
+
+  // The median interval ignores the odd special dividend
+  const intervals = dividends
+    .slice(1)
+    .map((dividend, i) =>
+      differenceInCalendarDays(parseISO(dividend.exDate), parseISO(dividends[i].exDate))
+    )
+    .sort((a, b) => a - b);
+  const perYear = 365 / Math.max(intervals[Math.floor(intervals.length / 2)], 1);
+  return PAYMENT_FREQUENCIES.reduce((best, frequency) =>
+    Math.abs(frequency - perYear) < Math.abs(best - perYear) ? frequency : best
+  );
+}
+
+/**
+ * Computes the regular dividend per payment from the payments of the last year. The median
+ * ignores a special dividend, and evens out interim and final dividends of different sizes.
+ * @param dividends - Dividends, oldest first
+ * @param frequency - Payments per year
+ * @returns number - Regular dividend per payment
+ */
+function regularPayment(dividends: DividendEvent[], frequency: number): number {
+  const amounts = dividends
+    .slice(-frequency)
+    .map((dividend) => dividend.amount)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(amounts.length / 2);
+  return amounts.length % 2 === 1 ? amounts[middle] : (amounts[middle - 1] + amounts[middle]) / 2;
+}
+
+/**
+ * Projects the dividend income of a holding
+ * @param holding - Holding with its dividend data
+ * @param today - Date of the projection in 'YYYY-MM-DD' format
+ * @returns { projection, payments } - Projection of the holding, and the payments expected in the
+ * next 12 months by month of their ex-date
+ */
+function projectHolding(
+  holding: DividendHolding,
+  today: string
+): { projection: HoldingDividendProjection; payments: Array<{ month: string; income: number }> } {
+  const { position, price } = holding;
+  const todayDate = parseISO(today);
+  const last = holding.dividends.at(-1);
+  const frequency = paymentsPerYear(holding.dividends);
+  const regular =
+    last !== undefined &&
+    frequency !== undefined &&
+    differenceInCalendarDays(todayDate, parseISO(last.exDate)) <= MAX_DIVIDEND_AGE_DAYS;
+
+  // The regular payment of the last year at the observed frequency reflects recent raises and
+  // cuts, the trailing rate and the yield are used for holdings without a dividend history
+  let annualDividendPerShare = 0;
+  let payment = 0;
+  let basis: DividendProjectionBasis | undefined;
+  if (regular) {
+    payment = regularPayment(holding.dividends, frequency);
+    annualDividendPerShare = payment * frequency;
+    basis = 'dividend_history';
+  } else if (holding.trailingAnnualDividendRate) {
+    annualDividendPerShare = holding.trailingAnnualDividendRate;
+    basis = 'trailing_rate';
+  } else if (holding.dividendYield && price !== undefined) {
+    annualDividendPerShare = (price * holding.dividendYield) / 100;
+    basis = 'dividend_yield';
+  }
+
+  const annualIncome = annualDividendPerShare * position.quantity;
+  const cost = position.costBasis === undefined ? undefined : position.costBasis * holding.costRate;
+  const projection: HoldingDividendProjection = {
+    ticker: position.ticker,
+    name: holding.name,
+    quantity: position.quantity,
+    currency: holding.currency,
+    annualDividendPerShare: round(annualDividendPerShare, 4),
+    annualIncome: round(annualIncome),
+    monthlyIncome: round(annualIncome / 12),
+    dividendYield:
+      price === undefined || price <= 0 ? undefined : round((annualDividendPerShare / price) * 100),
+    yieldOnCost:
+      cost === undefined || cost <= 0 ? undefined : round((annualDividendPerShare / cost) * 100),
+    paymentsPerYear: regular ? frequency : undefined,
+    lastExDate: last?.exDate,
+    lastDividend: last?.amount,
+    basis,
+  };
+
+  const payments: Array<{ month: string; income: number }> = [];
+  if (regular) {
+    // Ex-dates are projected from the last one at the observed frequency
+    const end = addMonths(todayDate, 12);
+    const lastExDate = parseISO(last.exDate);
+    for (let n = 1; ; n++) {
+      const exDate = addMonths(lastExDate, (n * 12) / frequency);
+      if (isAfter(exDate, end)) break;
+      if (!isAfter(exDate, todayDate)) continue;
+
+      if (projection.nextExDate === undefined) {
+        projection.nextExDate = format(exDate, 'yyyy-MM-dd');
+        projection.nextPaymentEstimate = round(payment * position.quantity);
+      }
+      payments.push({ month: format(exDate, 'yyyy-MM'), income: payment * position.quantity });
+    }
+  }
+
+  Object.keys(projection).forEach(
+    (key) =>
+      projection[key as keyof HoldingDividendProjection] === undefined &&
+      delete projection[key as keyof HoldingDividendProjection]
+  );
+  return { projection, payments };
+}
+
+/**
+ * Projects the dividend income of holdings over the next 12 months
+ * @param holdings - Holdings with their dividend data
+ * @param today - Date of the projection in 'YYYY-MM-DD' format
+ * @returns DividendIncomeProjection - Income per holding, and per currency with the months of the
+ * expected payments, largest income first
+ */
+export function projectDividendIncome(
+  holdings: DividendHolding[],
+  today: string
+): DividendIncomeProjection {
+  const projected = holdings.map((holding) => projectHolding(holding, today));
+
+  const byCurrency = new Map<string, { annualIncome: number; months: Map<string, number> }>();
+  for (const { projection, payments } of projected) {
+    const entry = byCurrency.get(projection.currency) ?? { annualIncome: 0, months: new Map() };
+    entry.annualIncome += projection.annualIncome;
+    for (const { month, income } of payments) {
+      entry.months.set(month, (entry.months.get(month) ?? 0) + income);
+    }
+    byCurrency.set(projection.currency, entry);
+  }
+
+  const currencies: CurrencyDividendIncome[] = [...byCurrency.entries()]
+    .sort(([, a], [, b]) => b.annualIncome - a.annualIncome)
+    .map(([currency, { annualIncome, months }]) => ({
+      currency,
+      annualIncome: round(annualIncome),
+      monthlyIncome: round(annualIncome / 12),
+      schedule: [...months.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, income]) => ({ month, income: round(income) })),
+    }));
+
+  return { holdings: projected.map(({ projection }) => projection), currencies };
+}
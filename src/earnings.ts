@@ -0,0 +1,109 @@
+import { round } from './performanceStats.js';
+import type {
+  EarningsDateWindow,
+  EarningsEstimatePeriod,
+  EarningsSurprise,
+  YahooQuoteSummary,
+} from './types.js';
+import { dateField, formatUtcDate, numberField, pickNumbers, sameNames } from './yahooFields.js';
+
+/**
+ * Maps the next earnings date window of the calendarEvents module
+ * @param calendarEvents - Yahoo calendarEvents module
+ * @returns EarningsDateWindow | null - The window with consensus estimates, or null when no
+ * earnings date is announced
+ */
+export function mapEarningsDateWindow(
+  calendarEvents: YahooQuoteSummary['calendarEvents']
+): EarningsDateWindow | null {
+  const earnings = calendarEvents?.earnings ?? {};
+  const dates = (Array.isArray(earnings.earningsDate) ? (earnings.earningsDate as unknown[]) : [])
+    .flatMap((date) =>
+      date instanceof Date || typeof date === 'number' ? [formatUtcDate(date)] : []
+    )
+    .sort((a, b) => a.localeCompare(b));
+
+  if (dates.length === 0) {
+    return null;
+  }
+
+  return {
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    // Yahoo only reports the flag for estimated dates, a two-day window is always an estimate
+    isEstimate: earnings.isEarningsDateEstimate === true || dates.length > 1,
+    ...pickNumbers(earnings, {
+      epsEstimate: 'earningsAverage',
+      epsLow: 'earningsLow',
+      epsHigh: 'earningsHigh',
+      revenueEstimate: 'revenueAverage',
+      revenueLow: 'revenueLow',
+      revenueHigh: 'revenueHigh',
+    }),
+  };
+}
+
+/**
+ * Maps the earnings surprises of the earningsHistory module
+ * @param history - Yahoo earningsHistory entries
+ * @returns EarningsSurprise[] - Reported against estimated EPS, oldest quarter first, with the
+ * surprise in percent
+ */
+export function mapEarningsHistory(history: Array<Record<string, unknown>>): EarningsSurprise[] {
+  return history
+    .flatMap((entry): EarningsSurprise[] => {
+      const quarter = dateField(entry, 'quarter');
+      if (quarter === undefined) return [];
+
+      const surprise = numberField(entry, 'surprisePercent');
+      return [
+        {
+          quarter,
+          ...pickNumbers(entry, sameNames('epsEstimate', 'epsActual', 'epsDifference')),
+          // Yahoo reports the surprise as a ratio (0.05 is 5%)
+          ...(surprise !== undefined && { surprisePercent: round(surprise * 100) }),
+        },
+      ];
+    })
+    .sort((a, b) => a.quarter.localeCompare(b.quarter));
+}
+
+/**
+ * Maps the consensus estimates of the earningsTrend module
+ * @param trend - Yahoo earningsTrend entries
+ * @returns EarningsEstimatePeriod[] - EPS and revenue estimates for the current and next quarters
+ * and years, in Yahoo's order
+ */
+export function mapEarningsEstimates(
+  trend: Array<Record<string, unknown>>
+): EarningsEstimatePeriod[] {
+  return trend.flatMap((entry): EarningsEstimatePeriod[] => {
+    if (typeof entry.period !== 'string') return [];
+
+    const endDate = dateField(entry, 'endDate');
+    const earningsEstimate = (entry.earningsEstimate ?? {}) as Record<string, unknown>;
+    const revenueEstimate = (entry.revenueEstimate ?? {}) as Record<string, unknown>;
+
+    return [
+      {
+        period: entry.period,
+        ...(endDate !== undefined && { endDate }),
+        ...pickNumbers(earningsEstimate, {
+          epsEstimate: 'avg',
+          epsLow: 'low',
+          epsHigh: 'high',
+          epsYearAgo: 'yearAgoEps',
+          epsAnalysts: 'numberOfAnalysts',
+        }),
+        ...pickNumbers(revenueEstimate, {
+          revenueEstimate: 'avg',
+          revenueLow: 'low',
+          revenueHigh: 'high',
+          revenueYearAgo: 'yearAgoRevenue',
+          revenueAnalysts: 'numberOfAnalysts',
+        }),
+        ...pickNumbers(entry, sameNames('growth')),
+      },
+    ];
+  });
+}
@@ -0,0 +1,187 @@
+import type {
+  BalanceSheet,
+  CashFlowStatement,
+  FinancialDataSummary,
+  IncomeStatement,
+  KeyStatistics,
+  YahooFinancialStatement,
+} from './types.js';
+import { dateField, pickNumbers, sameNames, stringField } from './yahooFields.js';
+
+/**
+ * Maps financial statements, dropping undated ones and the periods without any field of the
+ * statement, as a timeseries of every statement has periods reported by only some of them
+ * @param statements - Yahoo fundamentals timeseries entries
+ * @param mapStatement - Maps the fields of a dated statement
+ * @returns T[] - Mapped statements, oldest first
+ */
+function mapStatements<T extends { endDate: string }>(
+  statements: YahooFinancialStatement[],
+  mapStatement: (statement: YahooFinancialStatement, endDate: string) => T
+): T[] {
+  return statements
+    .flatMap((statement) => {
+      const endDate = dateField(statement, 'date');
+      if (endDate === undefined) return [];
+      const mapped = mapStatement(statement, endDate);
+      return Object.keys(mapped).length > 1 ? [mapped] : [];
+    })
+    .sort((a, b) => a.endDate.localeCompare(b.endDate));
+}
+
+/**
+ * Maps the financialData module
+ * @param data - Yahoo financialData module
+ * @returns FinancialDataSummary - Prices, analyst targets, margins, cash and debt
+ */
+export function mapFinancialData(data: Record<string, unknown>): FinancialDataSummary {
+  const recommendationKey = stringField(data, 'recommendationKey');
+  const financialCurrency = stringField(data, 'financialCurrency');
+
+  return {
+    ...pickNumbers(
+      data,
+      sameNames(
+        'currentPrice',
+        'targetHighPrice',
+        'targetLowPrice',
+        'targetMeanPrice',
+        'numberOfAnalystOpinions',
+        'totalRevenue',
+        'revenuePerShare',
+        'revenueGrowth',
+        'earningsGrowth',
+        'grossMargins',
+        'operatingMargins',
+        'ebitdaMargins',
+        'profitMargins',
+        'ebitda',
+        'totalCash',
+        'totalCashPerShare',
+        'totalDebt',
+        'debtToEquity',
+        'currentRatio',
+        'quickRatio',
+        'returnOnAssets',
+        'returnOnEquity',
+        'operatingCashflow',
+        'freeCashflow'
+      )
+    ),
+    ...(recommendationKey !== undefined && { recommendationKey }),
+    ...(financialCurrency !== undefined && { financialCurrency }),
+  };
+}
+
+/**
+ * Maps the defaultKeyStatistics module
+ * @param data - Yahoo defaultKeyStatistics module
+ * @returns KeyStatistics - Valuation ratios, share structure and per-share data
+ */
+export function mapKeyStatistics(data: Record<string, unknown>): KeyStatistics {
+  const lastFiscalYearEnd = dateField(data, 'lastFiscalYearEnd');
+  const mostRecentQuarter = dateField(data, 'mostRecentQuarter');
+
+  return {
+    ...pickNumbers(
+      data,
+      sameNames(
+        'enterpriseValue',
+        'forwardPE',
+        'pegRatio',
+        'priceToBook',
+        'enterpriseToRevenue',
+        'enterpriseToEbitda',
+        'beta',
+        'trailingEps',
+        'forwardEps',
+        'bookValue',
+        'sharesOutstanding',
+        'floatShares',
+        'sharesShort',
+        'shortRatio',
+        'shortPercentOfFloat',
+        'heldPercentInsiders',
+        'heldPercentInstitutions'
+      )
+    ),
+    ...(lastFiscalYearEnd !== undefined && { lastFiscalYearEnd }),
+    ...(mostRecentQuarter !== undefined && { mostRecentQuarter }),
+  };
+}
+
+/**
+ * Maps income statements
+ * @param statements - Yahoo fundamentals timeseries entries
+ * @returns IncomeStatement[] - Income statements, oldest first
+ */
+export function mapIncomeStatements(statements: YahooFinancialStatement[]): IncomeStatement[] {
+  return mapStatements(statements, (statement, endDate) => ({
+    endDate,
+    ...pickNumbers(statement, {
+      ...sameNames(
+        'totalRevenue',
+        'costOfRevenue',
+        'grossProfit',
+        'operatingIncome',
+        'interestExpense',
+        'netIncome'
+      ),
+      researchDevelopment: 'researchAndDevelopment',
+      ebit: 'EBIT',
+      incomeBeforeTax: 'pretaxIncome',
+      incomeTaxExpense: 'taxProvision',
+    }),
+  }));
+}
+
+/**
+ * Maps balance sheets
+ * @param statements - Yahoo fundamentals timeseries entries
+ * @returns BalanceSheet[] - Balance sheets, oldest first
+ */
+export function mapBalanceSheets(statements: YahooFinancialStatement[]): BalanceSheet[] {
+  return mapStatements(statements, (statement, endDate) => ({
+    endDate,
+    ...pickNumbers(statement, {
+      cash: 'cashAndCashEquivalents',
+      shortTermInvestments: 'otherShortTermInvestments',
+      totalCurrentAssets: 'currentAssets',
+      totalAssets: 'totalAssets',
+      totalCurrentLiabilities: 'currentLiabilities',
+      longTermDebt: 'longTermDebt',
+      totalLiabilities: 'totalLiabilitiesNetMinorityInterest',
+      totalStockholderEquity: 'stockholdersEquity',
+    }),
+  }));
+}
+
+/**
+ * Maps cash flow statements, deriving free cash flow when Yahoo only reports its components
+ * @param statements - Yahoo fundamentals timeseries entries
+ * @returns CashFlowStatement[] - Cash flow statements, oldest first
+ */
+export function mapCashFlowStatements(statements: YahooFinancialStatement[]): CashFlowStatement[] {
+  return mapStatements(statements, (statement, endDate) => {
+    const cashFlow: CashFlowStatement = {
+      endDate,
+      ...pickNumbers(statement, {
+        ...sameNames('operatingCashFlow', 'investingCashFlow', 'financingCashFlow', 'freeCashFlow'),
+        netIncome: 'netIncomeFromContinuingOperations',
+        depreciation: 'depreciationAndAmortization',
+        capitalExpenditures: 'capitalExpenditure',
+        dividendsPaid: 'cashDividendsPaid',
+        repurchaseOfStock: 'repurchaseOfCapitalStock',
+      }),
+    };
+
+    if (
+      cashFlow.freeCashFlow === undefined &&
+      cashFlow.operatingCashFlow !== undefined &&
+      cashFlow.capitalExpenditures !== undefined
+    ) {
+      cashFlow.freeCashFlow = cashFlow.operatingCashFlow + cashFlow.capitalExpenditures;
+    }
+    return cashFlow;
+  });
+}
@@ -13,13 +13,15 @@
 
 import { createServer } from './server.js';
 import { logger } from './logger.js';
-import type { TransportType } from './types.js';
+import type { ServerConfig, TransportType } from './types.js';
+
+type CommandLineArgs = Omit<ServerConfig, 'name' | 'version'>;
 
 // Parse command line arguments
-function parseArgs(): { transport: TransportType; httpPort?: number; httpHost?: string } {
+function parseArgs(): CommandLineArgs {
   const args = process.argv.slice(2);
-  const result = {
-    transport: 'stdio' as TransportType,
+  const result: CommandLineArgs = {
+    transport: 'stdio',
     httpPort: 3000,
     httpHost: '0.0.0.0',
   };
@@ -59,6 +61,57 @@ function parseArgs(): { transport: TransportType; httpPort?: number; httpHost?:
         }
         break;
 
+      case '--max-history-years':
+        if (i + 1 < args.length) {
+          result.maxHistoricalRangeYears = Number.parseInt(args[++i], 10);
+          if (Number.isNaN(result.maxHistoricalRangeYears) || result.maxHistoricalRangeYears <= 0) {
+            logger.error('Invalid max history years. Must be a positive number of years');
+            process.exit(1);
+          }
+        }
+        break;
+
+      case '--max-data-points':
+        if (i + 1 < args.length) {
+          result.maxHistoricalDataPoints = Number.parseInt(args[++i], 10);
+          if (Number.isNaN(result.maxHistoricalDataPoints) || result.maxHistoricalDataPoints <= 0) {
+            logger.error('Invalid max data points. Must be a positive number');
+            process.exit(1);
+          }
+        }
+        break;
+
+      case '--data-dir':
+        if (i + 1 < args.length) {
+          result.dataDirectory = args[++i];
+        }
+        break;
+
+      case '--alert-interval':
+        if (i + 1 < args.length) {
+          result.alertIntervalSeconds = Number.parseInt(args[++i], 10);
+          if (Number.isNaN(result.alertIntervalSeconds) || result.alertIntervalSeconds < 0) {
+            logger.error(
+              'Invalid alert interval. Must be a number of seconds, 0 to disable alerts'
+            );
+            process.exit(1);
+          }
+        }
+        break;
+
+      case '--alert-webhook':
+        if (i + 1 < args.length) {
+          result.alertWebhookUrl = args[++i];
+          const protocol = URL.canParse(result.alertWebhookUrl)
+            ? new URL(result.alertWebhookUrl).protocol
+            : undefined;
+          if (protocol !== 'http:' && protocol !== 'https:') {
+            logger.error('Invalid alert webhook. Must be an http or https URL');
+            process.exit(1);
+          }
+        }
+        break;
+
       case '--help':
       case '-h':
         printHelp();
@@ -94,6 +147,23 @@ Options:
   --http-host <host>
     Specify the HTTP host to bind to (default: 0.0.0.0)
 
+  --max-history-years <years>
+    Maximum date range of a historical data request (default: 30)
+
+  --max-data-points <count>
+    Maximum number of data points returned by a historical data request (default: 10000)
+
+  --data-dir <path>
+    Directory where watchlists, alerts and the ledger are stored (default: ~/.stockquotes-mcp),
+    used by a single server process
+
+  --alert-interval <seconds>
+    Seconds between two checks of the price alerts, 0 disables the checks (default: 300)
+
+  --alert-webhook <url>
+    http or https URL the triggered price alerts are posted to as JSON, the only delivery of
+    alerts with the HTTP transport
+
   --help, -h
     Show this help message
 
@@ -135,6 +205,11 @@ async function main(): Promise<void> {
       transport: args.transport,
       httpPort: args.httpPort,
       httpHost: args.httpHost,
+      maxHistoricalRangeYears: args.maxHistoricalRangeYears,
+      maxHistoricalDataPoints: args.maxHistoricalDataPoints,
+      dataDirectory: args.dataDirectory,
+      alertIntervalSeconds: args.alertIntervalSeconds,
+      alertWebhookUrl: args.alertWebhookUrl,
     });
 
     logger.info('Server started successfully');
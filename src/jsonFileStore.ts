@@ -0,0 +1,94 @@
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * A JSON document kept in a file. Changes are applied one at a time and the file is replaced
+ * atomically, so that concurrent tool calls and crashes cannot corrupt it. Changes are only
+ * serialized within a process: a file must not be shared by several server processes, whose
+ * changes would overwrite each other.
+ */
+export class JsonFileStore<T> {
+  private readonly filePath: string;
+  private readonly emptyDocument: () => T;
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new JsonFileStore
+   * @param filePath - Path of the JSON file, created with its directory on the first change
+   * @param emptyDocument - Returns the document of a store whose file does not exist yet
+   */
+  constructor(filePath: string, emptyDocument: () => T) {
+    this.filePath = filePath;
+    this.emptyDocument = emptyDocument;
+  }
+
+  /**
+   * Reads the document
+   * @returns Promise<T> - Stored document, or the empty document when nothing was stored yet
+   */
+  async read(): Promise<T> {
+    return this.enqueue(() => this.load());
+  }
+
+  /**
+   * Changes the document and stores it. Nothing is stored when the change throws.
+   * @param change - Modifies the document in place and returns a result
+   * @returns Promise<R> - Result of the change
+   */
+  async update<R>(change: (document: T) => R): Promise<R> {
+    return this.enqueue(async () => {
+      const document = await this.load();
+      const result = change(document);
+
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      // Unique per write, so that no other writer can replace the file with a half-written one
+      const temporaryPath = `${this.filePath}.${process.pid}.${randomUUID()}.tmp`;
+      try {
+        await writeFile(temporaryPath, JSON.stringify(document, null, 2), 'utf8');
+        await rename(temporaryPath, this.filePath);
+      } catch (error) {
+        await rm(temporaryPath, { force: true });
+        throw error;
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Loads the document from the file
+   * @returns Promise<T> - Stored document, or the empty document when the file does not exist
+   */
+  private async load(): Promise<T> {
+    let text: string;
+    try {
+      text = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return this.emptyDocument();
+      }
+      throw error;
+    }
+    return JSON.parse(text) as T;
+  }
+
+  /**
+   * Runs a task once the previous reads and changes are done
+   * @param task - Task reading or changing the file
+   * @returns Promise<R> - Result of the task
+   */
+  private async enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const previous = this.queue;
+    let resolveNext: () => void;
+    this.queue = new Promise<void>((resolve) => {
+      resolveNext = resolve;
+    });
+
+    try {
+      await previous;
+      return await task();
+    } finally {
+      resolveNext!();
+    }
+  }
+}
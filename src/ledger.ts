@@ -0,0 +1,341 @@
+import { addYears, differenceInCalendarDays, isAfter, parseISO } from 'date-fns';
+import { round } from './performanceStats.js';
+import type {
+  DividendIncome,
+  HoldingTerm,
+  LedgerPosition,
+  LedgerTransaction,
+  RealizedGain,
+  RealizedGainsReport,
+  TaxLot,
+  TaxLotReport,
+} from './types.js';
+
+// Quantities left below this by partial sales are rounding residue, the lot is closed
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * Shares of a buy that are still held, adjusted for the splits since
+ */
+export interface OpenLot {
+  lotId: string;
+  ticker: string;
+  acquiredAt: string;
+  quantity: number;
+  // Price per share including the fees of the buy
+  costPerShare: number;
+}
+
+/**
+ * State of the ledger after its transactions are applied in date order
+ */
+export interface LedgerReplay {
+  openLots: OpenLot[];
+  realized: RealizedGain[];
+  dividends: DividendIncome[];
+  // First transaction that cannot be applied, the state is the one before it
+  invalid?: { transactionId: string; reason: string };
+}
+
+/**
+ * Sorts transactions in date order. Splits come first on their date, as trades of that date are
+ * at post-split prices, and other transactions of a date keep the order they were recorded in.
+ * @param transactions - Transactions in the order they were recorded
+ * @returns LedgerTransaction[] - Transactions in the order they apply
+ */
+export function sortTransactions(transactions: LedgerTransaction[]): LedgerTransaction[] {
+  return [...transactions].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) || Number(a.type !== 'split') - Number(b.type !== 'split')
+  );
+}
+
+/**
+ * Computes the holding period of shares
+ * @param acquiredAt - Date the shares were bought in 'YYYY-MM-DD' format
+ * @param date - Date they were sold or valued at in 'YYYY-MM-DD' format
+ * @returns { holdingDays, term } - Days held, and the term, long when held for more than a year
+ */
+export function holdingPeriod(
+  acquiredAt: string,
+  date: string
+): { holdingDays: number; term: HoldingTerm } {
+  const acquired = parseISO(acquiredAt);
+  const end = parseISO(date);
+  return {
+    holdingDays: differenceInCalendarDays(end, acquired),
+    term: isAfter(end, addYears(acquired, 1)) ? 'long' : 'short',
+  };
+}
+
+/**
+ * Takes the shares of a sale from the open lots of its ticker
+ * @param sale - Sell transaction
+ * @param openLots - Open lots in acquisition order, changed in place
+ * @param realized - Realized gains, the matches of the sale are added to it
+ * @returns string | undefined - Why the sale cannot be applied, undefined when it was applied
+ */
+function applySale(
+  sale: LedgerTransaction,
+  openLots: OpenLot[],
+  realized: RealizedGain[]
+): string | undefined {
+  const { ticker, date, quantity, price } = sale;
+  if (quantity === undefined || price === undefined) {
+    return `The sale of ${ticker} on ${date} has no quantity or price.`;
+  }
+
+  const held = openLots.filter((lot) => lot.ticker === ticker);
+  const matches: Array<{ lot: OpenLot; quantity: number }> = [];
+
+  if (sale.lotMethod === 'specific') {
+    const selections = sale.lots ?? [];
+    const selected = selections.reduce((total, selection) => total + selection.quantity, 0);
+    if (Math.abs(selected - quantity) > QUANTITY_EPSILON) {
+      return (
+        `The lots of the sale of ${ticker} on ${date} add up to ${round(selected, 6)} shares, ` +
+        `not ${quantity}.`
+      );
+    }
+    for (const selection of selections) {
+      const lot = held.find((candidate) => candidate.lotId === selection.lotId);
+      if (!lot) {
+        return `Lot ${selection.lotId} is not an open lot of ${ticker} on ${date}.`;
+      }
+      // The same lot can be named twice
+      const taken = matches
+        .filter((match) => match.lot === lot)
+        .reduce((total, match) => total + match.quantity, 0);
+      if (lot.quantity - taken + QUANTITY_EPSILON < selection.quantity) {
+        return `Lot ${lot.lotId} holds only ${round(lot.quantity, 6)} shares of ${ticker} on ${date}.`;
+      }
+      matches.push({ lot, quantity: selection.quantity });
+    }
+  } else {
+    const total = held.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (total + QUANTITY_EPSILON < quantity) {
+      return `Cannot sell ${quantity} shares of ${ticker} on ${date}: only ${round(total, 6)} are held.`;
+    }
+    let remaining = quantity;
+    for (const lot of sale.lotMethod === 'lifo' ? [...held].reverse() : held) {
+      if (remaining <= QUANTITY_EPSILON) break;
+      const taken = Math.min(lot.quantity, remaining);
+      matches.push({ lot, quantity: taken });
+      remaining -= taken;
+    }
+  }
+
+  // Fees are shared by the lots in proportion to the shares taken from them
+  const proceedsPerShare = price - (sale.fees ?? 0) / quantity;
+  for (const match of matches) {
+    const { lot } = match;
+    realized.push({
+      sellId: sale.id,
+      lotId: lot.lotId,
+      ticker,
+      acquiredAt: lot.acquiredAt,
+      soldAt: date,
+      quantity: round(match.quantity, 6),
+      proceeds: round(match.quantity * proceedsPerShare),
+      costBasis: round(match.quantity * lot.costPerShare),
+      gain: round(match.quantity * (proceedsPerShare - lot.costPerShare)),
+      ...holdingPeriod(lot.acquiredAt, date),
+    });
+    lot.quantity -= match.quantity;
+  }
+
+  for (let i = openLots.length - 1; i >= 0; i--) {
+    if (openLots[i].quantity <= QUANTITY_EPSILON) openLots.splice(i, 1);
+  }
+  return undefined;
+}
+
+/**
+ * Applies the transactions of a ledger in date order
+ * @param transactions - Transactions in the order they were recorded
+ * @param until - Optional last date in 'YYYY-MM-DD' format, later transactions are ignored
+ * @returns LedgerReplay - Open lots in acquisition order, realized gains and dividends, with the
+ * first transaction that cannot be applied
+ */
+export function replayLedger(transactions: LedgerTransaction[], until?: string): LedgerReplay {
+  const openLots: OpenLot[] = [];
+  const realized: RealizedGain[] = [];
+  const dividends: DividendIncome[] = [];
+
+  for (const transaction of sortTransactions(transactions)) {
+    const { id, type, ticker, date } = transaction;
+    if (until && date > until) break;
+
+    let reason: string | undefined;
+    switch (type) {
+      case 'buy': {
+        const { quantity, price } = transaction;
+        if (quantity === undefined || price === undefined) {
+          reason = `The buy of ${ticker} on ${date} has no quantity or price.`;
+          break;
+        }
+        openLots.push({
+          lotId: id,
+          ticker,
+          acquiredAt: date,
+          quantity,
+          costPerShare: (quantity * price + (transaction.fees ?? 0)) / quantity,
+        });
+        break;
+      }
+
+      case 'sell':
+        reason = applySale(transaction, openLots, realized);
+        break;
+
+      case 'dividend':
+        if (transaction.amount === undefined) {
+          reason = `The dividend of ${ticker} on ${date} has no amount.`;
+          break;
+        }
+        dividends.push({ transactionId: id, ticker, date, amount: transaction.amount });
+        break;
+
+      case 'split': {
+        const { ratio } = transaction;
+        if (ratio === undefined) {
+          reason = `The split of ${ticker} on ${date} has no ratio.`;
+          break;
+        }
+        for (const lot of openLots.filter((candidate) => candidate.ticker === ticker)) {
+          lot.quantity *= ratio;
+          lot.costPerShare /= ratio;
+        }
+        break;
+      }
+    }
+
+    if (reason) {
+      return { openLots, realized, dividends, invalid: { transactionId: id, reason } };
+    }
+  }
+
+  return { openLots, realized, dividends };
+}
+
+/**
+ * Values open lots
+ * @param openLots - Open lots in acquisition order
+ * @param prices - Prices per ticker, lots of tickers without a price are reported at cost only
+ * @param asOf - Date of the prices in 'YYYY-MM-DD' format, holding periods end on it
+ * @returns TaxLotReport - Lots, positions per ticker and totals
+ */
+export function reportTaxLots(
+  openLots: OpenLot[],
+  prices: Map<string, number>,
+  asOf: string
+): TaxLotReport {
+  const lots = openLots.map((lot) => {
+    const costBasis = lot.quantity * lot.costPerShare;
+    const price = prices.get(lot.ticker);
+    const taxLot: TaxLot = {
+      lotId: lot.lotId,
+      ticker: lot.ticker,
+      acquiredAt: lot.acquiredAt,
+      quantity: round(lot.quantity, 6),
+      costPerShare: round(lot.costPerShare, 4),
+      costBasis: round(costBasis),
+      ...holdingPeriod(lot.acquiredAt, asOf),
+    };
+    if (price !== undefined) {
+      const marketValue = lot.quantity * price;
+      taxLot.price = price;
+      taxLot.marketValue = round(marketValue);
+      taxLot.unrealizedGain = round(marketValue - costBasis);
+      if (costBasis > 0) {
+        taxLot.unrealizedGainPercent = round(((marketValue - costBasis) / costBasis) * 100);
+      }
+    }
+    return taxLot;
+  });
+
+  const tickers = [...new Set(lots.map((lot) => lot.ticker))].sort((a, b) => a.localeCompare(b));
+  const positions = tickers.map((ticker) => {
+    const tickerLots = openLots.filter((lot) => lot.ticker === ticker);
+    const quantity = tickerLots.reduce((total, lot) => total + lot.quantity, 0);
+    const costBasis = tickerLots.reduce((total, lot) => total + lot.quantity * lot.costPerShare, 0);
+    const price = prices.get(ticker);
+    const position: LedgerPosition = {
+      ticker,
+      quantity: round(quantity, 6),
+      costBasis: round(costBasis),
+    };
+    if (price !== undefined) {
+      position.price = price;
+      position.marketValue = round(quantity * price);
+      position.unrealizedGain = round(quantity * price - costBasis);
+    }
+    return position;
+  });
+
+  const priced = lots.filter((lot) => lot.unrealizedGain !== undefined);
+  const unrealizedGain = (term?: HoldingTerm): number =>
+    round(
+      priced
+        .filter((lot) => term === undefined || lot.term === term)
+        .reduce((total, lot) => total + (lot.unrealizedGain ?? 0), 0)
+    );
+
+  return {
+    asOf,
+    costBasis: round(openLots.reduce((total, lot) => total + lot.quantity * lot.costPerShare, 0)),
+    marketValue: round(priced.reduce((total, lot) => total + (lot.marketValue ?? 0), 0)),
+    unrealizedGain: unrealizedGain(),
+    shortTermUnrealizedGain: unrealizedGain('short'),
+    longTermUnrealizedGain: unrealizedGain('long'),
+    positions,
+    lots,
+  };
+}
+
+/**
+ * Totals the realized gains and dividends of a period
+ * @param realized - Realized gains in sale order
+ * @param dividends - Dividends in date order
+ * @param fromDate - Optional first date in 'YYYY-MM-DD' format
+ * @param toDate - Optional last date in 'YYYY-MM-DD' format
+ * @returns RealizedGainsReport - Sales and dividends of the period with their totals
+ */
+export function reportRealizedGains(
+  realized: RealizedGain[],
+  dividends: DividendIncome[],
+  fromDate?: string,
+  toDate?: string
+): RealizedGainsReport {
+  const inPeriod = (date: string): boolean =>
+    (!fromDate || date >= fromDate) && (!toDate || date <= toDate);
+  const sales = realized.filter((gain) => inPeriod(gain.soldAt));
+  const income = dividends.filter((dividend) => inPeriod(dividend.date));
+  const total = (gains: RealizedGain[], field: 'proceeds' | 'costBasis' | 'gain'): number =>
+    round(gains.reduce((sum, gain) => sum + gain[field], 0));
+
+  const report: RealizedGainsReport = {
+    fromDate,
+    toDate,
+    proceeds: total(sales, 'proceeds'),
+    costBasis: total(sales, 'costBasis'),
+    realizedGain: total(sales, 'gain'),
+    shortTermGain: total(
+      sales.filter((gain) => gain.term === 'short'),
+      'gain'
+    ),
+    longTermGain: total(
+      sales.filter((gain) => gain.term === 'long'),
+      'gain'
+    ),
+    dividendIncome: round(income.reduce((sum, dividend) => sum + dividend.amount, 0)),
+    realized: sales,
+    dividends: income,
+  };
+  Object.keys(report).forEach(
+    (key) =>
+      report[key as keyof RealizedGainsReport] === undefined &&
+      delete report[key as keyof RealizedGainsReport]
+  );
+  return report;
+}
@@ -0,0 +1,114 @@
+import { round } from './performanceStats.js';
+import type {
+  Holder,
+  InsiderTransaction,
+  Ownership,
+  YahooInsiderTransaction,
+  YahooOwnership,
+  YahooOwnershipHolder,
+} from './types.js';
+import { formatUtcDate } from './yahooFields.js';
+
+/**
+ * Converts a Yahoo ratio (0.05 is 5%) to percent
+ * @param ratio - Ratio
+ * @returns number | undefined - Percent with 2 decimals, or undefined when the ratio is missing
+ */
+function toPercent(ratio: number | undefined): number | undefined {
+  return ratio === undefined ? undefined : round(ratio * 100);
+}
+
+/**
+ * Maps the holders of an ownership list
+ * @param holders - Yahoo ownership list
+ * @returns Holder[] - Holders with a name, largest position first
+ */
+export function mapHolders(holders: YahooOwnershipHolder[]): Holder[] {
+  return holders
+    .flatMap((holder): Holder[] => {
+      if (!holder.organization) return [];
+
+      const mapped: Holder = {
+        organization: holder.organization,
+        reportDate: holder.reportDate === undefined ? undefined : formatUtcDate(holder.reportDate),
+        percentHeld: toPercent(holder.pctHeld),
+        shares: holder.position,
+        value: holder.value,
+        percentChange: toPercent(holder.pctChange),
+      };
+      Object.keys(mapped).forEach(
+        (key) => mapped[key as keyof Holder] === undefined && delete mapped[key as keyof Holder]
+      );
+      return [mapped];
+    })
+    .sort((a, b) => (b.shares ?? 0) - (a.shares ?? 0));
+}
+
+/**
+ * Maps insider transactions
+ * @param transactions - Yahoo insider transactions
+ * @returns InsiderTransaction[] - Transactions newest first
+ */
+export function mapInsiderTransactions(
+  transactions: YahooInsiderTransaction[]
+): InsiderTransaction[] {
+  return transactions
+    .map((transaction): InsiderTransaction => {
+      const mapped: InsiderTransaction = {
+        date:
+          transaction.startDate === undefined ? undefined : formatUtcDate(transaction.startDate),
+        insider: transaction.filerName ?? '',
+        relation: transaction.filerRelation,
+        // Yahoo leaves the description empty for some filings, the amount text is used instead
+        transaction: [transaction.transactionText, transaction.moneyText].find(Boolean) ?? '',
+        shares: transaction.shares,
+        value: transaction.value,
+        ownership:
+          transaction.ownership === 'D'
+            ? 'direct'
+            : transaction.ownership === 'I'
+              ? 'indirect'
+              : undefined,
+      };
+      Object.keys(mapped).forEach(
+        (key) =>
+          mapped[key as keyof InsiderTransaction] === undefined &&
+          delete mapped[key as keyof InsiderTransaction]
+      );
+      return mapped;
+    })
+    .sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''));
+}
+
+/**
+ * Maps the ownership of a stock
+ * @param symbol - Ticker symbol
+ * @param ownership - Yahoo ownership modules
+ * @param transactionLimit - Maximum number of insider transactions, the most recent ones are kept
+ * @returns Ownership - Holder breakdown in percent, top holders and recent insider transactions
+ */
+export function mapOwnership(
+  symbol: string,
+  ownership: YahooOwnership,
+  transactionLimit: number
+): Ownership {
+  const breakdown = ownership.majorHoldersBreakdown ?? {};
+  const insidersPercentHeld = toPercent(breakdown.insidersPercentHeld);
+  const institutionsPercentHeld = toPercent(breakdown.institutionsPercentHeld);
+  const institutionsFloatPercentHeld = toPercent(breakdown.institutionsFloatPercentHeld);
+
+  return {
+    symbol,
+    ...(insidersPercentHeld !== undefined && { insidersPercentHeld }),
+    ...(institutionsPercentHeld !== undefined && { institutionsPercentHeld }),
+    ...(institutionsFloatPercentHeld !== undefined && { institutionsFloatPercentHeld }),
+    ...(breakdown.institutionsCount !== undefined && {
+      institutionsCount: breakdown.institutionsCount,
+    }),
+    institutionalHolders: mapHolders(ownership.institutionOwnership?.ownershipList ?? []),
+    fundHolders: mapHolders(ownership.fundOwnership?.ownershipList ?? []),
+    insiderTransactions: mapInsiderTransactions(
+      ownership.insiderTransactions?.transactions ?? []
+    ).slice(0, transactionLimit),
+  };
+}
@@ -0,0 +1,320 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type {
+  DailyReturn,
+  DrawdownStats,
+  PerformanceStats,
+  TickerComparison,
+  TickerPerformance,
+} from './types.js';
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+/**
+ * A closing price on a given day
+ */
+export interface PricePoint {
+  date: string;
+  close: number;
+}
+
+/**
+ * Rounds a value to a number of decimals
+ * @param value - Value to round
+ * @param decimals - Number of decimals to keep
+ * @returns number - Rounded value
+ */
+export function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Rounds a value to a number of significant digits
+ * @param value - Value to round
+ * @param digits - Number of significant digits to keep
+ * @returns number - Rounded value
+ */
+export function roundSignificant(value: number, digits: number = 6): number {
+  return Number(value.toPrecision(digits));
+}
+
+/**
+ * Simple returns between consecutive prices
+ * @param prices - Prices, oldest first
+ * @returns number[] - One return less than there are prices (0.01 is 1%)
+ */
+export function dailyReturns(prices: number[]): number[] {
+  return prices.slice(1).map((price, index) => price / prices[index] - 1);
+}
+
+/**
+ * Arithmetic mean
+ * @param values - Values to average
+ * @returns number - Mean, or 0 for an empty list
+ */
+export function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Sample standard deviation
+ * @param values - Values
+ * @returns number - Standard deviation, or 0 with fewer than 2 values
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  const variance =
+    values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Sample covariance of two series of the same length
+ * @param a - First series
+ * @param b - Second series
+ * @returns number - Covariance, or 0 with fewer than 2 values
+ */
+export function covariance(a: number[], b: number[]): number {
+  if (a.length < 2) return 0;
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return (
+    a.reduce((sum, value, index) => sum + (value - meanA) * (b[index] - meanB), 0) / (a.length - 1)
+  );
+}
+
+/**
+ * Pearson correlation of two series of the same length
+ * @param a - First series
+ * @param b - Second series
+ * @returns number | null - Correlation between -1 and 1, or null when a series does not vary
+ */
+export function correlation(a: number[], b: number[]): number | null {
+  const deviations = standardDeviation(a) * standardDeviation(b);
+  return deviations === 0 ? null : covariance(a, b) / deviations;
+}
+
+/**
+ * Largest peak-to-trough decline of a price series
+ * @param points - Prices, oldest first
+ * @returns DrawdownStats - Decline in percent (0 or negative), with its peak, trough and recovery dates
+ */
+export function maxDrawdown(points: PricePoint[]): DrawdownStats {
+  let peak = points[0];
+  let worst: DrawdownStats = {
+    percent: 0,
+    peakDate: peak.date,
+    troughDate: peak.date,
+    recoveryDate: null,
+  };
+  let worstPeakClose = peak.close;
+
+  for (const point of points) {
+    if (point.close > peak.close) {
+      peak = point;
+    }
+    const drawdown = point.close / peak.close - 1;
+    if (drawdown < worst.percent) {
+      worst = {
+        percent: drawdown,
+        peakDate: peak.date,
+        troughDate: point.date,
+        recoveryDate: null,
+      };
+      worstPeakClose = peak.close;
+    }
+  }
+
+  const recovery = points.find(
+    (point) => point.date > worst.troughDate && point.close >= worstPeakClose
+  );
+
+  return { ...worst, percent: round(worst.percent * 100), recoveryDate: recovery?.date ?? null };
+}
+
+/**
+ * Computes return and risk statistics of a price series
+ * @param symbol - Ticker symbol
+ * @param points - Adjusted closing prices, oldest first, at least 2
+ * @param riskFreeRatePercent - Annual risk-free rate in percent, used by the Sharpe and Sortino ratios
+ * @param benchmark - Optional benchmark prices, oldest first, used to compute beta
+ * @returns PerformanceStats - Statistics, with returns and volatility in percent
+ */
+export function computePerformanceStats(
+  symbol: string,
+  points: PricePoint[],
+  riskFreeRatePercent: number = 0,
+  benchmark?: { symbol: string; points: PricePoint[] }
+): PerformanceStats {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const returns = dailyReturns(points.map((point) => point.close));
+
+  const totalReturn = last.close / first.close - 1;
+  const years = differenceInCalendarDays(parseISO(last.date), parseISO(first.date)) / 365.25;
+  const annualizedReturn = years > 0 ? (1 + totalReturn) ** (1 / years) - 1 : totalReturn;
+
+  const dailyRiskFree = (1 + riskFreeRatePercent / 100) ** (1 / TRADING_DAYS_PER_YEAR) - 1;
+  const excessReturn = mean(returns) - dailyRiskFree;
+  const volatility = standardDeviation(returns);
+  const downsideDeviation = Math.sqrt(
+    mean(returns.map((value) => Math.min(0, value - dailyRiskFree) ** 2))
+  );
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const dayReturns: DailyReturn[] = returns.map((value, index) => ({
+    date: points[index + 1].date,
+    returnPercent: round(value * 100),
+  }));
+  const bestDay = dayReturns.reduce<DailyReturn | null>(
+    (best, day) => (best === null || day.returnPercent > best.returnPercent ? day : best),
+    null
+  );
+  const worstDay = dayReturns.reduce<DailyReturn | null>(
+    (worst, day) => (worst === null || day.returnPercent < worst.returnPercent ? day : worst),
+    null
+  );
+
+  const stats: PerformanceStats = {
+    symbol,
+    fromDate: first.date,
+    toDate: last.date,
+    tradingDays: points.length,
+    startPrice: first.close,
+    endPrice: last.close,
+    totalReturnPercent: round(totalReturn * 100),
+    annualizedReturnPercent: round(annualizedReturn * 100),
+    annualizedVolatilityPercent: round(volatility * annualize * 100),
+    maxDrawdown: maxDrawdown(points),
+    riskFreeRatePercent,
+    sharpeRatio: volatility === 0 ? null : round((excessReturn / volatility) * annualize),
+    sortinoRatio:
+      downsideDeviation === 0 ? null : round((excessReturn / downsideDeviation) * annualize),
+    bestDay,
+    worstDay,
+  };
+
+  if (benchmark) {
+    // Only days on which both the ticker and the benchmark traded are compared
+    const benchmarkCloses = new Map(benchmark.points.map((point) => [point.date, point.close]));
+    const common = points.flatMap((point) => {
+      const benchmarkClose = benchmarkCloses.get(point.date);
+      return benchmarkClose === undefined ? [] : [{ close: point.close, benchmarkClose }];
+    });
+    const tickerReturns = dailyReturns(common.map((point) => point.close));
+    const benchmarkReturns = dailyReturns(common.map((point) => point.benchmarkClose));
+    const benchmarkVariance = standardDeviation(benchmarkReturns) ** 2;
+    const benchmarkCloseValues = benchmark.points.map((point) => point.close);
+
+    stats.benchmark = {
+      symbol: benchmark.symbol,
+      totalReturnPercent:
+        benchmarkCloseValues.length > 0
+          ? round(
+              (benchmarkCloseValues[benchmarkCloseValues.length - 1] / benchmarkCloseValues[0] -
+                1) *
+                100
+            )
+          : null,
+      beta:
+        benchmarkVariance === 0
+          ? null
+          : round(covariance(tickerReturns, benchmarkReturns) / benchmarkVariance),
+    };
+  }
+
+  return stats;
+}
+
+/**
+ * Compares the price series of several tickers over the same period.
+ * Trading calendars may differ between exchanges: on a day one ticker did not trade, its last
+ * close is carried forward for rebasing, and correlations only use days on which all tickers traded.
+ * @param series - Adjusted closing prices of each ticker, oldest first, none of them empty
+ * @returns TickerComparison - Rebased prices, relative performance table and correlation matrix
+ */
+export function compareSeries(
+  series: Array<{ symbol: string; points: PricePoint[] }>
+): TickerComparison {
+  const symbols = series.map((entry) => entry.symbol);
+  const closesBySymbol = series.map(
+    (entry) => new Map(entry.points.map((point) => [point.date, point.close]))
+  );
+  const dates = [
+    ...new Set(series.flatMap((entry) => entry.points.map((point) => point.date))),
+  ].sort((a, b) => a.localeCompare(b));
+  // The comparison starts on the first day every ticker has a price
+  const startDate = series
+    .map((entry) => entry.points[0].date)
+    .reduce((latest, date) => (date > latest ? date : latest));
+
+  const lastCloses: number[] = [];
+  const aligned: Array<{ date: string; closes: number[]; allTraded: boolean }> = [];
+  for (const date of dates) {
+    closesBySymbol.forEach((closes, index) => {
+      lastCloses[index] = closes.get(date) ?? lastCloses[index];
+    });
+    if (date >= startDate) {
+      aligned.push({
+        date,
+        closes: [...lastCloses],
+        allTraded: closesBySymbol.every((closes) => closes.has(date)),
+      });
+    }
+  }
+
+  const first = aligned[0];
+  const rebased = aligned.map(({ date, closes }) => ({
+    date,
+    ...Object.fromEntries(
+      symbols.map((symbol, index): [string, number] => [
+        symbol,
+        round((closes[index] / first.closes[index]) * 100),
+      ])
+    ),
+  }));
+
+  const performance: TickerPerformance[] = symbols
+    .map((symbol, index) => {
+      const points = aligned.map(({ date, closes }) => ({ date, close: closes[index] }));
+      const stats = computePerformanceStats(symbol, points);
+      return {
+        symbol,
+        startPrice: stats.startPrice,
+        endPrice: stats.endPrice,
+        totalReturnPercent: stats.totalReturnPercent,
+        annualizedReturnPercent: stats.annualizedReturnPercent,
+        annualizedVolatilityPercent: stats.annualizedVolatilityPercent,
+        maxDrawdownPercent: stats.maxDrawdown.percent,
+        rank: 0,
+      };
+    })
+    .sort((a, b) => b.totalReturnPercent - a.totalReturnPercent)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+  const commonDays = aligned.filter((day) => day.allTraded);
+  const returnsBySymbol = symbols.map((_, index) =>
+    dailyReturns(commonDays.map((day) => day.closes[index]))
+  );
+  const correlationMatrix = Object.fromEntries(
+    symbols.map((symbol, row): [string, Record<string, number | null>] => [
+      symbol,
+      Object.fromEntries(
+        symbols.map((other, column): [string, number | null] => {
+          const value = correlation(returnsBySymbol[row], returnsBySymbol[column]);
+          return [other, value === null ? null : round(value, 4)];
+        })
+      ),
+    ])
+  );
+
+  return {
+    fromDate: first.date,
+    toDate: aligned[aligned.length - 1].date,
+    tickers: symbols,
+    performance,
+    correlationMatrix,
+    rebased,
+  };
+}
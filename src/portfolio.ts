@@ -0,0 +1,163 @@
+import { round } from './performanceStats.js';
+import type {
+  PortfolioAllocation,
+  PortfolioPositionInput,
+  PortfolioValuation,
+  PositionValuation,
+} from './types.js';
+
+// Sector of the positions Yahoo Finance gives none, such as funds and cryptocurrencies
+const OTHER_SECTOR = 'Other';
+
+/**
+ * A position with its market data, prices in the base currency of the portfolio
+ */
+export interface PricedPosition {
+  position: PortfolioPositionInput;
+  name?: string;
+  listingCurrency: string;
+  sector?: string;
+  price: number;
+  // Change of the price since the previous close
+  change?: number;
+  // Exchange rate from the cost basis currency to the base currency
+  costRate: number;
+}
+
+/**
+ * Sums values
+ * @param values - Values to sum
+ * @returns number - Sum, 0 for an empty list
+ */
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Computes a change in percent of a reference amount
+ * @param change - Change
+ * @param reference - Reference amount
+ * @returns number | undefined - Change in percent, or undefined when the reference is not positive
+ */
+function percentOf(change: number, reference: number): number | undefined {
+  return reference > 0 ? round((change / reference) * 100) : undefined;
+}
+
+/**
+ * Groups market values by name
+ * @param entries - Names and market values
+ * @param total - Market value of the portfolio
+ * @returns PortfolioAllocation[] - Allocations, largest first
+ */
+function allocate(
+  entries: Array<{ name: string; marketValue: number }>,
+  total: number
+): PortfolioAllocation[] {
+  const values = new Map<string, number>();
+  for (const { name, marketValue } of entries) {
+    values.set(name, (values.get(name) ?? 0) + marketValue);
+  }
+  return [...values.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .map(([name, marketValue]) => ({
+      name,
+      marketValue: round(marketValue),
+      weight: total > 0 ? round((marketValue / total) * 100) : 0,
+    }));
+}
+
+/**
+ * Values a portfolio
+ * @param baseCurrency - ISO 4217 currency code the portfolio is valued in
+ * @param positions - Positions with their prices in the base currency
+ * @param includeSectors - Whether to break the market value down by sector
+ * @returns PortfolioValuation - Market value, unrealized P&L and day change per position and in
+ * total, with a currency breakdown and optionally a sector breakdown
+ */
+export function valuePortfolio(
+  baseCurrency: string,
+  positions: PricedPosition[],
+  includeSectors: boolean
+): PortfolioValuation {
+  const valued = positions.map((priced) => {
+    const { quantity, costBasis } = priced.position;
+    const marketValue = quantity * priced.price;
+    const cost = costBasis === undefined ? undefined : quantity * costBasis * priced.costRate;
+    const dayChange = priced.change === undefined ? undefined : quantity * priced.change;
+    return { priced, marketValue, cost, dayChange };
+  });
+
+  const marketValue = sum(valued.map((position) => position.marketValue));
+  const withCost = valued.flatMap(({ marketValue, cost }) =>
+    cost === undefined ? [] : [{ marketValue, cost }]
+  );
+  const withDayChange = valued.flatMap(({ marketValue, dayChange }) =>
+    dayChange === undefined ? [] : [{ marketValue, dayChange }]
+  );
+
+  const positionValuations = valued.map(({ priced, marketValue: value, cost, dayChange }) => {
+    const mapped: PositionValuation = {
+      ticker: priced.position.ticker,
+      name: priced.name,
+      quantity: priced.position.quantity,
+      currency: priced.listingCurrency,
+      sector: priced.sector,
+      price: priced.price,
+      marketValue: round(value),
+      costBasis: cost === undefined ? undefined : round(cost),
+      unrealizedPnl: cost === undefined ? undefined : round(value - cost),
+      unrealizedPnlPercent: cost === undefined ? undefined : percentOf(value - cost, cost),
+      dayChange: dayChange === undefined ? undefined : round(dayChange),
+      dayChangePercent:
+        dayChange === undefined ? undefined : percentOf(dayChange, value - dayChange),
+      weight: marketValue > 0 ? round((value / marketValue) * 100) : 0,
+    };
+    Object.keys(mapped).forEach(
+      (key) =>
+        mapped[key as keyof PositionValuation] === undefined &&
+        delete mapped[key as keyof PositionValuation]
+    );
+    return mapped;
+  });
+
+  const valuation: PortfolioValuation = {
+    baseCurrency,
+    marketValue: round(marketValue),
+    positions: positionValuations,
+    ...(includeSectors && {
+      sectors: allocate(
+        valued.map(({ priced, marketValue: value }) => ({
+          name: priced.sector ?? OTHER_SECTOR,
+          marketValue: value,
+        })),
+        marketValue
+      ),
+    }),
+    currencies: allocate(
+      valued.map(({ priced, marketValue: value }) => ({
+        name: priced.listingCurrency,
+        marketValue: value,
+      })),
+      marketValue
+    ),
+  };
+
+  if (withCost.length > 0) {
+    const cost = sum(withCost.map((position) => position.cost));
+    const pnl = sum(withCost.map((position) => position.marketValue)) - cost;
+    valuation.costBasis = round(cost);
+    valuation.unrealizedPnl = round(pnl);
+    const pnlPercent = percentOf(pnl, cost);
+    if (pnlPercent !== undefined) valuation.unrealizedPnlPercent = pnlPercent;
+  }
+
+  if (withDayChange.length > 0) {
+    const dayChange = sum(withDayChange.map((position) => position.dayChange));
+    const previousValue = sum(withDayChange.map((position) => position.marketValue)) - dayChange;
+    valuation.dayChange = round(dayChange);
+    const dayChangePercent = percentOf(dayChange, previousValue);
+    if (dayChangePercent !== undefined) valuation.dayChangePercent = dayChangePercent;
+  }
+
+  return valuation;
+}
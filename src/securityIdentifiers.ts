@@ -0,0 +1,124 @@
+import type { SecurityIdentifierType } from './types.js';
+
+// ISIN: country code, 9 alphanumeric characters and a check digit (e.g., US0378331005)
+const ISIN = /^[A-Z]{2}[A-Z0-9]{9}[0-9]$/;
+// CUSIP: 8 alphanumeric characters (* @ # are allowed in private placements) and a check digit
+const CUSIP = /^[A-Z0-9*@#]{8}[0-9]$/;
+// SEDOL: 6 digits or consonants and a check digit (e.g., 2046251)
+const SEDOL = /^[0-9BCDFGHJKLMNPQRSTVWXYZ]{6}[0-9]$/;
+
+const SEDOL_WEIGHTS = [1, 3, 1, 7, 3, 9];
+
+// Countries whose ISINs embed a CUSIP or a SEDOL, as in US0378331005 and GB0002634946
+const CUSIP_ISIN_COUNTRIES = ['US', 'CA'];
+const SEDOL_ISIN_COUNTRIES = ['GB', 'IE'];
+
+/**
+ * Returns the value of an identifier character, digits are worth themselves and letters 10 to 35
+ * @param char - Identifier character
+ * @returns number - Character value
+ */
+function charValue(char: string): number {
+  const special = '*@#'.indexOf(char);
+  return special >= 0 ? 36 + special : parseInt(char, 36);
+}
+
+/**
+ * Computes the check digit of an ISIN with the Luhn algorithm, letters counting as two digits
+ * @param body - First 11 characters of the ISIN
+ * @returns number - Check digit
+ */
+function isinCheckDigit(body: string): number {
+  const digits = [...body].map(charValue).join('');
+  let sum = 0;
+  // Digits are doubled from the rightmost one, which sits next to the check digit
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i]);
+    const value = i % 2 === 0 ? digit * 2 : digit;
+    sum += Math.floor(value / 10) + (value % 10);
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Computes the check digit of a CUSIP
+ * @param body - First 8 characters of the CUSIP
+ * @returns number - Check digit
+ */
+function cusipCheckDigit(body: string): number {
+  let sum = 0;
+  [...body].forEach((char, i) => {
+    const value = i % 2 === 1 ? charValue(char) * 2 : charValue(char);
+    sum += Math.floor(value / 10) + (value % 10);
+  });
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Computes the check digit of a SEDOL
+ * @param body - First 6 characters of the SEDOL
+ * @returns number - Check digit
+ */
+function sedolCheckDigit(body: string): number {
+  const sum = [...body].reduce((total, char, i) => total + charValue(char) * SEDOL_WEIGHTS[i], 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Normalizes an identifier written with spaces, dashes or lowercase letters
+ * @param text - Identifier (e.g., "us0378331005" or "037833 10 0")
+ * @returns string - Uppercase identifier without separators
+ */
+export function normalizeIdentifier(text: string): string {
+  return text.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Recognizes the kind of a normalized identifier from its format, without checking its check digit
+ * @param identifier - Normalized identifier
+ * @returns SecurityIdentifierType | undefined - Identifier kind, or undefined when the identifier
+ * is not an ISIN, CUSIP or SEDOL
+ */
+export function identifierType(identifier: string): SecurityIdentifierType | undefined {
+  if (ISIN.test(identifier)) return 'isin';
+  if (CUSIP.test(identifier)) return 'cusip';
+  if (SEDOL.test(identifier)) return 'sedol';
+  return undefined;
+}
+
+/**
+ * Checks the check digit of an identifier
+ * @param type - Identifier kind
+ * @param identifier - Normalized identifier in the format of its kind
+ * @returns boolean - Whether the last digit matches the check digit of the other characters
+ */
+export function hasValidCheckDigit(type: SecurityIdentifierType, identifier: string): boolean {
+  const body = identifier.slice(0, -1);
+  const checkDigit = Number(identifier.slice(-1));
+  switch (type) {
+    case 'isin':
+      return isinCheckDigit(body) === checkDigit;
+    case 'cusip':
+      return cusipCheckDigit(body) === checkDigit;
+    case 'sedol':
+      return sedolCheckDigit(body) === checkDigit;
+  }
+}
+
+/**
+ * Returns the ISINs a CUSIP or SEDOL can be part of, Yahoo Finance finds some securities by ISIN
+ * only
+ * @param type - Identifier kind
+ * @param identifier - Normalized identifier
+ * @returns string[] - Candidate ISINs, most common country first, empty for an ISIN
+ */
+export function isinCandidates(type: SecurityIdentifierType, identifier: string): string[] {
+  const countries =
+    type === 'cusip' ? CUSIP_ISIN_COUNTRIES : type === 'sedol' ? SEDOL_ISIN_COUNTRIES : [];
+  // SEDOLs are padded to the 9 characters of the national number
+  const nationalNumber = type === 'sedol' ? `00${identifier}` : identifier;
+  return countries.map((country) => {
+    const body = `${country}${nationalNumber}`;
+    return `${body}${isinCheckDigit(body)}`;
+  });
+}
@@ -1,3 +1,7 @@
+import type { AlertNotifier } from './alertNotifiers.js';
+import { McpLoggingNotifier, WebhookNotifier } from './alertNotifiers.js';
+import { AlertScheduler } from './alertScheduler.js';
+import { logger } from './logger.js';
 import type { StockQuotesService } from './stockQuotesService.js';
 import { StockQuotesService as StockQuotesServiceImpl } from './stockQuotesService.js';
 import { TransportFactory } from './transports/TransportFactory.js';
@@ -5,6 +9,9 @@ import type { TransportStrategy } from './transports/TransportStrategy.js';
 import type { ServerConfig } from './types.js';
 import { YahooFinanceClient } from './yahooFinanceClient.js';
 
+// Quotes are cached for 5 minutes, checking the alerts more often finds the same prices
+const DEFAULT_ALERT_INTERVAL_SECONDS = 300;
+
 type HttpTransportStrategy = TransportStrategy & {
   getApp(): unknown;
 };
@@ -15,6 +22,7 @@ type HttpTransportStrategy = TransportStrategy & {
 export class StockQuotesServer {
   private readonly stockService: StockQuotesService;
   private readonly transportStrategy: TransportStrategy;
+  private readonly alertScheduler?: AlertScheduler;
 
   /**
    * Create a new instance of the StockQuotesServer
@@ -24,13 +32,32 @@ export class StockQuotesServer {
   constructor(config: ServerConfig, stockService: StockQuotesService) {
     this.stockService = stockService;
     this.transportStrategy = TransportFactory.createTransport(config, this.stockService);
+
+    const alertIntervalSeconds = config.alertIntervalSeconds ?? DEFAULT_ALERT_INTERVAL_SECONDS;
+    if (alertIntervalSeconds > 0) {
+      const notifiers: AlertNotifier[] = [];
+      // The stateless HTTP transport keeps no stream open between requests, so logging
+      // notifications only reach the client of the stdio transport
+      if (config.transport === 'stdio') {
+        notifiers.push(new McpLoggingNotifier(this.transportStrategy.getServer()));
+      }
+      if (config.alertWebhookUrl) {
+        notifiers.push(new WebhookNotifier(config.alertWebhookUrl));
+      }
+      if (notifiers.length === 0) {
+        logger.warn('Price alerts are checked but not delivered, configure --alert-webhook');
+      }
+      this.alertScheduler = new AlertScheduler(this.stockService, notifiers, alertIntervalSeconds);
+    }
   }
 
   /**
-   * Connect to the appropriate transport using the strategy pattern
+   * Connect to the appropriate transport using the strategy pattern, and start checking the
+   * price alerts unless their interval is 0
    */
   async connect(): Promise<void> {
     await this.transportStrategy.connect();
+    this.alertScheduler?.start();
   }
 
   /**
@@ -49,6 +76,7 @@ export class StockQuotesServer {
    * Close the server and cleanup resources
    */
   async close(): Promise<void> {
+    this.alertScheduler?.stop();
     await this.transportStrategy.close();
   }
 }
@@ -67,7 +95,11 @@ export async function createServer(config?: Partial<ServerConfig>): Promise<Stoc
   };
 
   const yahooClient = new YahooFinanceClient();
-  const stockService = new StockQuotesServiceImpl(yahooClient);
+  const stockService = new StockQuotesServiceImpl(yahooClient, {
+    maxHistoricalRangeYears: serverConfig.maxHistoricalRangeYears,
+    maxHistoricalDataPoints: serverConfig.maxHistoricalDataPoints,
+    dataDirectory: serverConfig.dataDirectory,
+  });
   const server = new StockQuotesServer(serverConfig, stockService);
   await server.connect();
   return server;
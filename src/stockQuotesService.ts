@@ -1,52 +1,392 @@
+import type { Duration } from 'date-fns';
 import {
+  add,
   addDays,
+  differenceInBusinessDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
   differenceInYears,
   format,
   isAfter,
   isValid,
+  min,
   parseISO,
+  startOfMonth,
   startOfToday,
+  startOfWeek,
+  subDays,
+  subYears,
 } from 'date-fns';
 import NodeCache from 'node-cache';
+import { randomUUID } from 'node:crypto';
+import os from 'node:os';
+import path from 'node:path';
 import { NotFoundError, RateLimitError, ValidationError } from './errors.js';
+import type { AlertEvaluation } from './alerts.js';
+import {
+  ALERT_QUOTE_FIELDS,
+  DEFAULT_MOVING_AVERAGE,
+  DEFAULT_VOLUME_SPIKE_MULTIPLE,
+  evaluateAlert,
+} from './alerts.js';
+import { mapPriceTargets, mapRecommendationTrend } from './analystRatings.js';
+import type { CurrencyPair } from './currencyPairs.js';
+import { cryptoSymbol, fxSymbol, parseCurrencyPair } from './currencyPairs.js';
+import { majorCurrencyUnit } from './currencyUnits.js';
+import type { DividendHolding } from './dividendProjection.js';
+import { projectDividendIncome } from './dividendProjection.js';
+import { mapEarningsDateWindow, mapEarningsEstimates, mapEarningsHistory } from './earnings.js';
+import {
+  mapBalanceSheets,
+  mapCashFlowStatements,
+  mapFinancialData,
+  mapIncomeStatements,
+  mapKeyStatistics,
+} from './fundamentals.js';
+import { JsonFileStore } from './jsonFileStore.js';
+import { replayLedger, reportRealizedGains, reportTaxLots, sortTransactions } from './ledger.js';
 import { logger } from './logger.js';
+import type { PricePoint } from './performanceStats.js';
+import { mapOwnership } from './ownership.js';
+import {
+  compareSeries,
+  computePerformanceStats,
+  round,
+  roundSignificant,
+} from './performanceStats.js';
+import type { PricedPosition } from './portfolio.js';
+import { valuePortfolio } from './portfolio.js';
+import {
+  hasValidCheckDigit,
+  identifierType,
+  isinCandidates,
+  normalizeIdentifier,
+} from './securityIdentifiers.js';
+import type { IndicatorSeries } from './technicalIndicators.js';
+import { computeIndicator, warmUpBars } from './technicalIndicators.js';
 import type {
+  AlertCheck,
+  AlertDocument,
+  AnalystRatings,
+  CompareTickersInput,
+  CorporateActions,
+  CreateAlertInput,
+  CreateWatchlistInput,
+  CryptoQuote,
+  CryptoQuoteInput,
+  CurrencyConversion,
+  DeleteAlertInput,
+  DeleteTransactionInput,
+  DividendEvent,
+  DividendIncomeInput,
+  DividendIncomeProjection,
+  EarningsReport,
+  ExchangeRate,
+  FinancialStatementPeriod,
+  Fundamentals,
+  FundamentalsInput,
+  FxRateInput,
   HistoricalData,
+  HistoricalDataOptions,
+  HistoricalInterval,
+  LedgerDocument,
+  LedgerTransaction,
+  ListAlertsInput,
+  ListTransactionsInput,
+  MarketMoverList,
+  MarketMovers,
+  MarketMoversInput,
+  NewsArticle,
+  OptionChain,
+  OptionChainInput,
+  OptionContract,
+  Ownership,
+  OwnershipInput,
+  PerformanceStats,
+  PerformanceStatsInput,
+  PortfolioPositionInput,
+  PortfolioValuation,
+  PredefinedScreener,
+  PriceAlert,
+  RatePoint,
+  RealizedGainsInput,
+  RealizedGainsReport,
+  RecordTransactionInput,
+  ResolvedIdentifier,
+  ScreenerResult,
+  ScreenStocksInput,
+  SearchQuoteType,
+  SecurityIdentifierType,
+  SplitEvent,
+  StockNews,
+  StockNewsInput,
   StockQuoteInput,
   StockQuoteResponse,
   StockQuotesInput,
+  StockQuotesServiceOptions,
+  StockSearchOptions,
   StockSearchResult,
+  TaxLotReport,
+  TaxLotsInput,
+  TechnicalIndicatorPoint,
+  TechnicalIndicatorsInput,
+  TechnicalIndicatorsResponse,
+  TickerComparison,
+  UpcomingEarnings,
+  UpcomingEarningsCalendar,
+  ValuePortfolioInput,
+  Watchlist,
+  WatchlistDocument,
+  WatchlistQuotes,
+  WatchlistQuotesInput,
+  WatchlistTickersInput,
   YahooChartResponse,
+  YahooFinancialStatement,
+  YahooHistoricalQuote,
+  YahooOptionContract,
+  YahooOptionsResponse,
+  YahooOwnership,
   YahooQuote,
+  YahooQuoteSummary,
+  YahooScreenerResponse,
+  YahooSearchNews,
   YahooSearchQuote,
   YahooSearchResponse,
+  YahooTrendingSymbolsResponse,
 } from './types.js';
+import { FundamentalsModules, MarketMoverLists } from './types.js';
+import { formatUtcDate, numberField, stringField } from './yahooFields.js';
 import type { YahooClient } from './yahooFinanceClient.js';
 
+// Yahoo only keeps intraday bars for a limited time
+const INTRADAY_LIMITS: Partial<Record<HistoricalInterval, { lookbackDays: number }>> = {
+  '1m': { lookbackDays: 30 },
+  '5m': { lookbackDays: 60 },
+  '15m': { lookbackDays: 60 },
+  '1h': { lookbackDays: 730 },
+};
+
+// Longest range fetched in a single chart request for each interval, longer ranges are
+// split into consecutive chunks (1-minute bars can only be requested 7 days at a time)
+const CHART_CHUNK_SIZES: Record<HistoricalInterval, Duration> = {
+  '1m': { days: 7 },
+  '5m': { days: 60 },
+  '15m': { days: 60 },
+  '1h': { days: 730 },
+  '1d': { years: 5 },
+  '1wk': { years: 5 },
+  '1mo': { years: 5 },
+};
+
+// Fewest bars a trading day has at each intraday interval, for sessions of at least 5 hours. Used
+// to estimate the size of a response before fetching it.
+const INTRADAY_BARS_PER_DAY: Partial<Record<HistoricalInterval, number>> = {
+  '1m': 300,
+  '5m': 60,
+  '15m': 20,
+  '1h': 5,
+};
+
+// Financial statements and analyst estimates change at most daily, quoteSummary data is cached
+// for an hour
+const QUOTE_SUMMARY_CACHE_TTL_SECONDS = 3600;
+
+// Years of financial statements requested from the fundamentals timeseries, Yahoo returns at
+// most the last 4 or 5 periods
+const FINANCIAL_STATEMENT_YEARS: Record<FinancialStatementPeriod, number> = {
+  annual: 5,
+  quarterly: 2,
+};
+
+// Option prices move with the underlying, option chains are only cached for a minute
+const OPTIONS_CACHE_TTL_SECONDS = 60;
+
+// Quote fields holding an amount in the listing currency, converted when a target currency is set
+const QUOTE_PRICE_FIELDS = [
+  'regularMarketPrice',
+  'regularMarketChange',
+  'regularMarketOpen',
+  'regularMarketDayHigh',
+  'regularMarketDayLow',
+  'regularMarketPreviousClose',
+  'marketCap',
+  'fiftyTwoWeekLow',
+  'fiftyTwoWeekHigh',
+  'fiftyTwoWeekLowChange',
+  'fiftyTwoWeekHighChange',
+  'fiftyDayAverage',
+  'twoHundredDayAverage',
+  'epsTrailingTwelveMonths',
+  'epsForward',
+  'bookValue',
+  'bid',
+  'ask',
+  'trailingAnnualDividendRate',
+] as const satisfies ReadonlyArray<keyof StockQuoteResponse>;
+
+// Quote fields in the minor currency unit for listings quoted in one (e.g., GBp), market cap and
+// per-share fundamentals are reported in the major unit
+const MINOR_UNIT_QUOTE_FIELDS = [
+  'regularMarketPrice',
+  'regularMarketChange',
+  'regularMarketOpen',
+  'regularMarketDayHigh',
+  'regularMarketDayLow',
+  'regularMarketPreviousClose',
+  'fiftyTwoWeekLow',
+  'fiftyTwoWeekHigh',
+  'fiftyTwoWeekLowChange',
+  'fiftyTwoWeekHighChange',
+  'fiftyDayAverage',
+  'twoHundredDayAverage',
+  'bid',
+  'ask',
+  'trailingAnnualDividendRate',
+] as const satisfies ReadonlyArray<keyof StockQuoteResponse>;
+
+// Historical data fields in the minor currency unit for listings quoted in one
+const MINOR_UNIT_HISTORICAL_FIELDS = ['open', 'high', 'low', 'close', 'adjClose'] as const;
+
+const DEFAULT_INSIDER_TRANSACTION_LIMIT = 20;
+
+const DEFAULT_SCREENER = 'most_actives';
+const DEFAULT_SCREENER_REGION = 'US';
+const DEFAULT_SCREENER_COUNT = 25;
+// Results of a predefined screener filtered by custom criteria, the most Yahoo returns at once
+const SCREENER_UNIVERSE_SIZE = 250;
+// A sector filter fetches the asset profile of each candidate, at most this many per requested
+// stock so that a rare sector does not send hundreds of requests
+const SECTOR_LOOKUPS_PER_RESULT = 2;
+
+const DEFAULT_MARKET_MOVERS_COUNT = 10;
+// Predefined screeners behind the top movers lists
+const MARKET_MOVER_SCREENERS: Record<Exclude<MarketMoverList, 'trending'>, PredefinedScreener> = {
+  gainers: 'day_gainers',
+  losers: 'day_losers',
+  mostActive: 'most_actives',
+};
+// Quote fields returned for market movers
+const MARKET_MOVER_FIELDS = [
+  'name',
+  'exchange',
+  'currency',
+  'regularMarketPrice',
+  'regularMarketChange',
+  'regularMarketChangePercent',
+  'regularMarketVolume',
+  'marketCap',
+];
+
+// Cross rates go through the dollar, the currency most pairs are quoted against
+const DEFAULT_PIVOT_CURRENCY = 'USD';
+const DEFAULT_CRYPTO_QUOTE_CURRENCY = 'USD';
+const DEFAULT_BASE_CURRENCY = 'USD';
+
+// Years of dividends the payment frequency and the regular dividend of a holding are taken from
+const DIVIDEND_HISTORY_YEARS = 2;
+
+const DEFAULT_SEARCH_LIMIT = 10;
+// Matches fetched when results are filtered, Yahoo Finance ranks them before the filters apply
+const SEARCH_UNIVERSE_SIZE = 50;
+// Yahoo Finance quote types of the instrument types searches can be restricted to
+const SEARCH_QUOTE_TYPES: Record<SearchQuoteType, string> = {
+  equity: 'EQUITY',
+  etf: 'ETF',
+  index: 'INDEX',
+  crypto: 'CRYPTOCURRENCY',
+  currency: 'CURRENCY',
+  mutualfund: 'MUTUALFUND',
+};
+
+// Securities rarely change listings, resolved identifiers are cached for 30 days
+const IDENTIFIER_CACHE_TTL_SECONDS = 30 * 86400;
+const IDENTIFIER_NAMES: Record<SecurityIdentifierType, string> = {
+  isin: 'ISIN',
+  cusip: 'CUSIP',
+  sedol: 'SEDOL',
+};
+
+const DEFAULT_NEWS_COUNT = 10;
+// Headlines fetched when skipping already returned ones, so that enough new ones remain
+const MAX_NEWS_COUNT = 50;
+// Headlines returned for a query are remembered for a day, up to this many per query
+const MAX_SEEN_NEWS = 500;
+const SEEN_NEWS_TTL_SECONDS = 86400;
+
+type QuoteSummaryModules = NonNullable<Parameters<YahooClient['quoteSummary']>[1]>['modules'];
+
+const DEFAULT_MAX_HISTORICAL_RANGE_YEARS = 30;
+const DEFAULT_MAX_HISTORICAL_DATA_POINTS = 10000;
+const DEFAULT_DATA_DIRECTORY = path.join(os.homedir(), '.stockquotes-mcp');
+
 /**
  * Service for fetching stock quotes from Yahoo Finance
  */
 export class StockQuotesService {
   private readonly yahooClient: YahooClient;
   private readonly cache: NodeCache;
+  private readonly maxHistoricalRangeYears: number;
+  private readonly maxHistoricalDataPoints: number;
+  private readonly watchlists: JsonFileStore<WatchlistDocument>;
+  private readonly alerts: JsonFileStore<AlertDocument>;
+  private readonly ledger: JsonFileStore<LedgerDocument>;
 
   /**
    * Create a new instance of the StockQuotesService
+   * @param yahooClient - Yahoo Finance client
+   * @param options - Optional limits for historical data requests and data directory
    */
-  constructor(yahooClient: YahooClient) {
+  constructor(yahooClient: YahooClient, options: StockQuotesServiceOptions = {}) {
     this.yahooClient = yahooClient;
+    this.maxHistoricalRangeYears =
+      options.maxHistoricalRangeYears ?? DEFAULT_MAX_HISTORICAL_RANGE_YEARS;
+    this.maxHistoricalDataPoints =
+      options.maxHistoricalDataPoints ?? DEFAULT_MAX_HISTORICAL_DATA_POINTS;
     // Cache for 5 minutes by default, check for expired keys every 60 seconds
     this.cache = new NodeCache({ stdTTL: 300, checkperiod: 60 });
+    const dataDirectory = options.dataDirectory ?? DEFAULT_DATA_DIRECTORY;
+    this.watchlists = new JsonFileStore(path.join(dataDirectory, 'watchlists.json'), () => ({
+      watchlists: [],
+    }));
+    this.alerts = new JsonFileStore(path.join(dataDirectory, 'alerts.json'), () => ({
+      alerts: [],
+    }));
+    this.ledger = new JsonFileStore(path.join(dataDirectory, 'ledger.json'), () => ({
+      transactions: [],
+    }));
   }
 
   /**
    * Fetch a stock quote for the given ticker symbol
-   * @param input - The stock quote input containing the ticker and optional fields
+   * @param input - The stock quote input containing the ticker or an ISIN, CUSIP or SEDOL,
+   * optional fields and optional currency to convert prices to
    * @returns Promise<StockQuoteResponse> - The stock quote data
    */
   async getQuote(input: StockQuoteInput): Promise<StockQuoteResponse> {
-    const { ticker, fields } = input;
-    const cacheKey = `quote_${ticker}_${fields?.join(',') ?? 'all'}`;
+    const { ticker, identifier, fields, targetCurrency, includeRawPrices } = input;
+
+    if (ticker === undefined) {
+      if (identifier === undefined) {
+        throw new ValidationError('Either a ticker or an identifier is required.');
+      }
+      const { symbol } = await this.resolveIdentifier(identifier);
+      return this.getQuote({ ticker: symbol, fields, targetCurrency, includeRawPrices });
+    }
+    if (identifier !== undefined) {
+      throw new ValidationError('Set either a ticker or an identifier, not both.');
+    }
+
+    if (targetCurrency) {
+      const quote = await this.getQuote({
+        ticker,
+        fields: this.withCurrencyField(fields),
+        includeRawPrices,
+      });
+      return this.convertQuote(quote, targetCurrency);
+    }
+
+    const cacheKey = `quote_${ticker}_${fields?.join(',') ?? 'all'}${includeRawPrices ? '_raw' : ''}`;
 
     const cachedResponse = this.cache.get<StockQuoteResponse>(cacheKey);
     if (cachedResponse) {
@@ -70,7 +410,7 @@ export class StockQuotesService {
         throw new NotFoundError(`Stock ticker '${ticker}' not found`);
       }
 
-      const response = this.mapToStockQuoteResponse(quote, ticker, fields);
+      const response = this.mapToStockQuoteResponse(quote, ticker, fields, includeRawPrices);
 
       this.cache.set(cacheKey, response);
       return response;
@@ -89,13 +429,30 @@ export class StockQuotesService {
 
   /**
    * Fetch multiple stock quotes for the given ticker symbols
-   * @param input - The stock quotes input containing the tickers and optional fields
+   * @param input - The stock quotes input containing the tickers, optional fields and optional
+   * currency to convert prices to
    * @returns Promise<StockQuoteResponse[]> - The stock quote data for each ticker
    */
   async getQuotes(input: StockQuotesInput): Promise<StockQuoteResponse[]> {
-    const { tickers, fields } = input;
+    const { tickers, fields, targetCurrency, includeRawPrices } = input;
+
+    if (targetCurrency) {
+      const quotes = await this.getQuotes({
+        tickers,
+        fields: this.withCurrencyField(fields),
+        includeRawPrices,
+      });
+      const converted: StockQuoteResponse[] = [];
+      for (const quote of quotes) {
+        converted.push(await this.convertQuote(quote, targetCurrency));
+      }
+      return converted;
+    }
+
     const sortedTickers = [...tickers].sort((a, b) => a.localeCompare(b));
-    const cacheKey = `quotes_${sortedTickers.join(',')}_${fields?.join(',') ?? 'all'}`;
+    const cacheKey =
+      `quotes_${sortedTickers.join(',')}_${fields?.join(',') ?? 'all'}` +
+      (includeRawPrices ? '_raw' : '');
 
     const cachedResponse = this.cache.get<StockQuoteResponse[]>(cacheKey);
     if (cachedResponse) {
@@ -116,7 +473,7 @@ export class StockQuotesService {
       const quotes = Array.isArray(results) ? results : [results];
 
       const responses = quotes.map((quote) =>
-        this.mapToStockQuoteResponse(quote, quote.symbol ?? 'unknown', fields)
+        this.mapToStockQuoteResponse(quote, quote.symbol ?? 'unknown', fields, includeRawPrices)
       );
 
       this.cache.set(cacheKey, responses);
@@ -131,6 +488,83 @@ export class StockQuotesService {
     }
   }
 
+  /**
+   * Adds the currency to a list of requested quote fields, the listing currency is needed to
+   * convert prices
+   * @param fields - Optional list of fields requested by the client
+   * @returns string[] | undefined - Fields including currency, or undefined for all fields
+   */
+  private withCurrencyField(fields?: string[]): string[] | undefined {
+    return fields && [...new Set([...fields, 'currency'])];
+  }
+
+  /**
+   * Converts the amounts of a quote from its listing currency to another currency
+   * @param quote - Quote in its listing currency
+   * @param targetCurrency - ISO 4217 currency code (e.g., EUR)
+   * @returns Promise<StockQuoteResponse> - Quote in the target currency, with the exchange rate used
+   */
+  private async convertQuote(
+    quote: StockQuoteResponse,
+    targetCurrency: string
+  ): Promise<StockQuoteResponse> {
+    if (!quote.currency) {
+      throw new NotFoundError(
+        `Currency of ${quote.symbol} is unknown, prices cannot be converted to ${targetCurrency}.`
+      );
+    }
+    if (quote.currency === targetCurrency) {
+      return quote;
+    }
+
+    const conversion = await this.getExchangeRate(quote.currency, targetCurrency);
+    const converted: StockQuoteResponse = { ...quote, currency: targetCurrency, conversion };
+    for (const field of QUOTE_PRICE_FIELDS) {
+      const value = quote[field];
+      if (value !== undefined) {
+        converted[field] = value * conversion.rate;
+      }
+    }
+    return converted;
+  }
+
+  /**
+   * Fetches the latest exchange rate between two currencies
+   * @param fromCurrency - ISO 4217 currency code to convert from (e.g., USD)
+   * @param toCurrency - ISO 4217 currency code to convert to (e.g., EUR)
+   * @returns Promise<CurrencyConversion> - Rate and time of the rate
+   */
+  private async getExchangeRate(
+    fromCurrency: string,
+    toCurrency: string
+  ): Promise<CurrencyConversion> {
+    const symbol = fxSymbol(fromCurrency, toCurrency);
+
+    let quote: StockQuoteResponse;
+    try {
+      quote = await this.getQuote({ ticker: symbol });
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      throw new NotFoundError(`No exchange rate found from ${fromCurrency} to ${toCurrency}.`);
+    }
+
+    if (!quote.regularMarketPrice) {
+      throw new NotFoundError(`No exchange rate found from ${fromCurrency} to ${toCurrency}.`);
+    }
+
+    return {
+      fromCurrency,
+      toCurrency,
+      symbol,
+      rate: quote.regularMarketPrice,
+      ...(quote.regularMarketTime !== undefined && {
+        rateTime: new Date(quote.regularMarketTime).toISOString(),
+      }),
+    };
+  }
+
   /**
    * Prepares and transforms field requests for Yahoo Finance
    * @param fields - Optional list of fields requested by the client
@@ -147,6 +581,15 @@ export class StockQuotesService {
       if (!validFields.includes('longName')) validFields.push('longName');
     }
 
+    // Prices are normalized from minor currency units, which requires the currency
+    const minorUnitFields: readonly string[] = MINOR_UNIT_QUOTE_FIELDS;
+    if (
+      validFields.some((field) => minorUnitFields.includes(field)) &&
+      !validFields.includes('currency')
+    ) {
+      validFields.push('currency');
+    }
+
     return validFields.length > 0 ? validFields : undefined;
   }
 
@@ -155,12 +598,14 @@ export class StockQuotesService {
    * @param quote - YahooQuote object
    * @param ticker - Ticker symbol
    * @param requestedFields - Optional list of fields requested by the client
-   * @returns StockQuoteResponse
+   * @param includeRawPrices - Whether to also return the prices quoted in a minor currency unit
+   * @returns StockQuoteResponse - Quote with prices in the major currency unit
    */
   private mapToStockQuoteResponse(
     quote: YahooQuote,
     ticker: string,
-    requestedFields?: string[]
+    requestedFields?: string[],
+    includeRawPrices: boolean = false
   ): StockQuoteResponse {
     const fullResponse: StockQuoteResponse = {
       symbol: quote.symbol ?? ticker,
@@ -218,7 +663,7 @@ export class StockQuotesService {
     );
 
     if (!requestedFields || requestedFields.length === 0) {
-      return fullResponse;
+      return this.normalizeQuoteUnits(fullResponse, quote.currency, includeRawPrices);
     }
 
     // Filter by requested fields
@@ -232,7 +677,43 @@ export class StockQuotesService {
       }
     });
 
-    return filteredResponse;
+    return this.normalizeQuoteUnits(filteredResponse, quote.currency, includeRawPrices);
+  }
+
+  /**
+   * Converts the prices of a quote from a minor currency unit (e.g., GBp) to the major unit
+   * (e.g., GBP)
+   * @param quote - Mapped quote
+   * @param currency - Currency reported by Yahoo
+   * @param includeRawPrices - Whether to also return the prices in the minor unit
+   * @returns StockQuoteResponse - The quote, unchanged when the currency is not a minor unit
+   */
+  private normalizeQuoteUnits(
+    quote: StockQuoteResponse,
+    currency: string | undefined,
+    includeRawPrices: boolean
+  ): StockQuoteResponse {
+    const unit = majorCurrencyUnit(currency);
+    if (!unit || currency === undefined) {
+      return quote;
+    }
+
+    const normalized: StockQuoteResponse = { ...quote };
+    const prices: Record<string, number> = {};
+    for (const field of MINOR_UNIT_QUOTE_FIELDS) {
+      const value = quote[field];
+      if (value !== undefined) {
+        prices[field] = value;
+        normalized[field] = value / unit.divisor;
+      }
+    }
+    if ('currency' in quote) {
+      normalized.currency = unit.currency;
+    }
+    if (includeRawPrices) {
+      normalized.rawPrices = { currency, divisor: unit.divisor, prices };
+    }
+    return normalized;
   }
 
   /**
@@ -258,10 +739,15 @@ export class StockQuotesService {
   /**
    * Search for a company by name or ticker
    * @param query - Search query string
-   * @returns Promise<StockSearchResult[]> - Search results
+   * @param options - Optional instrument type, exchange, region and maximum number of results
+   * @returns Promise<StockSearchResult[]> - Search results, best match first
    */
-  async search(query: string): Promise<StockSearchResult[]> {
-    const cacheKey = `search_${query}`;
+  async search(query: string, options: StockSearchOptions = {}): Promise<StockSearchResult[]> {
+    const { quoteType, exchange, region } = options;
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const cacheKey =
+      `search_${query}_${quoteType ?? 'all'}_${exchange ?? 'all'}_` +
+      `${region ?? 'default'}_${limit}`;
     const cachedResults = this.cache.get<StockSearchResult[]>(cacheKey);
 
     if (cachedResults) {
@@ -269,54 +755,234 @@ export class StockQuotesService {
       return cachedResults;
     }
 
-    const results: YahooSearchResponse = await this.yahooClient.search(query);
+    const filtered = quoteType !== undefined || exchange !== undefined;
+    const results: YahooSearchResponse = await this.yahooClient.search(query, {
+      quotesCount: filtered ? SEARCH_UNIVERSE_SIZE : limit,
+      newsCount: 0,
+      ...(region !== undefined && { region }),
+    });
     const quotes = results.quotes ?? [];
 
+    const yahooQuoteType = quoteType === undefined ? undefined : SEARCH_QUOTE_TYPES[quoteType];
+    const exchangeName = exchange?.toLowerCase();
+
     const searchResults = quotes
       .filter(
         (
           quote: YahooSearchQuote
-        ): quote is YahooSearchQuote & {
-          symbol: string;
-          exchange: string;
-          shortname?: string;
-          longname?: string;
-        } =>
+        ): quote is YahooSearchQuote & { symbol: string; exchange: string } =>
           typeof quote.symbol === 'string' &&
           typeof quote.exchange === 'string' &&
-          (typeof quote.shortname === 'string' || typeof quote.longname === 'string')
+          (yahooQuoteType === undefined || quote.quoteType === yahooQuoteType) &&
+          (exchangeName === undefined ||
+            quote.exchange.toLowerCase() === exchangeName ||
+            quote.exchDisp?.toLowerCase() === exchangeName)
       )
-      .map(
-        (result): StockSearchResult => ({
+      .slice(0, limit)
+      .map((result): StockSearchResult => {
+        const mapped: StockSearchResult = {
           symbol: result.symbol,
-          name: result.shortname ?? result.longname ?? '',
+          // Yahoo Finance leaves some instruments unnamed, the symbol is used instead
+          name: result.shortname ?? result.longname ?? result.symbol,
           exchange: result.exchange,
-        })
-      );
+          quoteType: result.quoteType,
+          exchDisp: result.exchDisp,
+          sector: result.sector,
+          industry: result.industry,
+        };
+        Object.keys(mapped).forEach(
+          (key) =>
+            mapped[key as keyof StockSearchResult] === undefined &&
+            delete mapped[key as keyof StockSearchResult]
+        );
+        return mapped;
+      });
 
     // Cache search results for 30 minutes
     this.cache.set(cacheKey, searchResults, 1800);
     return searchResults;
   }
 
+  /**
+   * Resolves an ISIN, CUSIP or SEDOL to Yahoo Finance symbols
+   * @param identifier - ISIN, CUSIP or SEDOL (e.g., US0378331005)
+   * @returns Promise<ResolvedIdentifier> - Best matching symbol and every listing found
+   */
+  async resolveIdentifier(identifier: string): Promise<ResolvedIdentifier> {
+    const normalized = normalizeIdentifier(identifier);
+    const type = identifierType(normalized);
+    if (!type) {
+      throw new ValidationError(`'${identifier}' is not an ISIN, CUSIP or SEDOL.`);
+    }
+    // Mistyped identifiers are rejected before they reach Yahoo Finance
+    if (!hasValidCheckDigit(type, normalized)) {
+      throw new ValidationError(
+        `'${identifier}' is not a valid ${IDENTIFIER_NAMES[type]}: its check digit does not match.`
+      );
+    }
+
+    const cacheKey = `identifier_${normalized}`;
+    const cachedIdentifier = this.cache.get<ResolvedIdentifier>(cacheKey);
+    if (cachedIdentifier) {
+      logger.debug('Cache hit for identifier', { identifier: normalized, cacheKey });
+      return cachedIdentifier;
+    }
+
+    // Yahoo Finance finds securities by ISIN, CUSIPs and SEDOLs are also looked up through the
+    // ISINs they can be part of
+    let listings: StockSearchResult[] = [];
+    for (const query of [normalized, ...isinCandidates(type, normalized)]) {
+      try {
+        listings = await this.search(query);
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('rate limit')) {
+          throw new RateLimitError();
+        }
+        throw error;
+      }
+      if (listings.length > 0) break;
+    }
+
+    if (listings.length === 0) {
+      throw new NotFoundError(
+        `No Yahoo Finance symbol found for ${IDENTIFIER_NAMES[type]} ${normalized}`
+      );
+    }
+
+    const resolved: ResolvedIdentifier = {
+      identifier: normalized,
+      identifierType: type,
+      symbol: listings[0].symbol,
+      name: listings[0].name,
+      listings,
+    };
+    this.cache.set(cacheKey, resolved, IDENTIFIER_CACHE_TTL_SECONDS);
+    return resolved;
+  }
+
+  /**
+   * Fetches news headlines for a ticker or free-text query, newest first. Headlines published
+   * under several links or by several publishers are returned once, and the headlines returned for
+   * a query are remembered so that later calls can skip them. They are remembered per server
+   * process, for the calls of every client.
+   * @param input - The query, optional number of headlines and whether to skip returned ones
+   * @returns Promise<StockNews> - Headlines with publisher, publish time, link and related tickers
+   */
+  async getNews(input: StockNewsInput): Promise<StockNews> {
+    const query = input.query.trim();
+    const count = input.count ?? DEFAULT_NEWS_COUNT;
+    const fetchCount = input.onlyNew ? MAX_NEWS_COUNT : count;
+    // Queries differing in case or spacing share their headlines and the headlines returned
+    const normalizedQuery = query.toLowerCase().replace(/\s+/g, ' ');
+    const cacheKey = `news_${normalizedQuery}_${fetchCount}`;
+    const seenKey = `news_seen_${normalizedQuery}`;
+
+    let articles = this.cache.get<NewsArticle[]>(cacheKey);
+    if (articles) {
+      logger.debug('Cache hit for news', { query, cacheKey });
+    } else {
+      const results: YahooSearchResponse = await this.yahooClient.search(query, {
+        quotesCount: 0,
+        newsCount: fetchCount,
+      });
+      articles = this.mapToNewsArticles(results.news ?? []);
+      this.cache.set(cacheKey, articles);
+    }
+
+    const seen = this.cache.get<string[]>(seenKey) ?? [];
+    const selected = (
+      input.onlyNew ? articles.filter(({ id }) => !seen.includes(id)) : articles
+    ).slice(0, count);
+
+    this.cache.set(
+      seenKey,
+      [...new Set([...seen, ...selected.map(({ id }) => id)])].slice(-MAX_SEEN_NEWS),
+      SEEN_NEWS_TTL_SECONDS
+    );
+    return { query, articles: selected };
+  }
+
+  /**
+   * Maps Yahoo search news to headlines, newest first, without duplicates
+   * @param news - Yahoo search news
+   * @returns NewsArticle[] - Headlines with a title and a link
+   */
+  private mapToNewsArticles(news: YahooSearchNews[]): NewsArticle[] {
+    const titles = new Set<string>();
+    const ids = new Set<string>();
+
+    return news
+      .filter(
+        (item): item is YahooSearchNews & { uuid: string; title: string; link: string } =>
+          typeof item.uuid === 'string' &&
+          typeof item.title === 'string' &&
+          typeof item.link === 'string'
+      )
+      .map(
+        (item): NewsArticle => ({
+          id: item.uuid,
+          title: item.title,
+          publisher: item.publisher ?? '',
+          publishedAt:
+            item.providerPublishTime === undefined
+              ? ''
+              : new Date(item.providerPublishTime).toISOString(),
+          link: item.link,
+          relatedTickers: item.relatedTickers ?? [],
+        })
+      )
+      .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+      .filter((article) => {
+        // Syndicated stories share a headline but not an id
+        const title = article.title.toLowerCase().replace(/\s+/g, ' ').trim();
+        if (ids.has(article.id) || titles.has(title)) return false;
+        ids.add(article.id);
+        titles.add(title);
+        return true;
+      });
+  }
+
   /**
    * Maps Yahoo chart quotes to historical data points
    * @param chart - YahooChartResponse
    * @param fields - Optional list of fields to return
+   * @param options - Bar interval, used to format the date of each data point, and whether
+   * to adjust OHLC prices for splits and dividends
    * @returns HistoricalData[]
    */
-  private mapToHistoricalData(chart: YahooChartResponse, fields?: string[]): HistoricalData[] {
+  private mapToHistoricalData(
+    chart: YahooChartResponse,
+    fields?: string[],
+    options: HistoricalDataOptions = {}
+  ): HistoricalData[] {
     const historicalData: HistoricalData[] = [];
     const quotes = chart.quotes ?? [];
+    const timeZone = chart.meta?.exchangeTimezoneName ?? 'UTC';
+    const interval = options.interval ?? '1d';
+    // Adjusted prices of early bars can be fractions of a cent, they keep 6 significant digits
+    const roundPrice = (value: number): number =>
+      options.adjusted ? roundSignificant(value) : round(value);
 
     for (const quote of quotes) {
       if (!quote.date) continue;
 
+      // The chart endpoint reports the adjusted close as "adjclose"
+      const adjClose = quote.adjclose ?? quote.adjClose;
+      // The adjusted close carries the cumulative split and dividend factor for the bar,
+      // the same ratio is applied to the other prices of the bar
+      const factor =
+        options.adjusted && adjClose !== undefined && quote.close ? adjClose / quote.close : 1;
+
       const dataPoint: HistoricalData = {
-        date: format(new Date(quote.date), 'yyyy-MM-dd'),
-        close: quote.close === undefined ? 0 : Math.round(quote.close * 100) / 100,
-        high: quote.high === undefined ? 0 : Math.round(quote.high * 100) / 100,
-        low: quote.low === undefined ? 0 : Math.round(quote.low * 100) / 100,
+        date:
+          interval in INTRADAY_LIMITS
+            ? this.formatIntradayTimestamp(new Date(quote.date), timeZone)
+            : format(new Date(quote.date), 'yyyy-MM-dd'),
+        ...(quote.open !== undefined && { open: roundPrice(quote.open * factor) }),
+        close: quote.close === undefined ? 0 : roundPrice(quote.close * factor),
+        high: quote.high === undefined ? 0 : roundPrice(quote.high * factor),
+        low: quote.low === undefined ? 0 : roundPrice(quote.low * factor),
+        ...(adjClose !== undefined && { adjClose: roundSignificant(adjClose) }),
         volume: quote.volume ?? 0,
       };
 
@@ -345,37 +1011,104 @@ export class StockQuotesService {
     return historicalData;
   }
 
+  /**
+   * Formats an intraday bar timestamp as ISO 8601 in the exchange time zone
+   * @param date - Bar timestamp
+   * @param timeZone - IANA time zone of the exchange (e.g., America/New_York)
+   * @returns string - Timestamp with offset (e.g., 2024-01-02T09:30:00-05:00)
+   */
+  private formatIntradayTimestamp(date: Date, timeZone: string): string {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+      timeZoneName: 'longOffset',
+    }).formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes): string =>
+      parts.find((p) => p.type === type)?.value ?? '';
+
+    // longOffset renders as "GMT-05:00", or just "GMT" for a zero offset
+    const offset = part('timeZoneName').replace('GMT', '') || '+00:00';
+
+    return `${part('year')}-${part('month')}-${part('day')}T${part('hour')}:${part('minute')}:${part('second')}${offset}`;
+  }
+
   /**
    * Fetches historical stock data for a given ticker, from a start date to an end date.
    * @param ticker - Stock ticker symbol (e.g., AAPL)
    * @param fromDate - Start date in 'YYYY-MM-DD' format
    * @param toDate - End date in 'YYYY-MM-DD' format
    * @param fields - Optional list of specific fields to return
+   * @param options - Optional settings such as the bar interval (default: 1d),
+   * split/dividend adjustment of OHLC prices and the currency to convert prices to
    * @returns Promise<HistoricalData[]> - An array of historical data points.
    */
   async getHistoricalData(
     ticker: string,
     fromDate: string,
     toDate: string,
-    fields?: string[]
+    fields?: string[],
+    options: HistoricalDataOptions = {}
   ): Promise<HistoricalData[]> {
-    this.validateHistoricalDataDates(fromDate, toDate);
+    const interval = options.interval ?? '1d';
+    this.validateHistoricalDataDates(fromDate, toDate, interval);
+
+    const estimatedDataPoints = this.estimateDataPoints(fromDate, toDate, interval);
+    if (estimatedDataPoints > this.maxHistoricalDataPoints) {
+      throw new ValidationError(
+        `Response would contain about ${estimatedDataPoints} data points, more than the limit ` +
+          `of ${this.maxHistoricalDataPoints}. Use a coarser interval or a shorter date range.`
+      );
+    }
 
     try {
-      const toDateObj = parseISO(toDate);
-      // Yahoo Finance treats period2 as exclusive, so we add 1 day to include the end date
-      const period2 = format(addDays(toDateObj, 1), 'yyyy-MM-dd');
+      const chart = await this.fetchChartInChunks(ticker, fromDate, toDate, interval);
+      let historicalData = this.mapToHistoricalData(chart, fields, options);
+      historicalData = this.normalizeHistoricalUnits(
+        historicalData,
+        chart.meta?.currency,
+        options.includeRawPrices ?? false
+      );
 
-      const chart: YahooChartResponse = await this.yahooClient.chart(ticker, {
-        period1: fromDate,
-        period2,
-      });
+      if (historicalData.length > this.maxHistoricalDataPoints) {
+        throw new ValidationError(
+          `Response would contain ${historicalData.length} data points, more than the limit of ` +
+            `${this.maxHistoricalDataPoints}. Use a coarser interval or a shorter date range.`
+        );
+      }
+
+      const currency = majorCurrencyUnit(chart.meta?.currency)?.currency ?? chart.meta?.currency;
+      if (options.targetCurrency && currency !== options.targetCurrency) {
+        if (!currency) {
+          throw new NotFoundError(
+            `Currency of ${ticker} is unknown, prices cannot be converted to ` +
+              `${options.targetCurrency}.`
+          );
+        }
+        historicalData = await this.convertHistoricalData(
+          historicalData,
+          currency,
+          options.targetCurrency,
+          fromDate,
+          toDate,
+          interval,
+          options.adjusted ?? false
+        );
+      }
 
-      return this.mapToHistoricalData(chart, fields);
+      return historicalData;
     } catch (error) {
-      if (error instanceof ValidationError) {
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
         throw error;
       }
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        throw new RateLimitError();
+      }
 
       logger.error(`Error fetching historical data for ${ticker}`, { ticker, error });
       throw new NotFoundError(
@@ -385,32 +1118,1900 @@ export class StockQuotesService {
   }
 
   /**
-   * Validates the date range for historical data
-   * @param fromDate - Start date
-   * @param toDate - End date
+   * Converts historical prices from a minor currency unit (e.g., GBp) to the major unit (e.g., GBP)
+   * @param historicalData - Data points in the currency reported by Yahoo
+   * @param currency - Currency reported by Yahoo
+   * @param includeRawPrices - Whether to also return the prices in the minor unit
+   * @returns HistoricalData[] - Data points in the major unit, unchanged when the currency is not
+   * a minor unit
+   */
+  private normalizeHistoricalUnits(
+    historicalData: HistoricalData[],
+    currency: string | undefined,
+    includeRawPrices: boolean
+  ): HistoricalData[] {
+    const unit = majorCurrencyUnit(currency);
+    if (!unit || currency === undefined) {
+      return historicalData;
+    }
+
+    return historicalData.map((point) => {
+      const normalized: HistoricalData = { ...point };
+      const prices: Record<string, number> = {};
+      for (const field of MINOR_UNIT_HISTORICAL_FIELDS) {
+        const value = point[field];
+        if (value !== undefined) {
+          prices[field] = value;
+          // The digits of the price are kept in the major unit, rounding only drops float noise
+          normalized[field] = roundSignificant(value / unit.divisor, 12);
+        }
+      }
+      if (includeRawPrices) {
+        normalized.rawPrices = { currency, divisor: unit.divisor, prices };
+      }
+      return normalized;
+    });
+  }
+
+  /**
+   * Converts historical prices to another currency. Each bar is converted at the closing rate of
+   * the latest exchange rate bar at or before it (the first rate for earlier bars), as currencies
+   * also trade on days the exchange of the ticker is closed.
+   * @param historicalData - Data points in the listing currency, oldest first
+   * @param fromCurrency - ISO 4217 currency code of the listing (e.g., USD)
+   * @param toCurrency - ISO 4217 currency code to convert to (e.g., EUR)
+   * @param fromDate - Start date in 'YYYY-MM-DD' format
+   * @param toDate - End date in 'YYYY-MM-DD' format
+   * @param interval - Bar interval
+   * @param adjusted - Whether the prices are adjusted for splits and dividends
+   * @returns Promise<HistoricalData[]> - Data points in the target currency, with the rate applied
+   */
+  private async convertHistoricalData(
+    historicalData: HistoricalData[],
+    fromCurrency: string,
+    toCurrency: string,
+    fromDate: string,
+    toDate: string,
+    interval: HistoricalInterval,
+    adjusted: boolean
+  ): Promise<HistoricalData[]> {
+    const symbol = fxSymbol(fromCurrency, toCurrency);
+    let rates: Array<{ time: number; rate: number }> = [];
+    try {
+      const chart = await this.fetchChartInChunks(symbol, fromDate, toDate, interval);
+      rates = (chart.quotes ?? []).flatMap(({ date, close }) =>
+        date !== undefined && close ? [{ time: new Date(date).getTime(), rate: close }] : []
+      );
+    } catch (error) {
+      logger.error(`Error fetching exchange rates ${symbol}`, { symbol, error });
+    }
+
+    if (rates.length === 0) {
+      throw new NotFoundError(`No exchange rate found from ${fromCurrency} to ${toCurrency}.`);
+    }
+
+    // Adjusted prices keep 6 significant digits, like before the conversion
+    const roundPrice = (value: number): number =>
+      adjusted ? roundSignificant(value) : round(value);
+    let index = 0;
+    return historicalData.map((point) => {
+      const time = new Date(point.date).getTime();
+      while (index + 1 < rates.length && rates[index + 1].time <= time) {
+        index++;
+      }
+      const { rate } = rates[index];
+
+      return {
+        ...point,
+        ...(point.open !== undefined && { open: roundPrice(point.open * rate) }),
+        ...(point.high !== undefined && { high: roundPrice(point.high * rate) }),
+        ...(point.low !== undefined && { low: roundPrice(point.low * rate) }),
+        ...(point.close !== undefined && { close: roundPrice(point.close * rate) }),
+        ...(point.adjClose !== undefined && {
+          adjClose: roundSignificant(point.adjClose * rate),
+        }),
+        fxRate: rate,
+      };
+    });
+  }
+
+  /**
+   * Estimates the number of bars of a date range, counting weekdays as trading days
+   * @param fromDate - Start date in 'YYYY-MM-DD' format
+   * @param toDate - End date in 'YYYY-MM-DD' format
+   * @param interval - Bar interval
+   * @returns number - Estimated number of bars
    */
-  private validateHistoricalDataDates(fromDate: string, toDate: string): void {
+  private estimateDataPoints(
+    fromDate: string,
+    toDate: string,
+    interval: HistoricalInterval
+  ): number {
     const fromDateObj = parseISO(fromDate);
     const toDateObj = parseISO(toDate);
-    const today = startOfToday();
+    if (interval === '1mo') {
+      return differenceInCalendarMonths(toDateObj, fromDateObj) + 1;
+    }
+    if (interval === '1wk') {
+      return differenceInCalendarWeeks(toDateObj, fromDateObj, { weekStartsOn: 1 }) + 1;
+    }
+    const tradingDays = differenceInBusinessDays(addDays(toDateObj, 1), fromDateObj);
+    return tradingDays * (INTRADAY_BARS_PER_DAY[interval] ?? 1);
+  }
 
-    if (!isValid(fromDateObj)) {
-      throw new ValidationError(`Invalid fromDate: ${fromDate}. Use YYYY-MM-DD format.`);
+  /**
+   * Fetches chart data for a date range, splitting ranges longer than the chunk size of the
+   * interval into consecutive requests and merging their bars. Chunks of weekly and monthly bars
+   * start on a Monday and on the first of a month, so that no bar straddles two requests.
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @param fromDate - Start date in 'YYYY-MM-DD' format
+   * @param toDate - End date in 'YYYY-MM-DD' format
+   * @param interval - Bar interval
+   * @returns Promise<YahooChartResponse> - Chart data with the bars of every chunk, oldest first
+   */
+  private async fetchChartInChunks(
+    ticker: string,
+    fromDate: string,
+    toDate: string,
+    interval: HistoricalInterval
+  ): Promise<YahooChartResponse> {
+    const toDateObj = parseISO(toDate);
+    const chunks: Array<{ period1: string; period2: string }> = [];
+
+    for (let start = parseISO(fromDate); !isAfter(start, toDateObj); ) {
+      let next = add(start, CHART_CHUNK_SIZES[interval]);
+      if (interval === '1wk') {
+        next = startOfWeek(next, { weekStartsOn: 1 });
+      } else if (interval === '1mo') {
+        next = startOfMonth(next);
+      }
+      const end = min([addDays(next, -1), toDateObj]);
+      chunks.push({
+        period1: format(start, 'yyyy-MM-dd'),
+        period2: this.toExclusivePeriod2(format(end, 'yyyy-MM-dd')),
+      });
+      start = addDays(end, 1);
     }
-    if (!isValid(toDateObj)) {
-      throw new ValidationError(`Invalid toDate: ${toDate}. Use YYYY-MM-DD format.`);
+
+    let meta: YahooChartResponse['meta'];
+    // Keyed by bar timestamp, a bar returned by two requests is kept once, from the later one
+    const quotesByTime = new Map<number, YahooHistoricalQuote>();
+
+    for (const chunk of chunks) {
+      const chart: YahooChartResponse = await this.yahooClient.chart(ticker, {
+        ...chunk,
+        interval,
+      });
+      meta ??= chart.meta;
+
+      for (const quote of chart.quotes ?? []) {
+        if (quote.date) {
+          quotesByTime.set(new Date(quote.date).getTime(), quote);
+        }
+      }
     }
 
-    if (isAfter(fromDateObj, today)) {
-      throw new ValidationError('fromDate cannot be in the future.');
+    if (chunks.length > 1) {
+      logger.debug('Merged chunked historical data', { ticker, interval, chunks: chunks.length });
     }
 
-    if (isAfter(fromDateObj, toDateObj)) {
-      throw new ValidationError('fromDate must be before or equal to toDate.');
+    return {
+      meta,
+      quotes: [...quotesByTime.entries()].sort(([a], [b]) => a - b).map(([, quote]) => quote),
+    };
+  }
+
+  /**
+   * Fetches the dividends and splits of a given ticker, from a start date to an end date.
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @param fromDate - Start date in 'YYYY-MM-DD' format
+   * @param toDate - End date in 'YYYY-MM-DD' format
+   * @returns Promise<CorporateActions> - Dividends by ex-date and splits, oldest first
+   */
+  async getCorporateActions(
+    ticker: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<CorporateActions> {
+    this.validateHistoricalDataDates(fromDate, toDate);
+
+    try {
+      const chart: YahooChartResponse = await this.yahooClient.chart(ticker, {
+        period1: fromDate,
+        period2: this.toExclusivePeriod2(toDate),
+        interval: '1d',
+        events: 'div|split',
+      });
+
+      const dividends: DividendEvent[] = (chart.events?.dividends ?? [])
+        .flatMap(({ date, amount }) =>
+          date !== undefined && amount !== undefined
+            ? [{ exDate: format(new Date(date), 'yyyy-MM-dd'), amount }]
+            : []
+        )
+        .sort((a, b) => a.exDate.localeCompare(b.exDate));
+
+      const splits: SplitEvent[] = (chart.events?.splits ?? [])
+        .flatMap(({ date, numerator, denominator, splitRatio }) =>
+          date !== undefined && numerator !== undefined && denominator !== undefined
+            ? [
+                {
+                  date: format(new Date(date), 'yyyy-MM-dd'),
+                  numerator,
+                  denominator,
+                  ratio: splitRatio ?? `${numerator}:${denominator}`,
+                },
+              ]
+            : []
+        )
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      return {
+        symbol: chart.meta?.symbol ?? ticker,
+        currency: chart.meta?.currency,
+        dividends,
+        splits,
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        throw new RateLimitError();
+      }
+      logger.error(`Error fetching corporate actions for ${ticker}`, { ticker, error });
+      throw new NotFoundError(
+        `Could not fetch corporate actions for ${ticker}. Please check the ticker and date range.`
+      );
+    }
+  }
+
+  /**
+   * Computes technical indicators over the daily closes of a ticker, from a start date to an end
+   * date. Enough earlier history is fetched for every indicator to be warmed up at the start date.
+   * @param input - The ticker, date range and indicator specifications
+   * @returns Promise<TechnicalIndicatorsResponse> - Closes and indicator values, one point per day
+   */
+  async getTechnicalIndicators(
+    input: TechnicalIndicatorsInput
+  ): Promise<TechnicalIndicatorsResponse> {
+    const { ticker, fromDate, toDate, indicators } = input;
+    this.validateHistoricalDataDates(fromDate, toDate);
+
+    for (const spec of indicators) {
+      if (spec.type === 'macd' && spec.fastPeriod >= spec.slowPeriod) {
+        throw new ValidationError('MACD fastPeriod must be lower than slowPeriod.');
+      }
+    }
+
+    // About 252 trading days per 365 calendar days, plus a margin for holidays
+    const warmUpDays = Math.ceil((Math.max(...indicators.map(warmUpBars)) * 365) / 252) + 10;
+    const history = await this.getHistoricalData(
+      ticker,
+      format(subDays(parseISO(fromDate), warmUpDays), 'yyyy-MM-dd'),
+      toDate,
+      undefined,
+      { adjusted: true }
+    );
+
+    const closes = history.map((point) => point.close);
+    const series: Record<string, IndicatorSeries> = {};
+    for (const spec of indicators) {
+      Object.assign(series, computeIndicator(spec, closes));
     }
+    const names = Object.keys(series);
+
+    const points = history.flatMap((point, index): TechnicalIndicatorPoint[] => {
+      if (point.date < fromDate) return [];
 
-    if (differenceInYears(toDateObj, fromDateObj) > 5) {
-      throw new ValidationError('Date range cannot exceed 5 years.');
+      const values = names.map((name): [string, number | null] => {
+        const value = series[name][index];
+        return [name, value === null ? null : Math.round(value * 10000) / 10000];
+      });
+      return [{ date: point.date, close: point.close, ...Object.fromEntries(values) }];
+    });
+
+    return { symbol: ticker, indicators: names, series: points };
+  }
+
+  /**
+   * Computes return and risk statistics of a ticker from its daily split/dividend-adjusted closes,
+   * from a start date to an end date, optionally with its beta against a benchmark ticker
+   * @param input - The ticker, date range, optional benchmark and risk-free rate
+   * @returns Promise<PerformanceStats> - Returns, volatility, drawdown, ratios and best/worst days
+   */
+  async getPerformanceStats(input: PerformanceStatsInput): Promise<PerformanceStats> {
+    const { ticker, fromDate, toDate, benchmark, riskFreeRate } = input;
+
+    const points = await this.getAdjustedCloses(ticker, fromDate, toDate);
+    const benchmarkSeries = benchmark
+      ? { symbol: benchmark, points: await this.getAdjustedCloses(benchmark, fromDate, toDate) }
+      : undefined;
+
+    return computePerformanceStats(ticker, points, riskFreeRate, benchmarkSeries);
+  }
+
+  /**
+   * Compares several tickers over the same period: prices rebased to 100, relative performance
+   * and correlation of daily returns, computed from daily split/dividend-adjusted closes
+   * @param input - The tickers and date range
+   * @returns Promise<TickerComparison> - Rebased prices, performance table and correlation matrix
+   */
+  async compareTickers(input: CompareTickersInput): Promise<TickerComparison> {
+    const { fromDate, toDate } = input;
+    const tickers = [...new Set(input.tickers)];
+    if (tickers.length < 2) {
+      throw new ValidationError('At least two distinct tickers are required.');
+    }
+
+    const series: Array<{ symbol: string; points: PricePoint[] }> = [];
+    for (const ticker of tickers) {
+      series.push({
+        symbol: ticker,
+        points: await this.getAdjustedCloses(ticker, fromDate, toDate),
+      });
+    }
+
+    return compareSeries(series);
+  }
+
+  /**
+   * Fetches the fundamentals of a company: financial data, key statistics and annual or
+   * quarterly income statements, balance sheets and cash flow statements
+   * @param input - The ticker, optional modules (default: all) and statement period
+   * (default: annual)
+   * @returns Promise<Fundamentals> - The requested modules, statements sorted oldest first
+   */
+  async getFundamentals(input: FundamentalsInput): Promise<Fundamentals> {
+    const { ticker } = input;
+    const modules = [...new Set(input.modules ?? FundamentalsModules)].sort();
+    const period = input.period ?? 'annual';
+    const cacheKey = `fundamentals_${ticker}_${period}_${modules.join(',')}`;
+
+    const cachedResponse = this.cache.get<Fundamentals>(cacheKey);
+    if (cachedResponse) {
+      logger.debug('Cache hit for fundamentals', { ticker, cacheKey });
+      return cachedResponse;
+    }
+
+    // Only financial data and key statistics still come from quoteSummary, its statement modules
+    // have been almost empty since November 2024
+    const summaryModules = modules.filter(
+      (module) => module === 'financialData' || module === 'defaultKeyStatistics'
+    );
+    const summary =
+      summaryModules.length > 0
+        ? await this.fetchQuoteSummary(ticker, summaryModules, 'fundamentals')
+        : {};
+    const statements =
+      summaryModules.length < modules.length
+        ? await this.fetchFinancialStatements(ticker, period)
+        : [];
+
+    const response: Fundamentals = { symbol: ticker, period };
+    if (modules.includes('financialData')) {
+      response.financialData = mapFinancialData(summary.financialData ?? {});
+    }
+    if (modules.includes('defaultKeyStatistics')) {
+      response.keyStatistics = mapKeyStatistics(summary.defaultKeyStatistics ?? {});
+    }
+    if (modules.includes('incomeStatementHistory')) {
+      response.incomeStatements = mapIncomeStatements(statements);
+    }
+    if (modules.includes('balanceSheetHistory')) {
+      response.balanceSheets = mapBalanceSheets(statements);
+    }
+    if (modules.includes('cashflowStatementHistory')) {
+      response.cashFlowStatements = mapCashFlowStatements(statements);
+    }
+
+    this.cache.set(cacheKey, response, QUOTE_SUMMARY_CACHE_TTL_SECONDS);
+    return response;
+  }
+
+  /**
+   * Fetches the earnings of a ticker: the date window of the next report with its consensus
+   * estimates, EPS surprises of past quarters and EPS/revenue estimates per fiscal period
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @returns Promise<EarningsReport> - Next earnings, history oldest first and estimates
+   */
+  async getEarnings(ticker: string): Promise<EarningsReport> {
+    const cacheKey = `earnings_${ticker}`;
+    const cachedResponse = this.cache.get<EarningsReport>(cacheKey);
+    if (cachedResponse) {
+      logger.debug('Cache hit for earnings', { ticker, cacheKey });
+      return cachedResponse;
+    }
+
+    const summary = await this.fetchQuoteSummary(
+      ticker,
+      ['calendarEvents', 'earningsHistory', 'earningsTrend'],
+      'earnings'
+    );
+    const history = summary.earningsHistory?.history ?? [];
+    const currency = history.find((entry) => typeof entry.currency === 'string')?.currency;
+
+    const response: EarningsReport = {
+      symbol: ticker,
+      ...(typeof currency === 'string' && { currency }),
+      nextEarnings: mapEarningsDateWindow(summary.calendarEvents),
+      history: mapEarningsHistory(history),
+      estimates: mapEarningsEstimates(summary.earningsTrend?.trend ?? []),
+    };
+
+    this.cache.set(cacheKey, response, QUOTE_SUMMARY_CACHE_TTL_SECONDS);
+    return response;
+  }
+
+  /**
+   * Lists the tickers reporting earnings from today to a number of days ahead. A ticker whose
+   * estimated date window has started but not ended is included.
+   * @param tickers - Stock ticker symbols
+   * @param withinDays - Number of days ahead
+   * @returns Promise<UpcomingEarningsCalendar> - Upcoming reports, soonest first
+   */
+  async getUpcomingEarnings(
+    tickers: string[],
+    withinDays: number
+  ): Promise<UpcomingEarningsCalendar> {
+    const fromDate = format(startOfToday(), 'yyyy-MM-dd');
+    const toDate = format(addDays(startOfToday(), withinDays), 'yyyy-MM-dd');
+    const upcoming: UpcomingEarnings[] = [];
+    const unavailable: string[] = [];
+
+    for (const ticker of new Set(tickers)) {
+      try {
+        const { nextEarnings } = await this.getEarnings(ticker);
+        if (nextEarnings && nextEarnings.endDate >= fromDate && nextEarnings.startDate <= toDate) {
+          upcoming.push({ symbol: ticker, ...nextEarnings });
+        }
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          throw error;
+        }
+        logger.error(`Failed to fetch earnings for ${ticker}`, { ticker, error });
+        unavailable.push(ticker);
+      }
+    }
+
+    upcoming.sort(
+      (a, b) => a.startDate.localeCompare(b.startDate) || a.symbol.localeCompare(b.symbol)
+    );
+    return { fromDate, toDate, upcoming, unavailable };
+  }
+
+  /**
+   * Fetches the analyst ratings of a ticker: monthly recommendation counts, consensus rating and
+   * price targets relative to the current price
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @returns Promise<AnalystRatings> - Consensus, price targets and recommendation trend
+   */
+  async getAnalystRatings(ticker: string): Promise<AnalystRatings> {
+    const cacheKey = `analyst_ratings_${ticker}`;
+    const cachedResponse = this.cache.get<AnalystRatings>(cacheKey);
+    if (cachedResponse) {
+      logger.debug('Cache hit for analyst ratings', { ticker, cacheKey });
+      return cachedResponse;
+    }
+
+    const summary = await this.fetchQuoteSummary(
+      ticker,
+      ['financialData', 'price', 'recommendationTrend'],
+      'analyst ratings'
+    );
+    const financialData = summary.financialData ?? {};
+    const price = summary.price ?? {};
+    const currentPrice = numberField(price, 'regularMarketPrice');
+    const currency = stringField(price, 'currency');
+    const rating = stringField(financialData, 'recommendationKey');
+    const score = numberField(financialData, 'recommendationMean');
+    const analysts = numberField(financialData, 'numberOfAnalystOpinions');
+
+    const response: AnalystRatings = {
+      symbol: ticker,
+      ...(currency !== undefined && { currency }),
+      ...(currentPrice !== undefined && { currentPrice }),
+      consensus: {
+        // Yahoo reports "none" when no analyst covers the ticker
+        ...(rating !== undefined && rating !== 'none' && { rating }),
+        ...(score !== undefined && { score }),
+        ...(analysts !== undefined && { analysts }),
+      },
+      priceTargets: mapPriceTargets(financialData, currentPrice),
+      recommendationTrend: mapRecommendationTrend(
+        summary.recommendationTrend?.trend ?? [],
+        new Date()
+      ),
+    };
+
+    this.cache.set(cacheKey, response, QUOTE_SUMMARY_CACHE_TTL_SECONDS);
+    return response;
+  }
+
+  /**
+   * Fetches the ownership of a stock: holder breakdown, top institutional and fund holders and
+   * recent insider transactions
+   * @param input - The ticker and optional maximum number of insider transactions (default: 20)
+   * @returns Promise<Ownership> - Percentages held, holders and insider transactions
+   */
+  async getOwnership(input: OwnershipInput): Promise<Ownership> {
+    const { ticker } = input;
+    const transactionLimit = input.transactionLimit ?? DEFAULT_INSIDER_TRANSACTION_LIMIT;
+    const cacheKey = `ownership_${ticker}`;
+
+    let ownership = this.cache.get<YahooOwnership>(cacheKey);
+    if (ownership) {
+      logger.debug('Cache hit for ownership', { ticker, cacheKey });
+    } else {
+      try {
+        ownership = await this.yahooClient.ownership(ticker);
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('rate limit')) {
+          throw new RateLimitError();
+        }
+        logger.error(`Error fetching ownership for ${ticker}`, { ticker, error });
+        throw new NotFoundError(
+          `Could not fetch ownership for ${ticker}. Please check the ticker.`
+        );
+      }
+      this.cache.set(cacheKey, ownership, QUOTE_SUMMARY_CACHE_TTL_SECONDS);
+    }
+
+    return mapOwnership(ticker, ownership, transactionLimit);
+  }
+
+  /**
+   * Fetches quoteSummary modules of a ticker
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @param modules - Yahoo quoteSummary modules
+   * @param description - Name of the data in error messages (e.g., fundamentals)
+   * @returns Promise<YahooQuoteSummary> - The modules Yahoo returned
+   */
+  private async fetchQuoteSummary(
+    ticker: string,
+    modules: QuoteSummaryModules,
+    description: string
+  ): Promise<YahooQuoteSummary> {
+    try {
+      return await this.yahooClient.quoteSummary(ticker, { modules });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        throw new RateLimitError();
+      }
+      logger.error(`Error fetching ${description} for ${ticker}`, { ticker, error });
+      throw new NotFoundError(
+        `Could not fetch ${description} for ${ticker}. Please check the ticker.`
+      );
+    }
+  }
+
+  /**
+   * Fetches the income statements, balance sheets and cash flow statements of a ticker from the
+   * fundamentals timeseries in one request
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @param period - Annual or quarterly statements
+   * @returns Promise<YahooFinancialStatement[]> - Statements per period end
+   */
+  private async fetchFinancialStatements(
+    ticker: string,
+    period: FinancialStatementPeriod
+  ): Promise<YahooFinancialStatement[]> {
+    try {
+      return await this.yahooClient.fundamentalsTimeSeries(ticker, {
+        period1: format(subYears(startOfToday(), FINANCIAL_STATEMENT_YEARS[period]), 'yyyy-MM-dd'),
+        type: period,
+        module: 'all',
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        throw new RateLimitError();
+      }
+      logger.error(`Error fetching financial statements for ${ticker}`, { ticker, error });
+      throw new NotFoundError(
+        `Could not fetch financial statements for ${ticker}. Please check the ticker.`
+      );
+    }
+  }
+
+  /**
+   * Fetches the option chain of a ticker at a single expiration, optionally filtered by contract
+   * type and moneyness (strike divided by the underlying price)
+   * @param input - The ticker, optional expiration (default: nearest), contract type and
+   * moneyness range
+   * @returns Promise<OptionChain> - Calls and puts sorted by strike, with the available expirations
+   */
+  async getOptionChain(input: OptionChainInput): Promise<OptionChain> {
+    const { ticker, expiration, optionType, minMoneyness, maxMoneyness } = input;
+
+    if (minMoneyness !== undefined && maxMoneyness !== undefined && minMoneyness > maxMoneyness) {
+      throw new ValidationError('minMoneyness must be lower than or equal to maxMoneyness.');
+    }
+
+    let response = await this.fetchOptions(ticker);
+    const expirationDates = (response.expirationDates ?? []).map((date) => formatUtcDate(date));
+
+    if (expiration !== undefined && expiration !== this.firstExpiration(response)) {
+      if (!expirationDates.includes(expiration)) {
+        throw new ValidationError(
+          `No options expire on ${expiration} for ${ticker}. ` +
+            `Available expirations: ${expirationDates.join(', ')}`
+        );
+      }
+      response = await this.fetchOptions(ticker, expiration);
+    }
+
+    const chain = response.options?.[0];
+    const underlyingPrice = response.quote?.regularMarketPrice;
+
+    const mapContracts = (
+      contracts: YahooOptionContract[] | undefined,
+      type: OptionContract['type']
+    ): OptionContract[] =>
+      (contracts ?? [])
+        .map((contract) => this.mapOptionContract(contract, type, underlyingPrice))
+        .filter(
+          (contract) =>
+            (minMoneyness === undefined ||
+              (contract.moneyness !== undefined && contract.moneyness >= minMoneyness)) &&
+            (maxMoneyness === undefined ||
+              (contract.moneyness !== undefined && contract.moneyness <= maxMoneyness))
+        )
+        .sort((a, b) => a.strike - b.strike);
+
+    return {
+      symbol: response.underlyingSymbol ?? ticker,
+      ...(underlyingPrice !== undefined && { underlyingPrice }),
+      ...(response.quote?.currency !== undefined && { currency: response.quote.currency }),
+      expiration: this.firstExpiration(response) ?? expiration ?? '',
+      expirationDates,
+      calls: optionType === 'put' ? [] : mapContracts(chain?.calls, 'call'),
+      puts: optionType === 'call' ? [] : mapContracts(chain?.puts, 'put'),
+    };
+  }
+
+  /**
+   * Fetches the raw option chain of a ticker at one expiration. Responses are cached briefly and
+   * shared by requests with different filters.
+   * @param ticker - Underlying ticker symbol (e.g., AAPL)
+   * @param expiration - Optional expiration date in 'YYYY-MM-DD' format (default: nearest)
+   * @returns Promise<YahooOptionsResponse> - Yahoo option chain
+   */
+  private async fetchOptions(ticker: string, expiration?: string): Promise<YahooOptionsResponse> {
+    const cacheKey = `options_${ticker}_${expiration ?? 'nearest'}`;
+    const cachedResponse = this.cache.get<YahooOptionsResponse>(cacheKey);
+    if (cachedResponse) {
+      logger.debug('Cache hit for option chain', { ticker, cacheKey });
+      return cachedResponse;
+    }
+
+    let response: YahooOptionsResponse;
+    try {
+      response = await this.yahooClient.options(
+        ticker,
+        expiration === undefined ? undefined : { date: expiration }
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        throw new RateLimitError();
+      }
+      logger.error(`Error fetching option chain for ${ticker}`, { ticker, error });
+      throw new NotFoundError(
+        `Could not fetch option chain for ${ticker}. Please check the ticker.`
+      );
+    }
+
+    if (!response.expirationDates?.length) {
+      throw new NotFoundError(`No options are listed for ${ticker}.`);
+    }
+
+    this.cache.set(cacheKey, response, OPTIONS_CACHE_TTL_SECONDS);
+    return response;
+  }
+
+  /**
+   * Returns the expiration of the contracts in a Yahoo option chain
+   * @param response - Yahoo option chain
+   * @returns string | undefined - Expiration in 'YYYY-MM-DD' format
+   */
+  private firstExpiration(response: YahooOptionsResponse): string | undefined {
+    const date = response.options?.[0]?.expirationDate;
+    return date === undefined ? undefined : formatUtcDate(date);
+  }
+
+  /**
+   * Maps a Yahoo option contract
+   * @param contract - Yahoo option contract
+   * @param type - Contract type
+   * @param underlyingPrice - Current price of the underlying, used to compute moneyness
+   * @returns OptionContract
+   */
+  private mapOptionContract(
+    contract: YahooOptionContract,
+    type: OptionContract['type'],
+    underlyingPrice: number | undefined
+  ): OptionContract {
+    const strike = contract.strike ?? 0;
+    const mapped: OptionContract = {
+      contractSymbol: contract.contractSymbol ?? '',
+      type,
+      strike,
+      expiration: contract.expiration === undefined ? '' : formatUtcDate(contract.expiration),
+      lastPrice: contract.lastPrice ?? 0,
+      change: contract.change,
+      percentChange: contract.percentChange,
+      bid: contract.bid,
+      ask: contract.ask,
+      volume: contract.volume,
+      openInterest: contract.openInterest,
+      impliedVolatility: contract.impliedVolatility ?? 0,
+      inTheMoney: contract.inTheMoney ?? false,
+      moneyness: underlyingPrice
+        ? Math.round((strike / underlyingPrice) * 10000) / 10000
+        : undefined,
+      lastTradeDate:
+        contract.lastTradeDate === undefined
+          ? undefined
+          : new Date(contract.lastTradeDate).toISOString(),
+    };
+
+    // Filter out undefined values
+    Object.keys(mapped).forEach(
+      (key) =>
+        mapped[key as keyof OptionContract] === undefined &&
+        delete mapped[key as keyof OptionContract]
+    );
+    return mapped;
+  }
+
+  /**
+   * Fetch the rate of a currency pair
+   * @param input - Pair in natural form (e.g., EUR/USD), optional pivot currency for cross rates
+   * and optional date range for daily closing rates
+   * @returns Promise<ExchangeRate> - Latest rate, with the daily closes when a date range is set
+   */
+  async getFxRate(input: FxRateInput): Promise<ExchangeRate> {
+    const { rate } = await this.getPairRate(this.parsePair(input.pair), fxSymbol, input);
+    return rate;
+  }
+
+  /**
+   * Fetch the price of a cryptocurrency
+   * @param input - Cryptocurrency, optionally with the currency to quote it in (e.g., BTC in EUR),
+   * optional pivot currency for cross rates and optional date range for daily closing prices
+   * @returns Promise<CryptoQuote> - Latest price with the change of the day and market cap
+   */
+  async getCryptoQuote(input: CryptoQuoteInput): Promise<CryptoQuote> {
+    const pair = this.parsePair(input.pair, DEFAULT_CRYPTO_QUOTE_CURRENCY);
+    const { rate, baseQuote, crossRate } = await this.getPairRate(pair, cryptoSymbol, input);
+    const changePercent = rate.pivotCurrency ? undefined : baseQuote.regularMarketChangePercent;
+
+    return {
+      ...rate,
+      ...(changePercent !== undefined && { changePercent }),
+      ...(baseQuote.marketCap !== undefined && {
+        marketCap: Math.round(baseQuote.marketCap * crossRate),
+      }),
+    };
+  }
+
+  /**
+   * Reads a currency pair written in natural form
+   * @param text - Pair such as EUR/USD or "BTC in EUR"
+   * @param defaultQuote - Quote currency when only one currency is given
+   * @returns CurrencyPair - Base and quote currencies
+   */
+  private parsePair(text: string, defaultQuote?: string): CurrencyPair {
+    const pair = parseCurrencyPair(text, defaultQuote);
+    if (!pair) {
+      throw new ValidationError(
+        `Could not read a currency pair from "${text}". Use a form such as EUR/USD or "BTC in EUR".`
+      );
+    }
+    if (pair.base === pair.quote) {
+      throw new ValidationError(
+        `${pair.base}/${pair.quote} does not pair two different currencies.`
+      );
+    }
+    return pair;
+  }
+
+  /**
+   * Fetches the rate of a pair, directly or as a cross rate through a pivot currency when Yahoo
+   * Finance does not quote the pair
+   * @param pair - Base and quote currencies
+   * @param symbolOf - Returns the Yahoo Finance symbol of a pair of the same kind (FX or crypto)
+   * @param options - Optional pivot currency and date range for daily closing rates
+   * @returns Promise - The rate, the quote of the base currency leg and the rate applied to it
+   * (1 for a direct rate)
+   */
+  private async getPairRate(
+    pair: CurrencyPair,
+    symbolOf: (base: string, quote: string) => string,
+    options: { pivotCurrency?: string; fromDate?: string; toDate?: string }
+  ): Promise<{ rate: ExchangeRate; baseQuote: StockQuoteResponse; crossRate: number }> {
+    const { base, quote } = pair;
+    const label = `${base}/${quote}`;
+    const range = this.rateHistoryRange(options.fromDate, options.toDate);
+
+    const symbol = symbolOf(base, quote);
+    const direct = await this.fetchRateQuote(symbol);
+    if (direct) {
+      return {
+        rate: {
+          pair: label,
+          baseCurrency: base,
+          quoteCurrency: quote,
+          rate: direct.price,
+          ...(direct.time !== undefined && { rateTime: direct.time }),
+          symbols: [symbol],
+          ...(range && { history: await this.fetchRateHistory([symbol], range) }),
+        },
+        baseQuote: direct.quote,
+        crossRate: 1,
+      };
+    }
+
+    const pivot = options.pivotCurrency ?? DEFAULT_PIVOT_CURRENCY;
+    const baseSymbol = symbolOf(base, pivot);
+    const pivotSymbol = fxSymbol(pivot, quote);
+    const baseLeg =
+      pivot === base || pivot === quote ? null : await this.fetchRateQuote(baseSymbol);
+    const pivotLeg = baseLeg && (await this.fetchRateQuote(pivotSymbol));
+    if (!baseLeg || !pivotLeg) {
+      throw new NotFoundError(`No rate found for ${label}, directly or through ${pivot}.`);
+    }
+
+    // The rate is only as recent as the oldest of the two quotes
+    const times = [baseLeg.time, pivotLeg.time].filter((time) => time !== undefined);
+    return {
+      rate: {
+        pair: label,
+        baseCurrency: base,
+        quoteCurrency: quote,
+        rate: round(baseLeg.price * pivotLeg.price, 6),
+        ...(times.length === 2 && { rateTime: times.sort((a, b) => a.localeCompare(b))[0] }),
+        symbols: [baseSymbol, pivotSymbol],
+        pivotCurrency: pivot,
+        ...(range && { history: await this.fetchRateHistory([baseSymbol, pivotSymbol], range) }),
+      },
+      baseQuote: baseLeg.quote,
+      crossRate: pivotLeg.price,
+    };
+  }
+
+  /**
+   * Fetches the latest price of a rate symbol, through the quote cache
+   * @param symbol - Yahoo Finance symbol (e.g., EURUSD=X or BTC-USD)
+   * @returns Promise - The price, its ISO timestamp and the quote, or null when Yahoo Finance does
+   * not quote the symbol
+   */
+  private async fetchRateQuote(
+    symbol: string
+  ): Promise<{ price: number; time?: string; quote: StockQuoteResponse } | null> {
+    try {
+      const quote = await this.getQuote({ ticker: symbol });
+      if (!quote.regularMarketPrice) {
+        return null;
+      }
+      return {
+        price: quote.regularMarketPrice,
+        ...(quote.regularMarketTime !== undefined && {
+          time: new Date(quote.regularMarketTime).toISOString(),
+        }),
+        quote,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validates the optional date range of daily closing rates
+   * @param fromDate - Optional start date in 'YYYY-MM-DD' format
+   * @param toDate - Optional end date in 'YYYY-MM-DD' format (default: today)
+   * @returns The date range, or undefined when no history is requested
+   */
+  private rateHistoryRange(
+    fromDate?: string,
+    toDate?: string
+  ): { fromDate: string; toDate: string } | undefined {
+    if (!fromDate) {
+      if (toDate) {
+        throw new ValidationError('fromDate is required when toDate is set.');
+      }
+      return undefined;
+    }
+
+    const range = { fromDate, toDate: toDate ?? format(startOfToday(), 'yyyy-MM-dd') };
+    this.validateHistoricalDataDates(range.fromDate, range.toDate);
+    return range;
+  }
+
+  /**
+   * Fetches the daily closing rates of a pair, as the product of the closes of its symbols on the
+   * days all of them traded
+   * @param symbols - Yahoo Finance symbols, one for a direct rate or two for a cross rate
+   * @param range - Date range
+   * @returns Promise<RatePoint[]> - Closing rates, oldest first
+   */
+  private async fetchRateHistory(
+    symbols: string[],
+    range: { fromDate: string; toDate: string }
+  ): Promise<RatePoint[]> {
+    const closesBySymbol: Array<Map<string, number>> = [];
+    for (const symbol of symbols) {
+      const chart = await this.fetchChartInChunks(symbol, range.fromDate, range.toDate, '1d');
+      closesBySymbol.push(
+        new Map(
+          (chart.quotes ?? []).flatMap(
+            ({ date, close }): Array<[string, number]> =>
+              date !== undefined && close ? [[format(new Date(date), 'yyyy-MM-dd'), close]] : []
+          )
+        )
+      );
+    }
+
+    const [first, ...others] = closesBySymbol;
+    return [...first.entries()]
+      .flatMap(([date, close]) => {
+        const rate = others.reduce<number | undefined>((product, closes) => {
+          const otherClose = closes.get(date);
+          return product === undefined || otherClose === undefined
+            ? undefined
+            : product * otherClose;
+        }, close);
+        return rate === undefined ? [] : [{ date, rate: round(rate, 6) }];
+      })
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Screen stocks with a predefined Yahoo Finance screener, optionally filtered by custom criteria.
+   * The sectors of at most twice as many candidates as requested stocks are looked up.
+   * @param input - Screener, criteria (sector, market cap, P/E, dividend yield, exchange), region
+   * and maximum number of stocks
+   * @returns Promise<ScreenerResult> - Quotes of the matching stocks, in the screener's order
+   */
+  async screenStocks(input: ScreenStocksInput): Promise<ScreenerResult> {
+    const screener = input.screener ?? DEFAULT_SCREENER;
+    const region = input.region ?? DEFAULT_SCREENER_REGION;
+    const count = input.count ?? DEFAULT_SCREENER_COUNT;
+    const { sector, minMarketCap, maxMarketCap, minPE, maxPE, minDividendYield, exchange } = input;
+
+    if (minMarketCap !== undefined && maxMarketCap !== undefined && minMarketCap > maxMarketCap) {
+      throw new ValidationError('minMarketCap must be less than or equal to maxMarketCap.');
+    }
+    if (minPE !== undefined && maxPE !== undefined && minPE > maxPE) {
+      throw new ValidationError('minPE must be less than or equal to maxPE.');
+    }
+
+    const hasCriteria = [
+      sector,
+      minMarketCap,
+      maxMarketCap,
+      minPE,
+      maxPE,
+      minDividendYield,
+      exchange,
+    ].some((criterion) => criterion !== undefined);
+    // Yahoo Finance only runs predefined screeners, custom criteria filter their largest page
+    const response = await this.fetchScreener(
+      screener,
+      region,
+      hasCriteria ? SCREENER_UNIVERSE_SIZE : count
+    );
+    const candidates = response.quotes ?? [];
+
+    const inRange = (value: number | undefined, min?: number, max?: number): boolean =>
+      (min === undefined || (value !== undefined && value >= min)) &&
+      (max === undefined || (value !== undefined && value <= max));
+    const exchangeName = exchange?.toLowerCase();
+
+    const quotes: StockQuoteResponse[] = [];
+    let sectorLookups = 0;
+    let partial = false;
+    for (const candidate of candidates) {
+      if (quotes.length >= count || !candidate.symbol) break;
+
+      const matches =
+        inRange(candidate.marketCap, minMarketCap, maxMarketCap) &&
+        inRange(candidate.trailingPE, minPE, maxPE) &&
+        inRange(candidate.dividendYield, minDividendYield) &&
+        (exchangeName === undefined ||
+          candidate.exchange?.toLowerCase() === exchangeName ||
+          candidate.fullExchangeName?.toLowerCase() === exchangeName);
+      if (!matches) continue;
+
+      const quote = this.mapToStockQuoteResponse(candidate, candidate.symbol);
+      if (sector) {
+        if (sectorLookups >= count * SECTOR_LOOKUPS_PER_RESULT) {
+          partial = true;
+          break;
+        }
+        sectorLookups++;
+        let candidateSector: string | undefined;
+        try {
+          candidateSector = await this.getSector(candidate.symbol);
+        } catch (error) {
+          if (error instanceof RateLimitError) {
+            throw error;
+          }
+          // A stock whose profile cannot be fetched is left out of the screen
+          continue;
+        }
+        if (candidateSector?.toLowerCase() !== sector.toLowerCase()) continue;
+        quote.sector = candidateSector;
+      }
+      quotes.push(quote);
+    }
+
+    return {
+      screener,
+      ...(response.title !== undefined && { title: response.title }),
+      region,
+      screenedCount: candidates.length,
+      ...(partial && { partial }),
+      quotes,
+    };
+  }
+
+  /**
+   * Runs a predefined screener
+   * @param screener - Predefined screener
+   * @param region - Region code (e.g., US)
+   * @param count - Number of results to fetch
+   * @returns Promise<YahooScreenerResponse> - Screener results
+   */
+  private async fetchScreener(
+    screener: PredefinedScreener,
+    region: string,
+    count: number
+  ): Promise<YahooScreenerResponse> {
+    const cacheKey = `screener_${screener}_${region}_${count}`;
+    const cachedResponse = this.cache.get<YahooScreenerResponse>(cacheKey);
+    if (cachedResponse) {
+      logger.debug('Cache hit for screener', { screener, region, cacheKey });
+      return cachedResponse;
+    }
+
+    let response: YahooScreenerResponse;
+    try {
+      response = await this.yahooClient.screener({ scrIds: screener, region, count });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        throw new RateLimitError();
+      }
+      logger.error(`Error running screener ${screener}`, { screener, region, error });
+      throw new NotFoundError(`Could not run the ${screener} screener for region ${region}.`);
+    }
+
+    this.cache.set(cacheKey, response);
+    return response;
+  }
+
+  /**
+   * Fetches the sector of a ticker from its asset profile
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @returns Promise<string | undefined> - Sector, or undefined when Yahoo Finance has no profile
+   */
+  private async getSector(ticker: string): Promise<string | undefined> {
+    const cacheKey = `sector_${ticker}`;
+    const cachedProfile = this.cache.get<{ sector?: string }>(cacheKey);
+    if (cachedProfile) {
+      return cachedProfile.sector;
+    }
+
+    const summary = await this.fetchQuoteSummary(ticker, ['assetProfile'], 'asset profile');
+    const sector = stringField(summary.assetProfile ?? {}, 'sector');
+
+    // Tickers without a profile are cached too, so that they are not fetched on every screen
+    this.cache.set(cacheKey, { sector }, QUOTE_SUMMARY_CACHE_TTL_SECONDS);
+    return sector;
+  }
+
+  /**
+   * Get the trending tickers and top gainers, losers and most active stocks of a region
+   * @param input - Region, lists to return and number of tickers per list
+   * @returns Promise<MarketMovers> - Quotes of each list, in Yahoo Finance's order
+   */
+  async getMarketMovers(input: MarketMoversInput): Promise<MarketMovers> {
+    const region = input.region ?? DEFAULT_SCREENER_REGION;
+    const lists = [...new Set(input.lists ?? MarketMoverLists)];
+    const count = input.count ?? DEFAULT_MARKET_MOVERS_COUNT;
+
+    const symbolsByList = new Map<MarketMoverList, string[]>();
+    const unavailable: MarketMoverList[] = [];
+    for (const list of lists) {
+      try {
+        symbolsByList.set(list, await this.fetchMoverSymbols(list, region, count));
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          throw error;
+        }
+        unavailable.push(list);
+      }
+    }
+
+    if (symbolsByList.size === 0) {
+      throw new NotFoundError(`Could not fetch market movers for region ${region}.`);
+    }
+
+    // Tickers appearing in several lists are quoted once
+    const tickers = [...new Set([...symbolsByList.values()].flat())];
+    const quotesBySymbol = new Map<string, StockQuoteResponse>();
+    if (tickers.length > 0) {
+      try {
+        const quotes = await this.getQuotes({ tickers, fields: MARKET_MOVER_FIELDS });
+        quotes.forEach((quote) => quotesBySymbol.set(quote.symbol, quote));
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          throw error;
+        }
+        // The lists are still useful without prices, tickers are returned on their own
+        logger.error('Error fetching quotes of market movers', { region, tickers, error });
+      }
+    }
+
+    const movers: MarketMovers = { region };
+    for (const [list, symbols] of symbolsByList) {
+      movers[list] = symbols.map((symbol) => quotesBySymbol.get(symbol) ?? { symbol });
+    }
+    if (unavailable.length > 0) {
+      movers.unavailable = unavailable;
+    }
+    return movers;
+  }
+
+  /**
+   * Fetches the tickers of a market movers list
+   * @param list - Market movers list
+   * @param region - Region code (e.g., US)
+   * @param count - Maximum number of tickers
+   * @returns Promise<string[]> - Ticker symbols, in Yahoo Finance's order
+   */
+  private async fetchMoverSymbols(
+    list: MarketMoverList,
+    region: string,
+    count: number
+  ): Promise<string[]> {
+    const response =
+      list === 'trending'
+        ? await this.fetchTrendingSymbols(region, count)
+        : await this.fetchScreener(MARKET_MOVER_SCREENERS[list], region, count);
+
+    return (response.quotes ?? [])
+      .flatMap((quote) => (quote.symbol ? [quote.symbol] : []))
+      .slice(0, count);
+  }
+
+  /**
+   * Fetches the symbols trending in a region
+   * @param region - Region code (e.g., US)
+   * @param count - Number of symbols to fetch
+   * @returns Promise<YahooTrendingSymbolsResponse> - Trending symbols
+   */
+  private async fetchTrendingSymbols(
+    region: string,
+    count: number
+  ): Promise<YahooTrendingSymbolsResponse> {
+    const cacheKey = `trending_${region}_${count}`;
+    const cachedResponse = this.cache.get<YahooTrendingSymbolsResponse>(cacheKey);
+    if (cachedResponse) {
+      logger.debug('Cache hit for trending symbols', { region, cacheKey });
+      return cachedResponse;
+    }
+
+    let response: YahooTrendingSymbolsResponse;
+    try {
+      response = await this.yahooClient.trendingSymbols(region, { count });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('rate limit')) {
+        throw new RateLimitError();
+      }
+      logger.error('Error fetching trending symbols', { region, error });
+      throw new NotFoundError(`Could not fetch the trending symbols for region ${region}.`);
+    }
+
+    this.cache.set(cacheKey, response);
+    return response;
+  }
+
+  /**
+   * Value a portfolio of positions in a base currency
+   * @param input - Positions (ticker, quantity, optional cost basis and its currency), optional
+   * base currency and whether to break the portfolio down by sector
+   * @returns Promise<PortfolioValuation> - Market value, unrealized P&L, day change and weight per
+   * position and in total, with a currency breakdown and optionally a sector breakdown
+   */
+  async valuePortfolio(input: ValuePortfolioInput): Promise<PortfolioValuation> {
+    const baseCurrency = input.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+    const { quotes, missing } = await this.getHoldingQuotes(input.positions, baseCurrency);
+
+    // Only equities have a sector, it is looked up once per ticker
+    const sectors = new Map<string, string | undefined>();
+    if (input.includeSectors) {
+      for (const [ticker, quote] of quotes) {
+        if (quote.quoteType === 'EQUITY') {
+          sectors.set(ticker, await this.getSector(quote.symbol));
+        }
+      }
+    }
+
+    const priced: PricedPosition[] = [];
+    for (const position of input.positions) {
+      const quote = quotes.get(position.ticker);
+      if (quote?.regularMarketPrice === undefined) continue;
+
+      const listingCurrency = quote.conversion?.fromCurrency ?? quote.currency ?? baseCurrency;
+      const costCurrency = position.currency ?? listingCurrency;
+      const costRate =
+        costCurrency === listingCurrency
+          ? (quote.conversion?.rate ?? 1)
+          : await this.getCostRate(costCurrency, baseCurrency);
+
+      priced.push({
+        position,
+        name: quote.name,
+        listingCurrency,
+        sector: sectors.get(position.ticker),
+        price: quote.regularMarketPrice,
+        change: quote.regularMarketChange,
+        costRate,
+      });
+    }
+
+    return {
+      ...valuePortfolio(baseCurrency, priced, input.includeSectors ?? false),
+      ...(missing.length > 0 && { missing }),
+    };
+  }
+
+  /**
+   * Project the dividend income of holdings from their regular dividends, or from the trailing
+   * dividend rate or dividend yield of their quotes
+   * @param input - Holdings with optional cost basis
+   * @returns Promise<DividendIncomeProjection> - Annual and monthly income per holding and per
+   * currency, next expected ex-dates, payment estimates and yield on cost
+   */
+  async projectDividendIncome(input: DividendIncomeInput): Promise<DividendIncomeProjection> {
+    const { quotes, missing } = await this.getHoldingQuotes(input.holdings);
+
+    const today = format(startOfToday(), 'yyyy-MM-dd');
+    const fromDate = format(subYears(startOfToday(), DIVIDEND_HISTORY_YEARS), 'yyyy-MM-dd');
+    const dividends = new Map<string, DividendEvent[]>();
+    for (const [ticker, quote] of quotes) {
+      dividends.set(ticker, await this.getDividendHistory(quote.symbol, fromDate, today));
+    }
+
+    const holdings: DividendHolding[] = [];
+    for (const position of input.holdings) {
+      const quote = quotes.get(position.ticker);
+      if (!quote) continue;
+
+      const currency = quote.currency ?? DEFAULT_BASE_CURRENCY;
+      const costRate = await this.getCostRate(position.currency ?? currency, currency);
+
+      holdings.push({
+        position,
+        name: quote.name,
+        currency,
+        price: quote.regularMarketPrice,
+        trailingAnnualDividendRate: quote.trailingAnnualDividendRate,
+        dividendYield: quote.dividendYield,
+        dividends: dividends.get(position.ticker) ?? [],
+        costRate,
+      });
+    }
+
+    return {
+      ...projectDividendIncome(holdings, today),
+      ...(missing.length > 0 && { missing }),
+    };
+  }
+
+  /**
+   * Fetches the quotes of the holdings of a portfolio. Yahoo can return a quote under another
+   * symbol than the requested one (e.g., BRK-B for BRK.B), symbols are matched ignoring case and
+   * the separator of the share class.
+   * @param positions - Holdings with their tickers
+   * @param targetCurrency - Optional ISO 4217 currency code to convert the prices to
+   * @returns Promise<{ quotes: Map<string, StockQuoteResponse>; missing: string[] }> - Quotes with
+   * a price by requested ticker, and the tickers without one
+   */
+  private async getHoldingQuotes(
+    positions: PortfolioPositionInput[],
+    targetCurrency?: string
+  ): Promise<{ quotes: Map<string, StockQuoteResponse>; missing: string[] }> {
+    const tickers = [...new Set(positions.map((position) => position.ticker))];
+    const normalize = (symbol: string): string => symbol.toUpperCase().replace(/[./]/g, '-');
+
+    const responses = await this.getQuotes({ tickers, targetCurrency });
+    const responsesBySymbol = new Map(
+      responses.map((response) => [normalize(response.symbol), response])
+    );
+    const quotes = new Map<string, StockQuoteResponse>();
+    for (const ticker of tickers) {
+      const quote = responsesBySymbol.get(normalize(ticker));
+      if (quote?.regularMarketPrice !== undefined) quotes.set(ticker, quote);
+    }
+
+    const missing = tickers.filter((ticker) => !quotes.has(ticker));
+    if (quotes.size === 0) {
+      throw new NotFoundError(`No price found for ${missing.join(', ')}`);
+    }
+    return { quotes, missing };
+  }
+
+  /**
+   * Fetches the rate a cost basis is converted at. Costs are converted at the latest exchange
+   * rate, the rate of the purchase is unknown.
+   * @param costCurrency - ISO 4217 currency code of the cost basis
+   * @param currency - ISO 4217 currency code to convert the cost basis to
+   * @returns Promise<number> - Exchange rate, 1 when the currencies are the same
+   */
+  private async getCostRate(costCurrency: string, currency: string): Promise<number> {
+    return costCurrency === currency
+      ? 1
+      : (await this.getExchangeRate(costCurrency, currency)).rate;
+  }
+
+  /**
+   * Fetches the dividends of a ticker, in the major unit of its currency
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @param fromDate - Start date in 'YYYY-MM-DD' format
+   * @param toDate - End date in 'YYYY-MM-DD' format
+   * @returns Promise<DividendEvent[]> - Dividends oldest first, empty when they cannot be fetched
+   */
+  private async getDividendHistory(
+    ticker: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<DividendEvent[]> {
+    try {
+      const actions = await this.getCorporateActions(ticker, fromDate, toDate);
+      const divisor = majorCurrencyUnit(actions.currency)?.divisor ?? 1;
+      return actions.dividends.map((dividend) => ({
+        ...dividend,
+        amount: dividend.amount / divisor,
+      }));
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      // The projection falls back to the trailing dividend rate and the dividend yield
+      logger.warn(`Failed to fetch dividends for ${ticker}`, { ticker, error });
+      return [];
+    }
+  }
+
+  /**
+   * Create a watchlist
+   * @param input - Name of the watchlist and optional tickers to start it with
+   * @returns Promise<Watchlist> - The new watchlist
+   */
+  async createWatchlist(input: CreateWatchlistInput): Promise<Watchlist> {
+    return this.watchlists.update((document) => {
+      if (this.findWatchlist(document, input.name)) {
+        throw new ValidationError(`Watchlist '${input.name}' already exists.`);
+      }
+
+      const now = new Date().toISOString();
+      const watchlist: Watchlist = {
+        name: input.name,
+        tickers: [...new Set(input.tickers ?? [])],
+        createdAt: now,
+        updatedAt: now,
+      };
+      document.watchlists.push(watchlist);
+      return watchlist;
+    });
+  }
+
+  /**
+   * Add tickers to a watchlist, tickers already in the watchlist are kept once
+   * @param input - Name of the watchlist and tickers to add
+   * @returns Promise<Watchlist> - The updated watchlist
+   */
+  async addToWatchlist(input: WatchlistTickersInput): Promise<Watchlist> {
+    return this.watchlists.update((document) => {
+      const watchlist = this.requireWatchlist(document, input.name);
+      watchlist.tickers = [...new Set([...watchlist.tickers, ...input.tickers])];
+      watchlist.updatedAt = new Date().toISOString();
+      return watchlist;
+    });
+  }
+
+  /**
+   * Remove tickers from a watchlist, tickers not in the watchlist are ignored
+   * @param input - Name of the watchlist and tickers to remove
+   * @returns Promise<Watchlist> - The updated watchlist
+   */
+  async removeFromWatchlist(input: WatchlistTickersInput): Promise<Watchlist> {
+    return this.watchlists.update((document) => {
+      const watchlist = this.requireWatchlist(document, input.name);
+      watchlist.tickers = watchlist.tickers.filter((ticker) => !input.tickers.includes(ticker));
+      watchlist.updatedAt = new Date().toISOString();
+      return watchlist;
+    });
+  }
+
+  /**
+   * List the watchlists
+   * @returns Promise<Watchlist[]> - Watchlists sorted by name
+   */
+  async listWatchlists(): Promise<Watchlist[]> {
+    const document = await this.watchlists.read();
+    return [...document.watchlists].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Fetch the quotes of the tickers of a watchlist
+   * @param input - Name of the watchlist, optional fields and optional currency to convert prices to
+   * @returns Promise<WatchlistQuotes> - Quotes in the order of the watchlist
+   */
+  async getWatchlistQuotes(input: WatchlistQuotesInput): Promise<WatchlistQuotes> {
+    const watchlist = this.requireWatchlist(await this.watchlists.read(), input.name);
+    if (watchlist.tickers.length === 0) {
+      return { name: watchlist.name, quotes: [] };
+    }
+
+    const quotes = await this.getQuotes({
+      tickers: watchlist.tickers,
+      fields: input.fields,
+      targetCurrency: input.targetCurrency,
+    });
+    const order = new Map(watchlist.tickers.map((ticker, index) => [ticker, index]));
+    return {
+      name: watchlist.name,
+      quotes: [...quotes].sort(
+        (a, b) =>
+          (order.get(a.symbol) ?? watchlist.tickers.length) -
+          (order.get(b.symbol) ?? watchlist.tickers.length)
+      ),
+    };
+  }
+
+  /**
+   * Finds a watchlist by name, ignoring case
+   * @param document - Stored watchlists
+   * @param name - Watchlist name
+   * @returns Watchlist | undefined - The watchlist, or undefined when there is none by that name
+   */
+  private findWatchlist(document: WatchlistDocument, name: string): Watchlist | undefined {
+    const key = name.toLowerCase();
+    return document.watchlists.find((watchlist) => watchlist.name.toLowerCase() === key);
+  }
+
+  /**
+   * Finds a watchlist by name, ignoring case, and throws NotFoundError when there is none
+   * @param document - Stored watchlists
+   * @param name - Watchlist name
+   * @returns Watchlist - The watchlist
+   */
+  private requireWatchlist(document: WatchlistDocument, name: string): Watchlist {
+    const watchlist = this.findWatchlist(document, name);
+    if (!watchlist) {
+      throw new NotFoundError(`Watchlist '${name}' not found`);
+    }
+    return watchlist;
+  }
+
+  /**
+   * Create a price alert, checked by checkAlerts until it triggers
+   * @param input - Ticker, condition, threshold or moving average of the condition and optional note
+   * @returns Promise<PriceAlert> - The new alert
+   */
+  async createAlert(input: CreateAlertInput): Promise<PriceAlert> {
+    const { ticker, condition, note } = input;
+    const crossing = condition === 'cross_above_average' || condition === 'cross_below_average';
+
+    let threshold = input.threshold;
+    if (condition === 'volume_spike') {
+      threshold ??= DEFAULT_VOLUME_SPIKE_MULTIPLE;
+    } else if (crossing) {
+      threshold = undefined;
+    } else if (threshold === undefined) {
+      throw new ValidationError(`A threshold is required for ${condition} alerts.`);
+    }
+
+    const alert: PriceAlert = {
+      id: randomUUID(),
+      ticker,
+      condition,
+      threshold,
+      average: crossing ? (input.average ?? DEFAULT_MOVING_AVERAGE) : undefined,
+      note,
+      status: 'active',
+      createdAt: new Date().toISOString(),
+    };
+    Object.keys(alert).forEach(
+      (key) => alert[key as keyof PriceAlert] === undefined && delete alert[key as keyof PriceAlert]
+    );
+
+    return this.alerts.update((document) => {
+      document.alerts.push(alert);
+      return alert;
+    });
+  }
+
+  /**
+   * List the price alerts
+   * @param input - Optional status of the alerts to list
+   * @returns Promise<PriceAlert[]> - Alerts in the order they were created
+   */
+  async listAlerts(input: ListAlertsInput = {}): Promise<PriceAlert[]> {
+    const document = await this.alerts.read();
+    return document.alerts.filter((alert) => !input.status || alert.status === input.status);
+  }
+
+  /**
+   * Delete a price alert
+   * @param input - Identifier of the alert
+   * @returns Promise<PriceAlert> - The deleted alert
+   */
+  async deleteAlert(input: DeleteAlertInput): Promise<PriceAlert> {
+    return this.alerts.update((document) => {
+      const index = document.alerts.findIndex((alert) => alert.id === input.id);
+      if (index < 0) {
+        throw new NotFoundError(`Alert '${input.id}' not found`);
+      }
+      return document.alerts.splice(index, 1)[0];
+    });
+  }
+
+  /**
+   * Check the active price alerts against the quotes of their tickers. Triggered alerts are
+   * stored as triggered and are not checked again, the alert scheduler delivers them.
+   * @returns Promise<AlertCheck> - Number of alerts checked and the alerts that triggered
+   */
+  async checkAlerts(): Promise<AlertCheck> {
+    const checkedAt = new Date().toISOString();
+    const active = (await this.alerts.read()).alerts.filter((alert) => alert.status === 'active');
+    if (active.length === 0) {
+      return { checkedAt, checked: 0, triggered: [] };
+    }
+
+    const quotes = await this.getQuotes({
+      tickers: [...new Set(active.map((alert) => alert.ticker))],
+      fields: ALERT_QUOTE_FIELDS,
+    });
+    const quotesBySymbol = new Map(quotes.map((quote) => [quote.symbol, quote]));
+    const evaluations = new Map<string, AlertEvaluation>();
+    for (const alert of active) {
+      const quote = quotesBySymbol.get(alert.ticker);
+      if (quote) {
+        evaluations.set(alert.id, evaluateAlert(alert, quote));
+      }
+    }
+
+    const triggered = await this.alerts.update((document) => {
+      const triggeredAlerts: PriceAlert[] = [];
+      for (const alert of document.alerts) {
+        const evaluation = evaluations.get(alert.id);
+        // Alerts triggered by another check while the quotes were fetched are left as they are
+        if (!evaluation || alert.status !== 'active') continue;
+
+        alert.lastCheckedAt = checkedAt;
+        if (evaluation.side) alert.lastSide = evaluation.side;
+        if (evaluation.triggered) {
+          alert.status = 'triggered';
+          alert.triggeredAt = checkedAt;
+          if (evaluation.price !== undefined) alert.triggerPrice = evaluation.price;
+          if (evaluation.message) alert.message = evaluation.message;
+          triggeredAlerts.push({ ...alert });
+        }
+      }
+      return triggeredAlerts;
+    });
+
+    return { checkedAt, checked: evaluations.size, triggered };
+  }
+
+  /**
+   * Record the delivery of a triggered alert, alerts deleted in the meantime are ignored
+   * @param id - Identifier of the alert
+   * @param deliveredTo - Names of the notifiers the alert was delivered to
+   * @param notifiedAt - Optional ISO timestamp, set once every notifier has the alert
+   */
+  async recordAlertDelivery(id: string, deliveredTo: string[], notifiedAt?: string): Promise<void> {
+    await this.alerts.update((document) => {
+      const alert = document.alerts.find((candidate) => candidate.id === id);
+      if (!alert) return;
+      alert.deliveredTo = deliveredTo;
+      if (notifiedAt) alert.notifiedAt = notifiedAt;
+    });
+  }
+
+  /**
+   * Record a transaction in the ledger. The transaction is rejected when the ledger cannot apply
+   * it, such as a sale of more shares than are held at its date.
+   * @param input - Buy, sell, dividend or split with the fields of its kind
+   * @returns Promise<LedgerTransaction> - The recorded transaction
+   */
+  async recordTransaction(input: RecordTransactionInput): Promise<LedgerTransaction> {
+    const { type, ticker, date } = input;
+    this.validateLedgerDate(date);
+
+    const transaction: LedgerTransaction = {
+      id: randomUUID(),
+      type,
+      ticker,
+      date,
+      recordedAt: new Date().toISOString(),
+    };
+    switch (type) {
+      case 'buy':
+      case 'sell':
+        if (input.quantity === undefined || input.price === undefined) {
+          throw new ValidationError(
+            `A quantity and a price are required for ${type} transactions.`
+          );
+        }
+        transaction.quantity = input.quantity;
+        transaction.price = input.price;
+        if (input.fees !== undefined) transaction.fees = input.fees;
+        if (type === 'sell') {
+          transaction.lotMethod = input.lotMethod ?? (input.lots ? 'specific' : 'fifo');
+          if (transaction.lotMethod === 'specific') {
+            if (!input.lots) {
+              throw new ValidationError(
+                'Lots are required for sales with the specific lot method.'
+              );
+            }
+            transaction.lots = input.lots;
+          } else if (input.lots) {
+            throw new ValidationError(
+              `Lots cannot be given for sales with the ${transaction.lotMethod} lot method.`
+            );
+          }
+        }
+        break;
+      case 'dividend':
+        if (input.amount === undefined) {
+          throw new ValidationError('An amount is required for dividend transactions.');
+        }
+        transaction.amount = input.amount;
+        break;
+      case 'split':
+        if (input.ratio === undefined) {
+          throw new ValidationError('A ratio is required for split transactions.');
+        }
+        transaction.ratio = input.ratio;
+        break;
+    }
+    if (input.note !== undefined) transaction.note = input.note;
+
+    return this.ledger.update((document) => {
+      const { invalid } = replayLedger([...document.transactions, transaction]);
+      if (invalid) {
+        throw new ValidationError(invalid.reason);
+      }
+      document.transactions.push(transaction);
+      return transaction;
+    });
+  }
+
+  /**
+   * List the transactions of the ledger
+   * @param input - Optional ticker to list
+   * @returns Promise<LedgerTransaction[]> - Transactions in the order they apply, by date
+   */
+  async listTransactions(input: ListTransactionsInput = {}): Promise<LedgerTransaction[]> {
+    const document = await this.ledger.read();
+    return sortTransactions(document.transactions).filter(
+      (transaction) => !input.ticker || transaction.ticker === input.ticker
+    );
+  }
+
+  /**
+   * Delete a transaction from the ledger. A buy whose shares were sold cannot be deleted before
+   * the sale.
+   * @param input - Identifier of the transaction
+   * @returns Promise<LedgerTransaction> - The deleted transaction
+   */
+  async deleteTransaction(input: DeleteTransactionInput): Promise<LedgerTransaction> {
+    return this.ledger.update((document) => {
+      const index = document.transactions.findIndex((transaction) => transaction.id === input.id);
+      if (index < 0) {
+        throw new NotFoundError(`Transaction '${input.id}' not found`);
+      }
+
+      const remaining = document.transactions.filter((_, i) => i !== index);
+      const { invalid } = replayLedger(remaining);
+      if (invalid) {
+        throw new ValidationError(`Transaction '${input.id}' cannot be deleted: ${invalid.reason}`);
+      }
+      const [deleted] = document.transactions.splice(index, 1);
+      return deleted;
+    });
+  }
+
+  /**
+   * Report the open lots of the ledger with their unrealized gains and holding periods
+   * @param input - Optional ticker, and optional date to value the lots at its close instead of
+   * the current quotes
+   * @returns Promise<TaxLotReport> - Lots in acquisition order, positions per ticker and totals
+   */
+  async getTaxLots(input: TaxLotsInput = {}): Promise<TaxLotReport> {
+    const { ticker, asOf } = input;
+    if (asOf) {
+      this.validateLedgerDate(asOf);
+    }
+
+    const { transactions } = await this.ledger.read();
+    const replay = replayLedger(transactions, asOf);
+    if (replay.invalid) {
+      throw new ValidationError(replay.invalid.reason);
+    }
+    const lots = replay.openLots.filter((lot) => !ticker || lot.ticker === ticker);
+    const tickers = [...new Set(lots.map((lot) => lot.ticker))];
+
+    const prices = new Map<string, number>();
+    if (asOf) {
+      for (const lotTicker of tickers) {
+        const close = await this.getLedgerClose(lotTicker, asOf, transactions);
+        if (close !== undefined) prices.set(lotTicker, close);
+      }
+    } else if (tickers.length > 0) {
+      const quotes = await this.getQuotes({ tickers, fields: ['regularMarketPrice'] });
+      for (const quote of quotes) {
+        if (quote.regularMarketPrice !== undefined) {
+          prices.set(quote.symbol, quote.regularMarketPrice);
+        }
+      }
+    }
+
+    return reportTaxLots(lots, prices, asOf ?? format(new Date(), 'yyyy-MM-dd'));
+  }
+
+  /**
+   * Report the realized gains and the dividends of the ledger
+   * @param input - Optional ticker and optional period of the sales and dividends
+   * @returns Promise<RealizedGainsReport> - Gains per lot sold with their holding periods,
+   * dividends and totals
+   */
+  async getRealizedGains(input: RealizedGainsInput = {}): Promise<RealizedGainsReport> {
+    const { ticker, fromDate, toDate } = input;
+    if (fromDate && toDate && fromDate > toDate) {
+      throw new ValidationError('fromDate must be before or equal to toDate.');
+    }
+
+    const { transactions } = await this.ledger.read();
+    const replay = replayLedger(transactions);
+    if (replay.invalid) {
+      throw new ValidationError(replay.invalid.reason);
+    }
+    return reportRealizedGains(
+      replay.realized.filter((gain) => !ticker || gain.ticker === ticker),
+      replay.dividends.filter((dividend) => !ticker || dividend.ticker === ticker),
+      fromDate,
+      toDate
+    );
+  }
+
+  /**
+   * Validates the date of a ledger transaction or report
+   * @param date - Date in 'YYYY-MM-DD' format
+   */
+  private validateLedgerDate(date: string): void {
+    const parsed = parseISO(date);
+    if (!isValid(parsed)) {
+      throw new ValidationError(`Invalid date: ${date}. Use YYYY-MM-DD format.`);
+    }
+    if (isAfter(parsed, startOfToday())) {
+      throw new ValidationError(`Date ${date} is in the future.`);
+    }
+  }
+
+  /**
+   * Fetches the close of a ticker on a date, or on the last trading day before it, per share as
+   * held on that date
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @param date - Date in 'YYYY-MM-DD' format
+   * @param transactions - Ledger transactions, with the splits of the ticker
+   * @returns Promise<number | undefined> - Close, or undefined when there is none in the week
+   * before the date or no history of the ticker, such as a delisted one
+   */
+  private async getLedgerClose(
+    ticker: string,
+    date: string,
+    transactions: LedgerTransaction[]
+  ): Promise<number | undefined> {
+    const fromDate = format(subDays(parseISO(date), 7), 'yyyy-MM-dd');
+    let bars: HistoricalData[];
+    try {
+      // Without fields, bars missing a price such as the still open bar of today are skipped
+      bars = await this.getHistoricalData(ticker, fromDate, date);
+    } catch (error) {
+      // The lots of the ticker are reported at cost, a rate limit is thrown as such
+      if (error instanceof NotFoundError) return undefined;
+      throw error;
+    }
+    const close = bars.at(-1)?.close;
+    if (close === undefined) return undefined;
+
+    // Yahoo Finance adjusts past closes for the splits since, the splits of the ledger after the
+    // date undo it so that the close matches the share count of the lots on that date
+    const laterSplits = transactions
+      .filter(
+        (transaction) =>
+          transaction.type === 'split' && transaction.ticker === ticker && transaction.date > date
+      )
+      .reduce((factor, split) => factor * (split.ratio ?? 1), 1);
+    return round(close * laterSplits, 4);
+  }
+
+  /**
+   * Fetches the daily split/dividend-adjusted closes of a ticker
+   * @param ticker - Stock ticker symbol (e.g., AAPL)
+   * @param fromDate - Start date in 'YYYY-MM-DD' format
+   * @param toDate - End date in 'YYYY-MM-DD' format
+   * @returns Promise<PricePoint[]> - At least 2 closes, oldest first
+   */
+  private async getAdjustedCloses(
+    ticker: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<PricePoint[]> {
+    const history = await this.getHistoricalData(ticker, fromDate, toDate, undefined, {
+      adjusted: true,
+    });
+    if (history.length < 2) {
+      throw new ValidationError(
+        `Not enough price history for ${ticker} between ${fromDate} and ${toDate}.`
+      );
+    }
+    return history.map(({ date, close }) => ({ date, close }));
+  }
+
+  /**
+   * Converts an inclusive end date to the exclusive period2 expected by Yahoo Finance
+   * @param toDate - End date in 'YYYY-MM-DD' format
+   * @returns string - The day after toDate in 'YYYY-MM-DD' format
+   */
+  private toExclusivePeriod2(toDate: string): string {
+    return format(addDays(parseISO(toDate), 1), 'yyyy-MM-dd');
+  }
+
+  /**
+   * Validates the date range for historical data
+   * @param fromDate - Start date
+   * @param toDate - End date
+   * @param interval - Bar interval, used to enforce intraday lookback limits
+   */
+  private validateHistoricalDataDates(
+    fromDate: string,
+    toDate: string,
+    interval: HistoricalInterval = '1d'
+  ): void {
+    const fromDateObj = parseISO(fromDate);
+    const toDateObj = parseISO(toDate);
+    const today = startOfToday();
+
+    if (!isValid(fromDateObj)) {
+      throw new ValidationError(`Invalid fromDate: ${fromDate}. Use YYYY-MM-DD format.`);
+    }
+    if (!isValid(toDateObj)) {
+      throw new ValidationError(`Invalid toDate: ${toDate}. Use YYYY-MM-DD format.`);
+    }
+
+    if (isAfter(fromDateObj, today)) {
+      throw new ValidationError('fromDate cannot be in the future.');
+    }
+
+    if (isAfter(fromDateObj, toDateObj)) {
+      throw new ValidationError('fromDate must be before or equal to toDate.');
+    }
+
+    if (differenceInYears(toDateObj, fromDateObj) > this.maxHistoricalRangeYears) {
+      throw new ValidationError(`Date range cannot exceed ${this.maxHistoricalRangeYears} years.`);
+    }
+
+    const limits = INTRADAY_LIMITS[interval];
+    if (limits && differenceInCalendarDays(today, fromDateObj) > limits.lookbackDays) {
+      throw new ValidationError(
+        `Interval ${interval} is only available for the last ${limits.lookbackDays} days.`
+      );
     }
   }
 }
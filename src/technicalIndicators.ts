@@ -0,0 +1,210 @@
+import type { TechnicalIndicatorSpec } from './types.js';
+
+/**
+ * Series of indicator values aligned with the input prices.
+ * Values are null until the indicator has enough history.
+ */
+export type IndicatorSeries = Array<number | null>;
+
+/**
+ * Simple moving average
+ * @param values - Input prices, oldest first
+ * @param period - Number of values averaged
+ * @returns IndicatorSeries - Moving average, aligned with the input
+ */
+export function sma(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  let sum = 0;
+
+  values.forEach((value, index) => {
+    sum += value;
+    if (index >= period) {
+      sum -= values[index - period];
+    }
+    result.push(index >= period - 1 ? sum / period : null);
+  });
+
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the simple moving average of the first period.
+ * Leading null values are skipped, so the average can be computed over another indicator.
+ * @param values - Input values, oldest first
+ * @param period - Smoothing period
+ * @returns IndicatorSeries - Exponential moving average, aligned with the input
+ */
+export function ema(values: Array<number | null>, period: number): IndicatorSeries {
+  const result: IndicatorSeries = values.map(() => null);
+  const start = values.findIndex((value) => value !== null);
+  if (start === -1) return result;
+
+  const series = values.slice(start) as number[];
+  const seed = sma(series, period)[period - 1];
+  if (seed === undefined || seed === null) return result;
+
+  const k = 2 / (period + 1);
+  let previous = seed;
+  result[start + period - 1] = seed;
+
+  for (let index = period; index < series.length; index++) {
+    previous = (series[index] - previous) * k + previous;
+    result[start + index] = previous;
+  }
+
+  return result;
+}
+
+/**
+ * Relative strength index, using Wilder's smoothing
+ * @param values - Input prices, oldest first
+ * @param period - Smoothing period
+ * @returns IndicatorSeries - RSI between 0 and 100, aligned with the input
+ */
+export function rsi(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  for (let index = 1; index < values.length; index++) {
+    const change = values[index] - values[index - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+
+    if (index <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+
+    if (index >= period) {
+      result[index] = averageLoss === 0 ? 100 : 100 - 100 / (1 + averageGain / averageLoss);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Moving average convergence divergence
+ * @param values - Input prices, oldest first
+ * @param fastPeriod - Period of the fast exponential moving average
+ * @param slowPeriod - Period of the slow exponential moving average
+ * @param signalPeriod - Period of the signal line
+ * @returns MACD line, signal line and histogram, aligned with the input
+ */
+export function macd(
+  values: number[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): { macd: IndicatorSeries; signal: IndicatorSeries; histogram: IndicatorSeries } {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const line = fast.map((value, index) => {
+    const slowValue = slow[index];
+    return value === null || slowValue === null ? null : value - slowValue;
+  });
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, index) => {
+    const signalValue = signal[index];
+    return value === null || signalValue === null ? null : value - signalValue;
+  });
+
+  return { macd: line, signal, histogram };
+}
+
+/**
+ * Bollinger bands around a simple moving average
+ * @param values - Input prices, oldest first
+ * @param period - Number of values in the moving window
+ * @param stdDev - Number of standard deviations between the middle and outer bands
+ * @returns Upper, middle and lower bands, aligned with the input
+ */
+export function bollingerBands(
+  values: number[],
+  period: number,
+  stdDev: number
+): { upper: IndicatorSeries; middle: IndicatorSeries; lower: IndicatorSeries } {
+  const middle = sma(values, period);
+  const upper: IndicatorSeries = [];
+  const lower: IndicatorSeries = [];
+
+  middle.forEach((mean, index) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+
+    const window = values.slice(index - period + 1, index + 1);
+    const deviation = Math.sqrt(
+      window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period
+    );
+    upper.push(mean + stdDev * deviation);
+    lower.push(mean - stdDev * deviation);
+  });
+
+  return { upper, middle, lower };
+}
+
+/**
+ * Number of bars an indicator needs before its first value is reliable.
+ * Exponential averages need several periods to forget their seed.
+ * @param spec - Indicator specification
+ * @returns number - Number of warm-up bars
+ */
+export function warmUpBars(spec: TechnicalIndicatorSpec): number {
+  switch (spec.type) {
+    case 'sma':
+    case 'bollinger':
+      return spec.period;
+    case 'ema':
+    case 'rsi':
+      return spec.period * 3;
+    case 'macd':
+      return spec.slowPeriod * 3 + spec.signalPeriod;
+  }
+}
+
+/**
+ * Computes an indicator over closing prices
+ * @param spec - Indicator specification
+ * @param closes - Closing prices, oldest first
+ * @returns Record<string, IndicatorSeries> - Series keyed by name (e.g., sma_20, macd_signal_12_26_9)
+ */
+export function computeIndicator(
+  spec: TechnicalIndicatorSpec,
+  closes: number[]
+): Record<string, IndicatorSeries> {
+  switch (spec.type) {
+    case 'sma':
+      return { [`sma_${spec.period}`]: sma(closes, spec.period) };
+    case 'ema':
+      return { [`ema_${spec.period}`]: ema(closes, spec.period) };
+    case 'rsi':
+      return { [`rsi_${spec.period}`]: rsi(closes, spec.period) };
+    case 'macd': {
+      const suffix = `${spec.fastPeriod}_${spec.slowPeriod}_${spec.signalPeriod}`;
+      const result = macd(closes, spec.fastPeriod, spec.slowPeriod, spec.signalPeriod);
+      return {
+        [`macd_${suffix}`]: result.macd,
+        [`macd_signal_${suffix}`]: result.signal,
+        [`macd_histogram_${suffix}`]: result.histogram,
+      };
+    }
+    case 'bollinger': {
+      const suffix = `${spec.period}_${spec.stdDev}`;
+      const result = bollingerBands(closes, spec.period, spec.stdDev);
+      return {
+        [`bollinger_upper_${suffix}`]: result.upper,
+        [`bollinger_middle_${suffix}`]: result.middle,
+        [`bollinger_lower_${suffix}`]: result.lower,
+      };
+    }
+  }
+}
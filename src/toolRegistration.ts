@@ -2,10 +2,41 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { logger } from './logger.js';
 import type { StockQuotesService } from './stockQuotesService.js';
 import {
+  AnalystRatingsSchema,
+  CheckAlertsSchema,
+  CompareTickersSchema,
+  CorporateActionsSchema,
+  CreateAlertSchema,
+  CreateWatchlistSchema,
+  CryptoQuoteSchema,
+  DeleteAlertSchema,
+  DeleteTransactionSchema,
+  DividendIncomeSchema,
+  type EarningsReport,
+  EarningsSchema,
+  FundamentalsSchema,
+  FxRateSchema,
   HistoricalDataSchema,
+  ListAlertsSchema,
+  ListTransactionsSchema,
+  ListWatchlistsSchema,
+  MarketMoversSchema,
+  OptionChainSchema,
+  OwnershipSchema,
+  PerformanceStatsSchema,
+  RealizedGainsSchema,
+  RecordTransactionSchema,
+  ResolveIdentifierSchema,
+  ScreenStocksSchema,
+  StockNewsSchema,
   StockQuoteSchema,
   StockQuotesSchema,
   StockSearchSchema,
+  TaxLotsSchema,
+  TechnicalIndicatorsSchema,
+  ValuePortfolioSchema,
+  WatchlistQuotesSchema,
+  WatchlistTickersSchema,
 } from './types.js';
 
 /**
@@ -21,12 +52,30 @@ export function registerToolsOnServer(server: McpServer, stockService: StockQuot
       description:
         'Fetch current stock quote data from Yahoo Finance for a given ticker symbol. ' +
         'Returns price, volume, market cap, P/E ratio, 52-week range, and other key metrics. ' +
-        'Supports stocks, ETFs, cryptocurrencies, and other financial instruments.',
+        'Supports stocks, ETFs, cryptocurrencies, and other financial instruments. ' +
+        'The security can be given by an ISIN, CUSIP or SEDOL in "identifier" instead of a ' +
+        'ticker, it is then quoted under its best matching Yahoo Finance symbol. ' +
+        'Set "targetCurrency" to convert prices to another currency at the latest exchange rate, ' +
+        'which is returned with its timestamp. ' +
+        'Prices quoted in a minor currency unit (e.g., GBp pence for London listings) are ' +
+        'normalized to the major unit; set "includeRawPrices" to also return the quoted prices.',
       inputSchema: StockQuoteSchema,
     },
-    async ({ ticker, fields }) => {
-      logger.info('Fetching stock quote', { ticker, fields });
-      const quote = await stockService.getQuote({ ticker, fields });
+    async ({ ticker, identifier, fields, targetCurrency, includeRawPrices }) => {
+      logger.info('Fetching stock quote', {
+        ticker,
+        identifier,
+        fields,
+        targetCurrency,
+        includeRawPrices,
+      });
+      const quote = await stockService.getQuote({
+        ticker,
+        identifier,
+        fields,
+        targetCurrency,
+        includeRawPrices,
+      });
 
       return {
         content: [
@@ -47,12 +96,26 @@ export function registerToolsOnServer(server: McpServer, stockService: StockQuot
       description:
         'Fetch current stock quote data from Yahoo Finance for multiple ticker symbols in a single request. ' +
         'Returns price, volume, market cap, and other key metrics for each ticker. ' +
-        'Supports stocks, ETFs, cryptocurrencies, and other financial instruments.',
+        'Supports stocks, ETFs, cryptocurrencies, and other financial instruments. ' +
+        'Set "targetCurrency" to convert prices to another currency at the latest exchange rate, ' +
+        'which is returned with its timestamp. ' +
+        'Prices quoted in a minor currency unit (e.g., GBp pence for London listings) are ' +
+        'normalized to the major unit; set "includeRawPrices" to also return the quoted prices.',
       inputSchema: StockQuotesSchema,
     },
-    async ({ tickers, fields }) => {
-      logger.info('Fetching multiple stock quotes', { tickers, fields });
-      const quotes = await stockService.getQuotes({ tickers, fields });
+    async ({ tickers, fields, targetCurrency, includeRawPrices }) => {
+      logger.info('Fetching multiple stock quotes', {
+        tickers,
+        fields,
+        targetCurrency,
+        includeRawPrices,
+      });
+      const quotes = await stockService.getQuotes({
+        tickers,
+        fields,
+        targetCurrency,
+        includeRawPrices,
+      });
 
       return {
         content: [
@@ -72,12 +135,16 @@ export function registerToolsOnServer(server: McpServer, stockService: StockQuot
       title: 'Search Stocks',
       description:
         'Search for stocks by company name or ticker symbol. ' +
-        'Returns matching results with symbol, name, and exchange information.',
+        'Returns matching results with symbol, name, exchange, instrument type (quoteType, e.g., ' +
+        'EQUITY or ETF) and, for equities, sector and industry, so that a fund can be told apart ' +
+        'from the company it tracks. Results can be restricted to an instrument type (equity, ' +
+        'etf, index, crypto, currency, mutualfund) or an exchange, searched in a region, and ' +
+        'limited in number (default: 10).',
       inputSchema: StockSearchSchema,
     },
-    async ({ query }) => {
-      logger.info('Searching stocks', { query });
-      const results = await stockService.search(query);
+    async ({ query, quoteType, exchange, region, limit }) => {
+      logger.info('Searching stocks', { query, quoteType, exchange, region, limit });
+      const results = await stockService.search(query, { quoteType, exchange, region, limit });
 
       return {
         content: [
@@ -97,13 +164,43 @@ export function registerToolsOnServer(server: McpServer, stockService: StockQuot
       title: 'Get Historical Data for a TICKER',
       description:
         'Fetch historical stock data for a given ticker, from a start date to an end date. ' +
-        'Returns an array of historical data points (date, high, low, close, volume). ' +
+        'Returns an array of historical data points (date, open, high, low, close, adjClose, volume). ' +
+        'The "interval" parameter selects intraday (1m, 5m, 15m, 1h), daily, weekly or monthly bars; ' +
+        'intraday dates are ISO timestamps with the exchange time-zone offset. ' +
+        'Set "adjusted" to adjust OHLC prices for splits and dividends. ' +
+        'Set "targetCurrency" to convert prices to another currency at the exchange rate of each ' +
+        'date, returned as fxRate. ' +
+        'Prices quoted in a minor currency unit (e.g., GBp pence for London listings) are ' +
+        'normalized to the major unit; set "includeRawPrices" to also return the quoted prices. ' +
         'The "fields" parameter can be used to filter which data points are returned.',
       inputSchema: HistoricalDataSchema,
     },
-    async ({ ticker, fromDate, toDate, fields }) => {
-      logger.info('Fetching historical data', { ticker, fromDate, toDate, fields });
-      const closingPrices = await stockService.getHistoricalData(ticker, fromDate, toDate, fields);
+    async ({
+      ticker,
+      fromDate,
+      toDate,
+      interval,
+      adjusted,
+      targetCurrency,
+      includeRawPrices,
+      fields,
+    }) => {
+      logger.info('Fetching historical data', {
+        ticker,
+        fromDate,
+        toDate,
+        interval,
+        adjusted,
+        targetCurrency,
+        includeRawPrices,
+        fields,
+      });
+      const closingPrices = await stockService.getHistoricalData(ticker, fromDate, toDate, fields, {
+        interval,
+        adjusted,
+        targetCurrency,
+        includeRawPrices,
+      });
       return {
         content: [
           {
@@ -115,4 +212,891 @@ export function registerToolsOnServer(server: McpServer, stockService: StockQuot
       };
     }
   );
+
+  server.registerTool(
+    'get_corporate_actions',
+    {
+      title: 'Get Corporate Actions for a TICKER',
+      description:
+        'Fetch the dividends and stock splits of a given ticker, from a start date to an end date. ' +
+        'Returns dividend amounts with their ex-dates and split ratios (e.g., 4:1), oldest first.',
+      inputSchema: CorporateActionsSchema,
+    },
+    async ({ ticker, fromDate, toDate }) => {
+      logger.info('Fetching corporate actions', { ticker, fromDate, toDate });
+      const actions = await stockService.getCorporateActions(ticker, fromDate, toDate);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(actions, null, 2),
+          },
+        ],
+        structuredContent: { ...actions },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_technical_indicators',
+    {
+      title: 'Get Technical Indicators for a TICKER',
+      description:
+        'Compute technical indicators (SMA, EMA, RSI, MACD, Bollinger bands) over the daily ' +
+        'split/dividend-adjusted closes of a given ticker, from a start date to an end date. ' +
+        'Earlier history is fetched automatically so every indicator is warmed up at the start date. ' +
+        'Returns one point per trading day with the close and a value per indicator series ' +
+        '(e.g., sma_50, rsi_14, macd_signal_12_26_9).',
+      inputSchema: TechnicalIndicatorsSchema,
+    },
+    async ({ ticker, fromDate, toDate, indicators }) => {
+      logger.info('Computing technical indicators', { ticker, fromDate, toDate, indicators });
+      const result = await stockService.getTechnicalIndicators({
+        ticker,
+        fromDate,
+        toDate,
+        indicators,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: { ...result },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_performance_stats',
+    {
+      title: 'Get Performance Statistics for a TICKER',
+      description:
+        'Compute performance and risk statistics of a given ticker from its daily ' +
+        'split/dividend-adjusted closes, from a start date to an end date. ' +
+        'Returns total and annualized return, annualized volatility, max drawdown with its peak, ' +
+        'trough and recovery dates, Sharpe and Sortino ratios, best and worst days, ' +
+        'and beta against an optional benchmark ticker. Returns and volatility are in percent.',
+      inputSchema: PerformanceStatsSchema,
+    },
+    async ({ ticker, fromDate, toDate, benchmark, riskFreeRate }) => {
+      logger.info('Computing performance statistics', {
+        ticker,
+        fromDate,
+        toDate,
+        benchmark,
+        riskFreeRate,
+      });
+      const stats = await stockService.getPerformanceStats({
+        ticker,
+        fromDate,
+        toDate,
+        benchmark,
+        riskFreeRate,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(stats, null, 2),
+          },
+        ],
+        structuredContent: { ...stats },
+      };
+    }
+  );
+
+  server.registerTool(
+    'compare_tickers',
+    {
+      title: 'Compare Multiple Tickers',
+      description:
+        'Compare 2 to 10 tickers over the same period using their daily split/dividend-adjusted closes. ' +
+        'Returns prices rebased to 100 at the common start date, a relative performance table ' +
+        '(total and annualized return, volatility, max drawdown, rank) and a correlation matrix of ' +
+        'daily returns. Tickers trading on different exchange calendars are aligned automatically.',
+      inputSchema: CompareTickersSchema,
+    },
+    async ({ tickers, fromDate, toDate }) => {
+      logger.info('Comparing tickers', { tickers, fromDate, toDate });
+      const comparison = await stockService.compareTickers({ tickers, fromDate, toDate });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(comparison, null, 2),
+          },
+        ],
+        structuredContent: { ...comparison },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_fundamentals',
+    {
+      title: 'Get Company Fundamentals',
+      description:
+        'Fetch company fundamentals from Yahoo Finance: financial data (analyst price targets, margins, ' +
+        'cash, debt, growth), key statistics (enterprise value, valuation ratios, shares, short interest) ' +
+        'and income statement, balance sheet and cash flow history, either annual or quarterly. ' +
+        'Select modules to limit the response; statements are sorted oldest first.',
+      inputSchema: FundamentalsSchema,
+    },
+    async ({ ticker, modules, period }) => {
+      logger.info('Fetching fundamentals', { ticker, modules, period });
+      const fundamentals = await stockService.getFundamentals({ ticker, modules, period });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(fundamentals, null, 2),
+          },
+        ],
+        structuredContent: { ...fundamentals },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_option_chain',
+    {
+      title: 'Get Option Chain',
+      description:
+        'Fetch the option chain of a ticker from Yahoo Finance for one expiration (default: nearest). ' +
+        'Returns calls and puts with strike, last price, bid/ask, volume, open interest, implied ' +
+        'volatility and moneyness (strike / underlying price), plus all available expiration dates. ' +
+        'Filter by contract type and by a moneyness range (e.g., 0.9 to 1.1 for strikes within 10%).',
+      inputSchema: OptionChainSchema,
+    },
+    async ({ ticker, expiration, optionType, minMoneyness, maxMoneyness }) => {
+      logger.info('Fetching option chain', {
+        ticker,
+        expiration,
+        optionType,
+        minMoneyness,
+        maxMoneyness,
+      });
+      const chain = await stockService.getOptionChain({
+        ticker,
+        expiration,
+        optionType,
+        minMoneyness,
+        maxMoneyness,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(chain, null, 2),
+          },
+        ],
+        structuredContent: { ...chain },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_earnings',
+    {
+      title: 'Get Earnings',
+      description:
+        'Fetch earnings data from Yahoo Finance for one or more tickers: the date window of the next ' +
+        'earnings report with consensus EPS and revenue estimates, reported vs. estimated EPS with ' +
+        'surprise percent for recent quarters, and EPS and revenue estimates for the current and ' +
+        'next quarters and years. Set upcomingWithinDays to instead list only the tickers reporting ' +
+        'within that many days, soonest first.',
+      inputSchema: EarningsSchema,
+    },
+    async ({ tickers, upcomingWithinDays }) => {
+      logger.info('Fetching earnings', { tickers, upcomingWithinDays });
+
+      if (upcomingWithinDays !== undefined) {
+        const calendar = await stockService.getUpcomingEarnings(tickers, upcomingWithinDays);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(calendar, null, 2),
+            },
+          ],
+          structuredContent: { ...calendar },
+        };
+      }
+
+      const earnings: EarningsReport[] = [];
+      for (const ticker of new Set(tickers)) {
+        earnings.push(await stockService.getEarnings(ticker));
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(earnings, null, 2),
+          },
+        ],
+        structuredContent: { earnings },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_stock_news',
+    {
+      title: 'Get Stock News',
+      description:
+        'Fetch recent news headlines from Yahoo Finance for a ticker symbol or a free-text query. ' +
+        'Returns headline, publisher, publish time, link and related tickers, newest first, ' +
+        'without duplicate stories. Set onlyNew to skip headlines already returned for the same ' +
+        'query by earlier calls, of any client of this server.',
+      inputSchema: StockNewsSchema,
+    },
+    async ({ query, count, onlyNew }) => {
+      logger.info('Fetching stock news', { query, count, onlyNew });
+      const news = await stockService.getNews({ query, count, onlyNew });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(news, null, 2),
+          },
+        ],
+        structuredContent: { ...news },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_analyst_ratings',
+    {
+      title: 'Get Analyst Ratings',
+      description:
+        'Fetch analyst ratings from Yahoo Finance for a ticker: the consensus rating and score ' +
+        '(1 = strong buy to 5 = strong sell), low/mean/median/high price targets with their upside ' +
+        'relative to the current price in percent, and the number of strong buy, buy, hold, sell ' +
+        'and strong sell recommendations for each of the last months.',
+      inputSchema: AnalystRatingsSchema,
+    },
+    async ({ ticker }) => {
+      logger.info('Fetching analyst ratings', { ticker });
+      const ratings = await stockService.getAnalystRatings(ticker);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(ratings, null, 2),
+          },
+        ],
+        structuredContent: { ...ratings },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_ownership',
+    {
+      title: 'Get Ownership',
+      description:
+        'Fetch the ownership of a stock from Yahoo Finance: percent held by insiders and ' +
+        'institutions, the number of institutions, the top institutional and mutual fund holders ' +
+        'with their position, value and change, and recent insider transactions with date, insider, ' +
+        'relation, shares and value.',
+      inputSchema: OwnershipSchema,
+    },
+    async ({ ticker, transactionLimit }) => {
+      logger.info('Fetching ownership', { ticker, transactionLimit });
+      const ownership = await stockService.getOwnership({ ticker, transactionLimit });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(ownership, null, 2),
+          },
+        ],
+        structuredContent: { ...ownership },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_fx_rate',
+    {
+      title: 'Get FX Rate',
+      description:
+        'Fetch the exchange rate of a currency pair written naturally (e.g., EUR/USD, EURUSD, ' +
+        '"EUR to JPY"), the price of one unit of the first currency in the second one. ' +
+        'Pairs Yahoo Finance does not quote directly are computed as a cross rate through a pivot ' +
+        'currency (default: USD). Returns the rate with its timestamp and the Yahoo symbols used; ' +
+        'set "fromDate" to also return daily closing rates.',
+      inputSchema: FxRateSchema,
+    },
+    async ({ pair, pivotCurrency, fromDate, toDate }) => {
+      logger.info('Fetching FX rate', { pair, pivotCurrency, fromDate, toDate });
+      const rate = await stockService.getFxRate({ pair, pivotCurrency, fromDate, toDate });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(rate, null, 2),
+          },
+        ],
+        structuredContent: { ...rate },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_crypto_quote',
+    {
+      title: 'Get Crypto Quote',
+      description:
+        'Fetch the price of a cryptocurrency written naturally (e.g., BTC, ETH/EUR, "BTC in EUR"), ' +
+        'in USD unless another currency is given. Currencies Yahoo Finance does not quote the ' +
+        'cryptocurrency in are reached through a pivot currency (default: USD). Returns the price ' +
+        'with its timestamp, the change of the day in percent and the market cap; set "fromDate" ' +
+        'to also return daily closing prices.',
+      inputSchema: CryptoQuoteSchema,
+    },
+    async ({ pair, pivotCurrency, fromDate, toDate }) => {
+      logger.info('Fetching crypto quote', { pair, pivotCurrency, fromDate, toDate });
+      const quote = await stockService.getCryptoQuote({ pair, pivotCurrency, fromDate, toDate });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(quote, null, 2),
+          },
+        ],
+        structuredContent: { ...quote },
+      };
+    }
+  );
+
+  server.registerTool(
+    'screen_stocks',
+    {
+      title: 'Screen Stocks',
+      description:
+        'Discover stocks with a predefined Yahoo Finance screener (e.g., day_gainers, day_losers, ' +
+        'most_actives, undervalued_large_caps), optionally filtered by custom criteria: sector, ' +
+        'market cap range, trailing P/E range, minimum dividend yield in percent and exchange. ' +
+        'Criteria are applied to the first 250 results of the screener (default: most_actives) ' +
+        'in the given region (default: US). A sector filter looks up the profile of at most ' +
+        'twice as many results as the requested count, and sets partial when it stops early. ' +
+        'Returns the key quote fields of each matching stock.',
+      inputSchema: ScreenStocksSchema,
+    },
+    async ({
+      screener,
+      sector,
+      minMarketCap,
+      maxMarketCap,
+      minPE,
+      maxPE,
+      minDividendYield,
+      exchange,
+      region,
+      count,
+    }) => {
+      const input = {
+        screener,
+        sector,
+        minMarketCap,
+        maxMarketCap,
+        minPE,
+        maxPE,
+        minDividendYield,
+        exchange,
+        region,
+        count,
+      };
+      logger.info('Screening stocks', input);
+      const result = await stockService.screenStocks(input);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: { ...result },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_market_movers',
+    {
+      title: 'Get Market Movers',
+      description:
+        'Get what is moving the market in a region (default: US): trending tickers, top gainers, ' +
+        'top losers and most active stocks of the day. Select lists with "lists" (default: all) ' +
+        'and the number of tickers per list with "count" (default: 10). Each ticker comes with ' +
+        'its price, change, volume and market cap. Lists Yahoo Finance does not provide for the ' +
+        'region are named in "unavailable".',
+      inputSchema: MarketMoversSchema,
+    },
+    async ({ region, lists, count }) => {
+      logger.info('Fetching market movers', { region, lists, count });
+      const movers = await stockService.getMarketMovers({ region, lists, count });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(movers, null, 2),
+          },
+        ],
+        structuredContent: { ...movers },
+      };
+    }
+  );
+
+  server.registerTool(
+    'resolve_identifier',
+    {
+      title: 'Resolve Security Identifier',
+      description:
+        'Resolve an ISIN, CUSIP or SEDOL (e.g., US0378331005, 037833100, 2046251) to Yahoo ' +
+        'Finance ticker symbols. The check digit is verified before any lookup. Returns the best ' +
+        'matching symbol and every listing found, with name, exchange and instrument type.',
+      inputSchema: ResolveIdentifierSchema,
+    },
+    async ({ identifier }) => {
+      logger.info('Resolving identifier', { identifier });
+      const resolved = await stockService.resolveIdentifier(identifier);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(resolved, null, 2),
+          },
+        ],
+        structuredContent: { ...resolved },
+      };
+    }
+  );
+
+  server.registerTool(
+    'value_portfolio',
+    {
+      title: 'Value Portfolio',
+      description:
+        'Value a portfolio of holdings in a base currency (default: USD). Each position has a ' +
+        'ticker, a quantity and optionally its average cost per share and the currency of that ' +
+        'cost (default: the listing currency). Quotes are fetched in one batch and converted at ' +
+        'the latest exchange rates, costs too. Returns the market value, unrealized P&L, day ' +
+        'change and weight of each position and in total, with a currency breakdown. With ' +
+        '"includeSectors" the portfolio is broken down by sector too, at the cost of one ' +
+        'profile lookup per equity.',
+      inputSchema: ValuePortfolioSchema,
+    },
+    async ({ positions, baseCurrency, includeSectors }) => {
+      logger.info('Valuing portfolio', {
+        positions: positions.length,
+        baseCurrency,
+        includeSectors,
+      });
+      const valuation = await stockService.valuePortfolio({
+        positions,
+        baseCurrency,
+        includeSectors,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(valuation, null, 2),
+          },
+        ],
+        structuredContent: { ...valuation },
+      };
+    }
+  );
+
+  server.registerTool(
+    'create_watchlist',
+    {
+      title: 'Create Watchlist',
+      description:
+        'Create a named watchlist of tickers, stored across conversations. ' +
+        'Names are unique, ignoring case. Returns the new watchlist.',
+      inputSchema: CreateWatchlistSchema,
+    },
+    async ({ name, tickers }) => {
+      logger.info('Creating watchlist', { name, tickers });
+      const watchlist = await stockService.createWatchlist({ name, tickers });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(watchlist, null, 2),
+          },
+        ],
+        structuredContent: { ...watchlist },
+      };
+    }
+  );
+
+  server.registerTool(
+    'add_to_watchlist',
+    {
+      title: 'Add to Watchlist',
+      description:
+        'Add tickers to a watchlist. Tickers already in the watchlist are kept once. ' +
+        'Returns the updated watchlist.',
+      inputSchema: WatchlistTickersSchema,
+    },
+    async ({ name, tickers }) => {
+      logger.info('Adding to watchlist', { name, tickers });
+      const watchlist = await stockService.addToWatchlist({ name, tickers });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(watchlist, null, 2),
+          },
+        ],
+        structuredContent: { ...watchlist },
+      };
+    }
+  );
+
+  server.registerTool(
+    'remove_from_watchlist',
+    {
+      title: 'Remove from Watchlist',
+      description:
+        'Remove tickers from a watchlist. Tickers not in the watchlist are ignored. ' +
+        'Returns the updated watchlist.',
+      inputSchema: WatchlistTickersSchema,
+    },
+    async ({ name, tickers }) => {
+      logger.info('Removing from watchlist', { name, tickers });
+      const watchlist = await stockService.removeFromWatchlist({ name, tickers });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(watchlist, null, 2),
+          },
+        ],
+        structuredContent: { ...watchlist },
+      };
+    }
+  );
+
+  server.registerTool(
+    'list_watchlists',
+    {
+      title: 'List Watchlists',
+      description: 'List the stored watchlists with their tickers, sorted by name.',
+      inputSchema: ListWatchlistsSchema,
+    },
+    async () => {
+      logger.info('Listing watchlists');
+      const watchlists = await stockService.listWatchlists();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(watchlists, null, 2),
+          },
+        ],
+        structuredContent: { watchlists },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_watchlist_quotes',
+    {
+      title: 'Get Watchlist Quotes',
+      description:
+        'Fetch the current quotes of every ticker of a watchlist in a single request, in the ' +
+        'order of the watchlist. The "fields" parameter can be used to filter the returned ' +
+        'fields, and "targetCurrency" to convert prices to another currency.',
+      inputSchema: WatchlistQuotesSchema,
+    },
+    async ({ name, fields, targetCurrency }) => {
+      logger.info('Fetching watchlist quotes', { name, fields, targetCurrency });
+      const watchlistQuotes = await stockService.getWatchlistQuotes({
+        name,
+        fields,
+        targetCurrency,
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(watchlistQuotes, null, 2),
+          },
+        ],
+        structuredContent: { ...watchlistQuotes },
+      };
+    }
+  );
+
+  server.registerTool(
+    'create_alert',
+    {
+      title: 'Create Price Alert',
+      description:
+        'Create a price alert on a ticker: price above or below a price, day move of a percent ' +
+        'in either direction, crossing above or below the 50-day or 200-day moving average, or ' +
+        'volume spike against the 10-day average volume. Alerts are stored across restarts and ' +
+        'checked periodically by the server; a triggered alert is sent once as an MCP logging ' +
+        'notification and to the configured webhook, then stays triggered.',
+      inputSchema: CreateAlertSchema,
+    },
+    async ({ ticker, condition, threshold, average, note }) => {
+      logger.info('Creating price alert', { ticker, condition, threshold, average });
+      const alert = await stockService.createAlert({ ticker, condition, threshold, average, note });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(alert, null, 2),
+          },
+        ],
+        structuredContent: { ...alert },
+      };
+    }
+  );
+
+  server.registerTool(
+    'list_alerts',
+    {
+      title: 'List Price Alerts',
+      description:
+        'List the stored price alerts in the order they were created, optionally only the ' +
+        'active or the triggered ones. Triggered alerts include when and at which price they ' +
+        'triggered.',
+      inputSchema: ListAlertsSchema,
+    },
+    async ({ status }) => {
+      logger.info('Listing price alerts', { status });
+      const alerts = await stockService.listAlerts({ status });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(alerts, null, 2),
+          },
+        ],
+        structuredContent: { alerts },
+      };
+    }
+  );
+
+  server.registerTool(
+    'delete_alert',
+    {
+      title: 'Delete Price Alert',
+      description: 'Delete a price alert by its identifier.',
+      inputSchema: DeleteAlertSchema,
+    },
+    async ({ id }) => {
+      logger.info('Deleting price alert', { id });
+      const alert = await stockService.deleteAlert({ id });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(alert, null, 2),
+          },
+        ],
+        structuredContent: { ...alert },
+      };
+    }
+  );
+
+  server.registerTool(
+    'check_alerts',
+    {
+      title: 'Check Price Alerts',
+      description:
+        'Check the active price alerts against the current quotes now instead of waiting for ' +
+        'the next periodic check, and return the alerts that triggered. Alerts triggered here ' +
+        'are delivered to the MCP client and the webhook by the next periodic check.',
+      inputSchema: CheckAlertsSchema,
+    },
+    async () => {
+      logger.info('Checking price alerts');
+      const check = await stockService.checkAlerts();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(check, null, 2),
+          },
+        ],
+        structuredContent: { ...check },
+      };
+    }
+  );
+
+  server.registerTool(
+    'record_transaction',
+    {
+      title: 'Record Transaction',
+      description:
+        'Record a buy, sell, dividend or split in the transaction ledger, stored across ' +
+        'restarts. Each buy opens a tax lot identified by the buy transaction id. Sells take ' +
+        'their shares from the open lots first in first out (fifo), last in first out (lifo) or ' +
+        'from the lots given in "lots" (specific); splits adjust the share count and cost per ' +
+        'share of the open lots. A transaction the ledger cannot apply, such as a sale of more ' +
+        'shares than are held at its date, is rejected.',
+      inputSchema: RecordTransactionSchema,
+    },
+    async (input) => {
+      logger.info('Recording ledger transaction', {
+        type: input.type,
+        ticker: input.ticker,
+        date: input.date,
+      });
+      const transaction = await stockService.recordTransaction(input);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+        structuredContent: { ...transaction },
+      };
+    }
+  );
+
+  server.registerTool(
+    'list_transactions',
+    {
+      title: 'List Transactions',
+      description:
+        'List the transactions of the ledger by date, optionally for a single ticker. Buy ' +
+        'transaction ids are the lot ids used by specific lot sales.',
+      inputSchema: ListTransactionsSchema,
+    },
+    async ({ ticker }) => {
+      logger.info('Listing ledger transactions', { ticker });
+      const transactions = await stockService.listTransactions({ ticker });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(transactions, null, 2),
+          },
+        ],
+        structuredContent: { transactions },
+      };
+    }
+  );
+
+  server.registerTool(
+    'delete_transaction',
+    {
+      title: 'Delete Transaction',
+      description:
+        'Delete a transaction from the ledger by its id. A buy whose shares were sold cannot ' +
+        'be deleted before the sale.',
+      inputSchema: DeleteTransactionSchema,
+    },
+    async ({ id }) => {
+      logger.info('Deleting ledger transaction', { id });
+      const transaction = await stockService.deleteTransaction({ id });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(transaction, null, 2),
+          },
+        ],
+        structuredContent: { ...transaction },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_tax_lots',
+    {
+      title: 'Get Tax Lots',
+      description:
+        'Report the open tax lots of the ledger with their cost basis, market value, ' +
+        'unrealized gain and holding period (long term after more than a year), per lot, per ' +
+        'ticker and in total. Lots are valued at the current quotes, or at the close of "asOf" ' +
+        'to report the lots held on a past date. Lots without a price, such as those of ' +
+        'delisted tickers, are reported at cost.',
+      inputSchema: TaxLotsSchema,
+    },
+    async ({ ticker, asOf }) => {
+      logger.info('Fetching tax lots', { ticker, asOf });
+      const report = await stockService.getTaxLots({ ticker, asOf });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+        structuredContent: { ...report },
+      };
+    }
+  );
+
+  server.registerTool(
+    'get_realized_gains',
+    {
+      title: 'Get Realized Gains',
+      description:
+        'Report the realized gains of the ledger sales per lot sold, with proceeds, cost basis, ' +
+        'holding period and short or long term, and the dividends received, optionally for a ' +
+        'ticker and a period of sale dates (e.g., a tax year).',
+      inputSchema: RealizedGainsSchema,
+    },
+    async ({ ticker, fromDate, toDate }) => {
+      logger.info('Fetching realized gains', { ticker, fromDate, toDate });
+      const report = await stockService.getRealizedGains({ ticker, fromDate, toDate });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+        structuredContent: { ...report },
+      };
+    }
+  );
+
+  server.registerTool(
+    'project_dividend_income',
+    {
+      title: 'Project Dividend Income',
+      description:
+        'Project the dividend income of holdings over the next 12 months: expected annual and ' +
+        'monthly income per ticker and per currency, the months the payments are expected in, ' +
+        'the next expected ex-date and payment of each holding, dividend yield and yield on ' +
+        'cost. The annual dividend is the median dividend of the last year at the payment ' +
+        'frequency observed over the last two years, so a special dividend is ignored. Holdings ' +
+        'without a recent dividend history fall back to the trailing annual dividend rate or ' +
+        'the dividend yield of the quote. Amounts are in the listing currency of each holding.',
+      inputSchema: DividendIncomeSchema,
+    },
+    async ({ holdings }) => {
+      logger.info('Projecting dividend income', {
+        tickers: holdings.map((holding) => holding.ticker),
+      });
+      const projection = await stockService.projectDividendIncome({ holdings });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(projection, null, 2),
+          },
+        ],
+        structuredContent: { ...projection },
+      };
+    }
+  );
 }
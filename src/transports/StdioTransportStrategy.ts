@@ -19,10 +19,11 @@ export class StdioTransportStrategy implements TransportStrategy {
    * @param stockService - Stock quotes service instance
    */
   constructor(serverName: string, serverVersion: string, stockService: StockQuotesService) {
-    this.server = new McpServer({
-      name: serverName,
-      version: serverVersion,
-    });
+    // Logging is declared so that triggered price alerts can be sent as logging notifications
+    this.server = new McpServer(
+      { name: serverName, version: serverVersion },
+      { capabilities: { logging: {} } }
+    );
     registerToolsOnServer(this.server, stockService);
   }
 
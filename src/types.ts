@@ -7,8 +7,28 @@ export const StockQuoteSchema = z.object({
     .min(1)
     .max(10)
     .toUpperCase()
-    .describe('Stock ticker symbol (e.g., AAPL, GOOGL, MSFT)'),
+    .optional()
+    .describe('Stock ticker symbol (e.g., AAPL, GOOGL, MSFT), required unless identifier is set'),
+  identifier: z
+    .string()
+    .min(1)
+    .max(20)
+    .optional()
+    .describe('ISIN, CUSIP or SEDOL of the security (e.g., US0378331005), instead of a ticker'),
   fields: z.array(z.string()).optional().describe('Optional list of specific fields to return'),
+  targetCurrency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .toUpperCase()
+    .optional()
+    .describe('Optional ISO 4217 currency code (e.g., EUR) to convert prices to'),
+  includeRawPrices: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional flag to also return the prices quoted in a minor currency unit, such as GBp ' +
+        '(pence) or ILA (agorot), which are otherwise normalized to the major unit (GBP, ILS)'
+    ),
 });
 
 // Schema for multiple stock quotes tool input
@@ -25,13 +45,61 @@ export const StockQuotesSchema = z.object({
     .min(1)
     .describe('List of stock ticker symbols'),
   fields: z.array(z.string()).optional().describe('Optional list of specific fields to return'),
+  targetCurrency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .toUpperCase()
+    .optional()
+    .describe('Optional ISO 4217 currency code (e.g., EUR) to convert prices to'),
+  includeRawPrices: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional flag to also return the prices quoted in a minor currency unit, such as GBp ' +
+        '(pence) or ILA (agorot), which are otherwise normalized to the major unit (GBP, ILS)'
+    ),
 });
 
+// Instrument types the search tool can be restricted to
+export const SearchQuoteTypes = [
+  'equity',
+  'etf',
+  'index',
+  'crypto',
+  'currency',
+  'mutualfund',
+] as const;
+
 // Schema for stock search tool input
 export const StockSearchSchema = z.object({
   query: z.string().min(1).describe('Search query (company name or ticker)'),
+  quoteType: z
+    .enum(SearchQuoteTypes)
+    .optional()
+    .describe('Optional instrument type to return. Available: ' + SearchQuoteTypes.join(', ')),
+  exchange: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Optional exchange code or name to return (e.g., NMS, NASDAQ, LSE)'),
+  region: z
+    .string()
+    .regex(/^[A-Za-z]{2}$/)
+    .toUpperCase()
+    .optional()
+    .describe('Optional region code to search in (e.g., US, GB, DE; default: US)'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(25)
+    .optional()
+    .describe('Optional maximum number of results (default: 10)'),
 });
 
+// Bar intervals supported by the historical data tool
+export const HistoricalIntervals = ['1m', '5m', '15m', '1h', '1d', '1wk', '1mo'] as const;
+
 // Schema for historical data tool input
 export const HistoricalDataSchema = z.object({
   ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
@@ -43,19 +111,713 @@ export const HistoricalDataSchema = z.object({
     .string()
     .regex(/^\d{4}-\d{2}-\d{2}$/)
     .describe('End date in YYYY-MM-DD format'),
+  interval: z
+    .enum(HistoricalIntervals)
+    .optional()
+    .describe(
+      'Optional bar interval (default: 1d). Intraday intervals are limited in lookback: ' +
+        '1m (last 30 days), 5m and 15m (last 60 days), 1h (last 730 days)'
+    ),
+  adjusted: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional flag to adjust open, high, low and close for splits and dividends (default: false)'
+    ),
   fields: z
     .array(z.string())
     .optional()
     .describe(
-      'Optional list of specific fields to return. Valid fields: date, high, low, close, volume'
+      'Optional list of specific fields to return. ' +
+        'Valid fields: date, open, high, low, close, adjClose, volume'
+    ),
+  targetCurrency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .toUpperCase()
+    .optional()
+    .describe(
+      'Optional ISO 4217 currency code (e.g., EUR) to convert prices to, ' +
+        'using the exchange rate of each date'
+    ),
+  includeRawPrices: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional flag to also return the prices quoted in a minor currency unit, such as GBp ' +
+        '(pence) or ILA (agorot), which are otherwise normalized to the major unit (GBP, ILS)'
+    ),
+});
+
+// Schema for corporate actions tool input
+export const CorporateActionsSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+  fromDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Start date in YYYY-MM-DD format'),
+  toDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('End date in YYYY-MM-DD format'),
+});
+
+// Schema for a technical indicator specification
+export const TechnicalIndicatorSpecSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('sma'),
+    period: z.number().int().min(1).max(500).default(20).describe('Period (default: 20)'),
+  }),
+  z.object({
+    type: z.literal('ema'),
+    period: z.number().int().min(1).max(500).default(20).describe('Period (default: 20)'),
+  }),
+  z.object({
+    type: z.literal('rsi'),
+    period: z.number().int().min(2).max(100).default(14).describe('Period (default: 14)'),
+  }),
+  z.object({
+    type: z.literal('macd'),
+    fastPeriod: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(12)
+      .describe('Fast EMA period (default: 12)'),
+    slowPeriod: z
+      .number()
+      .int()
+      .min(2)
+      .max(200)
+      .default(26)
+      .describe('Slow EMA period (default: 26)'),
+    signalPeriod: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(9)
+      .describe('Signal line period (default: 9)'),
+  }),
+  z.object({
+    type: z.literal('bollinger'),
+    period: z.number().int().min(2).max(500).default(20).describe('Period (default: 20)'),
+    stdDev: z
+      .number()
+      .positive()
+      .max(10)
+      .default(2)
+      .describe('Standard deviations between the middle and outer bands (default: 2)'),
+  }),
+]);
+
+// Schema for technical indicators tool input
+export const TechnicalIndicatorsSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+  fromDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Start date in YYYY-MM-DD format'),
+  toDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('End date in YYYY-MM-DD format'),
+  indicators: z
+    .array(TechnicalIndicatorSpecSchema)
+    .min(1)
+    .max(10)
+    .describe(
+      'Indicators to compute, e.g. [{"type": "sma", "period": 50}, {"type": "rsi"}]. ' +
+        'Types: sma, ema, rsi, macd, bollinger'
+    ),
+});
+
+// Schema for performance statistics tool input
+export const PerformanceStatsSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+  fromDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Start date in YYYY-MM-DD format'),
+  toDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('End date in YYYY-MM-DD format'),
+  benchmark: z
+    .string()
+    .min(1)
+    .max(10)
+    .toUpperCase()
+    .optional()
+    .describe('Optional benchmark ticker used to compute beta (e.g., SPY, ^GSPC)'),
+  riskFreeRate: z
+    .number()
+    .min(-10)
+    .max(100)
+    .optional()
+    .describe('Optional annual risk-free rate in percent for Sharpe and Sortino (default: 0)'),
+});
+
+// Schema for ticker comparison tool input
+export const CompareTickersSchema = z.object({
+  tickers: z
+    .array(
+      z
+        .string()
+        .min(1)
+        .max(10)
+        .toUpperCase()
+        .describe('Stock ticker symbol (e.g., AAPL, MSFT, QQQ)')
+    )
+    .min(2)
+    .max(10)
+    .describe('List of 2 to 10 ticker symbols to compare'),
+  fromDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Start date in YYYY-MM-DD format'),
+  toDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('End date in YYYY-MM-DD format'),
+});
+
+// Modules available through the fundamentals tool, the statements come from the fundamentals
+// timeseries as the statement modules of quoteSummary are no longer filled by Yahoo
+export const FundamentalsModules = [
+  'financialData',
+  'incomeStatementHistory',
+  'balanceSheetHistory',
+  'cashflowStatementHistory',
+  'defaultKeyStatistics',
+] as const;
+
+// Schema for fundamentals tool input
+export const FundamentalsSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+  modules: z
+    .array(z.enum(FundamentalsModules))
+    .min(1)
+    .optional()
+    .describe(
+      'Optional list of modules to return (default: all). Available: ' +
+        FundamentalsModules.join(', ')
+    ),
+  period: z
+    .enum(['annual', 'quarterly'])
+    .optional()
+    .describe('Optional period of the financial statements (default: annual)'),
+});
+
+// Schema for option chain tool input
+export const OptionChainSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Underlying ticker symbol (e.g., AAPL)'),
+  expiration: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe('Optional expiration date in YYYY-MM-DD format (default: nearest expiration)'),
+  optionType: z
+    .enum(['call', 'put'])
+    .optional()
+    .describe('Optional contract type to return (default: both calls and puts)'),
+  minMoneyness: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Optional minimum moneyness, the strike divided by the underlying price (e.g., 0.9)'),
+  maxMoneyness: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Optional maximum moneyness, the strike divided by the underlying price (e.g., 1.1)'),
+});
+
+// Schema for earnings tool input
+export const EarningsSchema = z.object({
+  tickers: z
+    .array(z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'))
+    .min(1)
+    .max(25)
+    .describe('List of 1 to 25 ticker symbols'),
+  upcomingWithinDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(90)
+    .optional()
+    .describe(
+      'Optional number of days: when set, only lists the tickers reporting earnings within ' +
+        'this many days, soonest first, instead of the full earnings details'
+    ),
+});
+
+// Schema for stock news tool input
+export const StockNewsSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .max(100)
+    .describe('Ticker symbol (e.g., AAPL) or free-text query (e.g., "semiconductor tariffs")'),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Optional maximum number of headlines to return (default: 10)'),
+  onlyNew: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional flag to skip headlines already returned for the same query by earlier calls, ' +
+        'of any client of this server (default: false)'
+    ),
+});
+
+// Schema for analyst ratings tool input
+export const AnalystRatingsSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+});
+
+// Schema for ownership tool input
+export const OwnershipSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+  transactionLimit: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Optional maximum number of insider transactions to return (default: 20)'),
+});
+
+// Optional settings shared by the FX rate and crypto quote tools
+const RatePairOptions = {
+  pivotCurrency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .toUpperCase()
+    .optional()
+    .describe(
+      'Optional ISO 4217 currency code used to compute a cross rate when Yahoo Finance does not ' +
+        'quote the pair directly (default: USD)'
+    ),
+  fromDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe('Optional start date in YYYY-MM-DD format, to also return daily closing rates'),
+  toDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional()
+    .describe(
+      'Optional end date in YYYY-MM-DD format for the daily closing rates (default: today)'
+    ),
+};
+
+// Schema for FX rate tool input
+export const FxRateSchema = z.object({
+  pair: z
+    .string()
+    .min(3)
+    .max(30)
+    .describe('Currency pair, e.g., EUR/USD, EURUSD, "EUR to JPY" or "GBP in CHF"'),
+  ...RatePairOptions,
+});
+
+// Schema for crypto quote tool input
+export const CryptoQuoteSchema = z.object({
+  pair: z
+    .string()
+    .min(2)
+    .max(30)
+    .describe(
+      'Cryptocurrency, optionally with the currency to quote it in, e.g., BTC, ETH/EUR or ' +
+        '"BTC in EUR" (default currency: USD)'
+    ),
+  ...RatePairOptions,
+});
+
+// Predefined Yahoo Finance screeners
+export const PredefinedScreeners = [
+  'day_gainers',
+  'day_losers',
+  'most_actives',
+  'most_shorted_stocks',
+  'aggressive_small_caps',
+  'small_cap_gainers',
+  'growth_technology_stocks',
+  'undervalued_growth_stocks',
+  'undervalued_large_caps',
+  'portfolio_anchors',
+  'high_yield_bond',
+  'top_mutual_funds',
+  'solid_large_growth_funds',
+  'solid_midcap_growth_funds',
+  'conservative_foreign_funds',
+] as const;
+
+// Schema for stock screener tool input
+export const ScreenStocksSchema = z.object({
+  screener: z
+    .enum(PredefinedScreeners)
+    .optional()
+    .describe(
+      'Optional predefined Yahoo Finance screener (default: most_actives), the criteria below ' +
+        'filter its results'
+    ),
+  sector: z
+    .string()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Optional sector (e.g., Technology, Healthcare, Financial Services)'),
+  minMarketCap: z.number().min(0).optional().describe('Optional minimum market capitalization'),
+  maxMarketCap: z.number().min(0).optional().describe('Optional maximum market capitalization'),
+  minPE: z.number().optional().describe('Optional minimum trailing P/E ratio'),
+  maxPE: z.number().optional().describe('Optional maximum trailing P/E ratio'),
+  minDividendYield: z
+    .number()
+    .min(0)
+    .optional()
+    .describe('Optional minimum dividend yield in percent (e.g., 2 for 2%)'),
+  exchange: z
+    .string()
+    .min(1)
+    .max(30)
+    .optional()
+    .describe('Optional exchange code or name (e.g., NMS, NYQ, NasdaqGS)'),
+  region: z
+    .string()
+    .regex(/^[A-Za-z]{2}$/)
+    .toUpperCase()
+    .optional()
+    .describe('Optional region code of the listings to screen (e.g., US, GB, DE; default: US)'),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Optional maximum number of stocks to return (default: 25)'),
+});
+
+// Lists returned by the market movers tool
+export const MarketMoverLists = ['trending', 'gainers', 'losers', 'mostActive'] as const;
+
+// Schema for market movers tool input
+export const MarketMoversSchema = z.object({
+  region: z
+    .string()
+    .regex(/^[A-Za-z]{2}$/)
+    .toUpperCase()
+    .optional()
+    .describe('Optional region code (e.g., US, GB, DE; default: US)'),
+  lists: z
+    .array(z.enum(MarketMoverLists))
+    .min(1)
+    .optional()
+    .describe('Optional lists to return (default: all). Available: ' + MarketMoverLists.join(', ')),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .max(25)
+    .optional()
+    .describe('Optional number of tickers per list (default: 10)'),
+});
+
+// Schema for identifier resolution tool input
+export const ResolveIdentifierSchema = z.object({
+  identifier: z
+    .string()
+    .min(1)
+    .max(20)
+    .describe('ISIN, CUSIP or SEDOL of the security (e.g., US0378331005, 037833100, 2046251)'),
+});
+
+// Schema for a position of the portfolio valuation tool
+export const PortfolioPositionSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+  quantity: z.number().positive().describe('Number of shares or units held'),
+  costBasis: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe('Optional average cost per share or unit, in the position currency'),
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .toUpperCase()
+    .optional()
+    .describe(
+      'Optional ISO 4217 currency code of the cost basis (default: the listing currency, in its ' +
+        'major unit such as GBP for London listings)'
+    ),
+});
+
+// Schema for portfolio valuation tool input
+export const ValuePortfolioSchema = z.object({
+  positions: z.array(PortfolioPositionSchema).min(1).max(100).describe('Positions to value'),
+  baseCurrency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .toUpperCase()
+    .optional()
+    .describe('Optional ISO 4217 currency code to value the portfolio in (default: USD)'),
+  includeSectors: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional flag to also break the portfolio down by sector, which looks up the profile of ' +
+        'each equity (default: false)'
+    ),
+});
+
+// Schema for dividend income projection tool input
+export const DividendIncomeSchema = z.object({
+  holdings: z
+    .array(PortfolioPositionSchema)
+    .min(1)
+    .max(100)
+    .describe('Holdings to project the dividend income of, cost basis is used for yield on cost'),
+});
+
+// Name of a watchlist, names are compared ignoring case
+const WatchlistName = z.string().trim().min(1).max(50).describe('Watchlist name (e.g., Tech)');
+
+// Tickers of a watchlist
+const WatchlistTickers = z
+  .array(z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'))
+  .min(1);
+
+// Schema for watchlist creation tool input
+export const CreateWatchlistSchema = z.object({
+  name: WatchlistName,
+  tickers: WatchlistTickers.optional().describe('Optional tickers to start the watchlist with'),
+});
+
+// Schema for the tools adding tickers to and removing tickers from a watchlist
+export const WatchlistTickersSchema = z.object({
+  name: WatchlistName,
+  tickers: WatchlistTickers.describe('Ticker symbols'),
+});
+
+// Schema for watchlist listing tool input
+export const ListWatchlistsSchema = z.object({});
+
+// Schema for watchlist quotes tool input
+export const WatchlistQuotesSchema = z.object({
+  name: WatchlistName,
+  fields: z.array(z.string()).optional().describe('Optional list of specific fields to return'),
+  targetCurrency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/)
+    .toUpperCase()
+    .optional()
+    .describe('Optional ISO 4217 currency code (e.g., EUR) to convert prices to'),
+});
+
+// Conditions of the price alerts
+export const AlertConditions = [
+  'price_above',
+  'price_below',
+  'percent_move',
+  'cross_above_average',
+  'cross_below_average',
+  'volume_spike',
+] as const;
+
+// Moving averages the crossing alerts watch, from the fiftyDayAverage and twoHundredDayAverage
+// quote fields
+export const MovingAverages = ['50d', '200d'] as const;
+
+// Statuses of the price alerts, an alert is triggered once and then stays triggered
+export const AlertStatuses = ['active', 'triggered'] as const;
+
+// Schema for alert creation tool input
+export const CreateAlertSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+  condition: z
+    .enum(AlertConditions)
+    .describe(
+      'Condition of the alert: price_above or price_below a price, percent_move of the day ' +
+        'change in either direction, cross_above_average or cross_below_average of a moving ' +
+        'average, or volume_spike of the volume against its 10-day average'
+    ),
+  threshold: z
+    .number()
+    .positive()
+    .optional()
+    .describe(
+      'Price for price_above and price_below, percent for percent_move (e.g., 5), multiple of ' +
+        'the 10-day average volume for volume_spike (default: 2), unused by crossings'
     ),
+  average: z
+    .enum(MovingAverages)
+    .optional()
+    .describe('Moving average of cross_above_average and cross_below_average (default: 200d)'),
+  note: z.string().max(200).optional().describe('Optional note sent with the notification'),
+});
+
+// Schema for alert listing tool input
+export const ListAlertsSchema = z.object({
+  status: z.enum(AlertStatuses).optional().describe('Optional status to list (default: all)'),
+});
+
+// Schema for alert deletion tool input
+export const DeleteAlertSchema = z.object({
+  id: z.string().min(1).describe('Identifier of the alert'),
+});
+
+// Schema for alert check tool input
+export const CheckAlertsSchema = z.object({});
+
+// Kinds of ledger transactions
+export const LedgerTransactionTypes = ['buy', 'sell', 'dividend', 'split'] as const;
+
+// Methods matching the shares of a sale with the lots they are taken from
+export const LotMethods = ['fifo', 'lifo', 'specific'] as const;
+
+// Date of a ledger transaction or report
+const LedgerDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .describe('Date in YYYY-MM-DD format');
+
+// Schema for the shares of a sale taken from a specific lot
+export const LotSelectionSchema = z.object({
+  lotId: z.string().min(1).describe('Identifier of the lot, the identifier of its buy transaction'),
+  quantity: z.number().positive().describe('Number of shares sold from the lot'),
+});
+
+// Schema for transaction recording tool input
+export const RecordTransactionSchema = z.object({
+  type: z
+    .enum(LedgerTransactionTypes)
+    .describe('Kind of transaction: buy, sell, dividend (cash received) or split'),
+  ticker: z.string().min(1).max(10).toUpperCase().describe('Stock ticker symbol (e.g., AAPL)'),
+  date: LedgerDate,
+  quantity: z.number().positive().optional().describe('Number of shares bought or sold'),
+  price: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe('Price per share of a buy or sell, in the major unit of the listing currency'),
+  fees: z
+    .number()
+    .nonnegative()
+    .optional()
+    .describe('Optional fees of a buy or sell, added to the cost or deducted from the proceeds'),
+  amount: z.number().positive().optional().describe('Cash received for a dividend'),
+  ratio: z
+    .number()
+    .positive()
+    .optional()
+    .describe('Shares after a split per share before it (e.g., 4 for 4-for-1, 0.1 for 1-for-10)'),
+  lotMethod: z
+    .enum(LotMethods)
+    .optional()
+    .describe(
+      'Optional lot matching of a sell: fifo, lifo or specific (default: specific when lots ' +
+        'are given, fifo otherwise)'
+    ),
+  lots: z
+    .array(LotSelectionSchema)
+    .min(1)
+    .optional()
+    .describe('Lots a sell takes its shares from, only for the specific lot method'),
+  note: z.string().max(200).optional().describe('Optional note'),
+});
+
+// Schema for transaction listing tool input
+export const ListTransactionsSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().optional().describe('Optional ticker to list'),
+});
+
+// Schema for transaction deletion tool input
+export const DeleteTransactionSchema = z.object({
+  id: z.string().min(1).describe('Identifier of the transaction'),
+});
+
+// Schema for tax lots tool input
+export const TaxLotsSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().optional().describe('Optional ticker to report'),
+  asOf: LedgerDate.optional().describe(
+    'Optional date in YYYY-MM-DD format to value the lots at its close (default: current quotes)'
+  ),
+});
+
+// Schema for realized gains tool input
+export const RealizedGainsSchema = z.object({
+  ticker: z.string().min(1).max(10).toUpperCase().optional().describe('Optional ticker to report'),
+  fromDate: LedgerDate.optional().describe('Optional first sale date in YYYY-MM-DD format'),
+  toDate: LedgerDate.optional().describe('Optional last sale date in YYYY-MM-DD format'),
 });
 
 // Type for stock quote tool input
 export type StockQuoteInput = z.infer<typeof StockQuoteSchema>;
 export type StockQuotesInput = z.infer<typeof StockQuotesSchema>;
 export type StockSearchInput = z.infer<typeof StockSearchSchema>;
+export type StockNewsInput = z.infer<typeof StockNewsSchema>;
 export type HistoricalDataInput = z.infer<typeof HistoricalDataSchema>;
+export type CorporateActionsInput = z.infer<typeof CorporateActionsSchema>;
+export type TechnicalIndicatorSpec = z.infer<typeof TechnicalIndicatorSpecSchema>;
+export type TechnicalIndicatorsInput = z.infer<typeof TechnicalIndicatorsSchema>;
+export type PerformanceStatsInput = z.infer<typeof PerformanceStatsSchema>;
+export type CompareTickersInput = z.infer<typeof CompareTickersSchema>;
+export type FundamentalsInput = z.infer<typeof FundamentalsSchema>;
+export type FundamentalsModule = (typeof FundamentalsModules)[number];
+export type OptionChainInput = z.infer<typeof OptionChainSchema>;
+export type EarningsInput = z.infer<typeof EarningsSchema>;
+export type AnalystRatingsInput = z.infer<typeof AnalystRatingsSchema>;
+export type OwnershipInput = z.infer<typeof OwnershipSchema>;
+export type FxRateInput = z.infer<typeof FxRateSchema>;
+export type CryptoQuoteInput = z.infer<typeof CryptoQuoteSchema>;
+export type ScreenStocksInput = z.infer<typeof ScreenStocksSchema>;
+export type PredefinedScreener = (typeof PredefinedScreeners)[number];
+export type MarketMoversInput = z.infer<typeof MarketMoversSchema>;
+export type MarketMoverList = (typeof MarketMoverLists)[number];
+export type SecurityIdentifierType = 'isin' | 'cusip' | 'sedol';
+export type ResolveIdentifierInput = z.infer<typeof ResolveIdentifierSchema>;
+export type PortfolioPositionInput = z.infer<typeof PortfolioPositionSchema>;
+export type ValuePortfolioInput = z.infer<typeof ValuePortfolioSchema>;
+export type DividendIncomeInput = z.infer<typeof DividendIncomeSchema>;
+export type DividendProjectionBasis = 'dividend_history' | 'trailing_rate' | 'dividend_yield';
+export type CreateWatchlistInput = z.infer<typeof CreateWatchlistSchema>;
+export type WatchlistTickersInput = z.infer<typeof WatchlistTickersSchema>;
+export type WatchlistQuotesInput = z.infer<typeof WatchlistQuotesSchema>;
+export type AlertCondition = (typeof AlertConditions)[number];
+export type MovingAverage = (typeof MovingAverages)[number];
+export type AlertStatus = (typeof AlertStatuses)[number];
+export type CreateAlertInput = z.infer<typeof CreateAlertSchema>;
+export type ListAlertsInput = z.infer<typeof ListAlertsSchema>;
+export type DeleteAlertInput = z.infer<typeof DeleteAlertSchema>;
+export type LedgerTransactionType = (typeof LedgerTransactionTypes)[number];
+export type LotMethod = (typeof LotMethods)[number];
+export type LotSelection = z.infer<typeof LotSelectionSchema>;
+export type RecordTransactionInput = z.infer<typeof RecordTransactionSchema>;
+export type ListTransactionsInput = z.infer<typeof ListTransactionsSchema>;
+export type DeleteTransactionInput = z.infer<typeof DeleteTransactionSchema>;
+export type TaxLotsInput = z.infer<typeof TaxLotsSchema>;
+export type RealizedGainsInput = z.infer<typeof RealizedGainsSchema>;
+export type HoldingTerm = 'short' | 'long';
+export type FinancialStatementPeriod = NonNullable<FundamentalsInput['period']>;
+export type HistoricalInterval = (typeof HistoricalIntervals)[number];
+
+export type SearchQuoteType = (typeof SearchQuoteTypes)[number];
+
+// Optional filters of stock searches, beyond the query
+export type StockSearchOptions = Omit<StockSearchInput, 'query'>;
+
+// Optional settings for historical data requests, beyond ticker, date range and fields
+export type HistoricalDataOptions = Omit<
+  HistoricalDataInput,
+  'ticker' | 'fromDate' | 'toDate' | 'fields'
+>;
 
 // Interface for stock quote response
 export interface StockQuoteResponse {
@@ -104,35 +866,768 @@ export interface StockQuoteResponse {
   earningsTimestamp?: number;
   trailingAnnualDividendRate?: number;
   trailingAnnualDividendYield?: number;
+  conversion?: CurrencyConversion;
+  rawPrices?: MinorUnitPrices;
   [key: string]: unknown;
 }
 
+// Interface for the exchange rate used to convert prices from the listing currency
+// rateTime is the ISO timestamp of the rate
+export interface CurrencyConversion {
+  fromCurrency: string;
+  toCurrency: string;
+  symbol: string;
+  rate: number;
+  rateTime?: string;
+}
+
+// Interface for prices as quoted by the exchange in a minor currency unit (e.g., GBp for pence),
+// the divisor converts them to the major unit (e.g., 100 pence in a pound)
+export interface MinorUnitPrices {
+  currency: string;
+  divisor: number;
+  prices: Record<string, number>;
+}
+
 // Interface for stock search result
+// quoteType is Yahoo's instrument type (e.g., EQUITY, ETF) and exchDisp the exchange display name
+// Sector and industry are only known for equities
 export interface StockSearchResult {
   symbol: string;
   name: string;
   exchange: string;
+  quoteType?: string;
+  exchDisp?: string;
+  sector?: string;
+  industry?: string;
 }
 
 // Interface for historical data
+// The date is YYYY-MM-DD for daily and longer bars, and an ISO timestamp with the
+// exchange time-zone offset for intraday bars (e.g., 2024-01-02T09:30:00-05:00)
+// fxRate is the exchange rate applied to the prices when they are converted to another currency
+// Prices quoted in a minor currency unit (e.g., GBp) are normalized to the major unit (e.g., GBP)
 export interface HistoricalData {
   date: string;
+  open?: number;
   high: number;
   low: number;
   close: number;
+  adjClose?: number;
   volume: number;
+  fxRate?: number;
+  rawPrices?: MinorUnitPrices;
+}
+
+// Interface for a cash dividend, dated on its ex-dividend date
+export interface DividendEvent {
+  exDate: string;
+  amount: number;
+}
+
+// Interface for a stock split (e.g., a 4:1 split has numerator 4 and denominator 1)
+export interface SplitEvent {
+  date: string;
+  numerator: number;
+  denominator: number;
+  ratio: string;
+}
+
+// Interface for the corporate actions of a ticker over a date range
+export interface CorporateActions {
+  symbol: string;
+  currency?: string;
+  dividends: DividendEvent[];
+  splits: SplitEvent[];
+}
+
+// Interface for one day of technical indicator values, keyed by indicator name
+// (e.g., sma_50, rsi_14); values are null while an indicator is warming up
+export interface TechnicalIndicatorPoint {
+  date: string;
+  close: number;
+  [indicator: string]: string | number | null;
+}
+
+// Interface for technical indicators over a date range
+export interface TechnicalIndicatorsResponse {
+  symbol: string;
+  indicators: string[];
+  series: TechnicalIndicatorPoint[];
+}
+
+// Interface for the return of a single trading day
+export interface DailyReturn {
+  date: string;
+  returnPercent: number;
+}
+
+// Interface for the largest peak-to-trough decline; recoveryDate is null until the peak is regained
+export interface DrawdownStats {
+  percent: number;
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;
+}
+
+// Interface for the return and risk statistics of a ticker over a date range
+// Returns, volatility and drawdown are in percent; ratios are null when volatility is zero
+export interface PerformanceStats {
+  symbol: string;
+  fromDate: string;
+  toDate: string;
+  tradingDays: number;
+  startPrice: number;
+  endPrice: number;
+  totalReturnPercent: number;
+  annualizedReturnPercent: number;
+  annualizedVolatilityPercent: number;
+  maxDrawdown: DrawdownStats;
+  riskFreeRatePercent: number;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  bestDay: DailyReturn | null;
+  worstDay: DailyReturn | null;
+  benchmark?: {
+    symbol: string;
+    totalReturnPercent: number | null;
+    beta: number | null;
+  };
+}
+
+// Interface for one row of the relative performance table of a ticker comparison
+export interface TickerPerformance {
+  symbol: string;
+  startPrice: number;
+  endPrice: number;
+  totalReturnPercent: number;
+  annualizedReturnPercent: number;
+  annualizedVolatilityPercent: number;
+  maxDrawdownPercent: number;
+  rank: number;
+}
+
+// Interface for the comparison of several tickers over a common period
+// Rebased prices start at 100; correlations are computed on daily returns
+export interface TickerComparison {
+  fromDate: string;
+  toDate: string;
+  tickers: string[];
+  performance: TickerPerformance[];
+  correlationMatrix: Record<string, Record<string, number | null>>;
+  rebased: Array<{ date: string; [symbol: string]: string | number }>;
+}
+
+// Interface for the current financial data of a company
+// Margins, growth and returns are ratios (0.25 is 25%); amounts are in financialCurrency
+export interface FinancialDataSummary {
+  currentPrice?: number;
+  targetHighPrice?: number;
+  targetLowPrice?: number;
+  targetMeanPrice?: number;
+  recommendationKey?: string;
+  numberOfAnalystOpinions?: number;
+  totalRevenue?: number;
+  revenuePerShare?: number;
+  revenueGrowth?: number;
+  earningsGrowth?: number;
+  grossMargins?: number;
+  operatingMargins?: number;
+  ebitdaMargins?: number;
+  profitMargins?: number;
+  ebitda?: number;
+  totalCash?: number;
+  totalCashPerShare?: number;
+  totalDebt?: number;
+  debtToEquity?: number;
+  currentRatio?: number;
+  quickRatio?: number;
+  returnOnAssets?: number;
+  returnOnEquity?: number;
+  operatingCashflow?: number;
+  freeCashflow?: number;
+  financialCurrency?: string;
+}
+
+// Interface for the key statistics of a company (valuation, share structure, per-share data)
+export interface KeyStatistics {
+  enterpriseValue?: number;
+  forwardPE?: number;
+  pegRatio?: number;
+  priceToBook?: number;
+  enterpriseToRevenue?: number;
+  enterpriseToEbitda?: number;
+  beta?: number;
+  trailingEps?: number;
+  forwardEps?: number;
+  bookValue?: number;
+  sharesOutstanding?: number;
+  floatShares?: number;
+  sharesShort?: number;
+  shortRatio?: number;
+  shortPercentOfFloat?: number;
+  heldPercentInsiders?: number;
+  heldPercentInstitutions?: number;
+  lastFiscalYearEnd?: string;
+  mostRecentQuarter?: string;
+}
+
+// Interface for an income statement, dated on the last day of its period
+export interface IncomeStatement {
+  endDate: string;
+  totalRevenue?: number;
+  costOfRevenue?: number;
+  grossProfit?: number;
+  researchDevelopment?: number;
+  operatingIncome?: number;
+  ebit?: number;
+  interestExpense?: number;
+  incomeBeforeTax?: number;
+  incomeTaxExpense?: number;
+  netIncome?: number;
+}
+
+// Interface for a balance sheet, dated on the last day of its period
+export interface BalanceSheet {
+  endDate: string;
+  cash?: number;
+  shortTermInvestments?: number;
+  totalCurrentAssets?: number;
+  totalAssets?: number;
+  totalCurrentLiabilities?: number;
+  longTermDebt?: number;
+  totalLiabilities?: number;
+  totalStockholderEquity?: number;
+}
+
+// Interface for a cash flow statement, dated on the last day of its period
+// Free cash flow is operating cash flow plus capital expenditures (reported as negative)
+export interface CashFlowStatement {
+  endDate: string;
+  netIncome?: number;
+  depreciation?: number;
+  operatingCashFlow?: number;
+  capitalExpenditures?: number;
+  freeCashFlow?: number;
+  investingCashFlow?: number;
+  financingCashFlow?: number;
+  dividendsPaid?: number;
+  repurchaseOfStock?: number;
+}
+
+// Interface for the fundamentals of a company; only the requested modules are present
+// Financial statements are sorted oldest first
+export interface Fundamentals {
+  symbol: string;
+  period: FinancialStatementPeriod;
+  financialData?: FinancialDataSummary;
+  keyStatistics?: KeyStatistics;
+  incomeStatements?: IncomeStatement[];
+  balanceSheets?: BalanceSheet[];
+  cashFlowStatements?: CashFlowStatement[];
+}
+
+// Interface for an option contract
+// Implied volatility is a ratio (0.25 is 25%); moneyness is the strike divided by the underlying price
+export interface OptionContract {
+  contractSymbol: string;
+  type: 'call' | 'put';
+  strike: number;
+  expiration: string;
+  lastPrice: number;
+  change?: number;
+  percentChange?: number;
+  bid?: number;
+  ask?: number;
+  volume?: number;
+  openInterest?: number;
+  impliedVolatility: number;
+  inTheMoney: boolean;
+  moneyness?: number;
+  lastTradeDate?: string;
+}
+
+// Interface for the option chain of a ticker at a single expiration
+// expirationDates lists every expiration available for the ticker
+export interface OptionChain {
+  symbol: string;
+  underlyingPrice?: number;
+  currency?: string;
+  expiration: string;
+  expirationDates: string[];
+  calls: OptionContract[];
+  puts: OptionContract[];
+}
+
+// Interface for the date window of the next earnings report, with the consensus estimates
+// The window is a single day once the company has confirmed the date (isEstimate is false)
+export interface EarningsDateWindow {
+  startDate: string;
+  endDate: string;
+  isEstimate: boolean;
+  epsEstimate?: number;
+  epsLow?: number;
+  epsHigh?: number;
+  revenueEstimate?: number;
+  revenueLow?: number;
+  revenueHigh?: number;
+}
+
+// Interface for reported earnings against the consensus estimate for a fiscal quarter
+export interface EarningsSurprise {
+  quarter: string;
+  epsEstimate?: number;
+  epsActual?: number;
+  epsDifference?: number;
+  surprisePercent?: number;
+}
+
+// Interface for the consensus estimates of a fiscal period
+// period is 0q (current quarter), +1q (next quarter), 0y (current year) or +1y (next year)
+export interface EarningsEstimatePeriod {
+  period: string;
+  endDate?: string;
+  epsEstimate?: number;
+  epsLow?: number;
+  epsHigh?: number;
+  epsYearAgo?: number;
+  epsAnalysts?: number;
+  revenueEstimate?: number;
+  revenueLow?: number;
+  revenueHigh?: number;
+  revenueYearAgo?: number;
+  revenueAnalysts?: number;
+  growth?: number;
+}
+
+// Interface for the earnings of a ticker: next report, past surprises (oldest first) and estimates
+export interface EarningsReport {
+  symbol: string;
+  currency?: string;
+  nextEarnings: EarningsDateWindow | null;
+  history: EarningsSurprise[];
+  estimates: EarningsEstimatePeriod[];
+}
+
+// Interface for a ticker reporting earnings soon
+export interface UpcomingEarnings extends EarningsDateWindow {
+  symbol: string;
+}
+
+// Interface for the tickers reporting earnings between two dates, soonest first
+// unavailable lists the tickers whose earnings could not be fetched
+export interface UpcomingEarningsCalendar {
+  fromDate: string;
+  toDate: string;
+  upcoming: UpcomingEarnings[];
+  unavailable: string[];
+}
+
+// Interface for a news headline; publishedAt is an ISO timestamp
+export interface NewsArticle {
+  id: string;
+  title: string;
+  publisher: string;
+  publishedAt: string;
+  link: string;
+  relatedTickers: string[];
+}
+
+// Interface for the news headlines of a ticker or query, newest first
+export interface StockNews {
+  query: string;
+  articles: NewsArticle[];
+}
+
+// Interface for the number of analysts giving each recommendation in a month (YYYY-MM)
+// period is relative to the current month: 0m (current month), -1m (previous month), etc.
+export interface RecommendationTrendPeriod {
+  period: string;
+  month: string;
+  strongBuy: number;
+  buy: number;
+  hold: number;
+  sell: number;
+  strongSell: number;
+  total: number;
+}
+
+// Interface for analyst price targets; upside is relative to the current price, in percent
+export interface PriceTargets {
+  low?: number;
+  mean?: number;
+  median?: number;
+  high?: number;
+  lowUpsidePercent?: number;
+  meanUpsidePercent?: number;
+  medianUpsidePercent?: number;
+  highUpsidePercent?: number;
+}
+
+// Interface for the analyst ratings of a ticker
+// The consensus score ranges from 1 (strong buy) to 5 (strong sell); the trend is newest first
+export interface AnalystRatings {
+  symbol: string;
+  currency?: string;
+  currentPrice?: number;
+  consensus: {
+    rating?: string;
+    score?: number;
+    analysts?: number;
+  };
+  priceTargets: PriceTargets;
+  recommendationTrend: RecommendationTrendPeriod[];
+}
+
+// Interface for an institution or fund holding a stock, as of its last report
+// percentHeld is the share of outstanding shares and percentChange the change in position, in percent
+export interface Holder {
+  organization: string;
+  reportDate?: string;
+  percentHeld?: number;
+  shares?: number;
+  value?: number;
+  percentChange?: number;
+}
+
+// Interface for an insider transaction; ownership is direct, or indirect (e.g., through a trust)
+export interface InsiderTransaction {
+  date?: string;
+  insider: string;
+  relation?: string;
+  transaction: string;
+  shares?: number;
+  value?: number;
+  ownership?: 'direct' | 'indirect';
+}
+
+// Interface for the ownership of a stock
+// Holders are sorted by position, largest first; insider transactions are newest first
+export interface Ownership {
+  symbol: string;
+  insidersPercentHeld?: number;
+  institutionsPercentHeld?: number;
+  institutionsFloatPercentHeld?: number;
+  institutionsCount?: number;
+  institutionalHolders: Holder[];
+  fundHolders: Holder[];
+  insiderTransactions: InsiderTransaction[];
+}
+
+// Interface for the rate of a currency or cryptocurrency pair, the price of one baseCurrency in
+// quoteCurrency. Cross rates are computed through pivotCurrency from the two Yahoo symbols used;
+// rateTime is the ISO timestamp of the oldest quote used
+export interface ExchangeRate {
+  pair: string;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  rateTime?: string;
+  symbols: string[];
+  pivotCurrency?: string;
+  history?: RatePoint[];
+}
+
+// Interface for a daily closing rate
+export interface RatePoint {
+  date: string;
+  rate: number;
+}
+
+// Interface for a cryptocurrency quote, amounts are in quoteCurrency
+// changePercent is the change of the day, only reported when the pair is quoted directly
+export interface CryptoQuote extends ExchangeRate {
+  changePercent?: number;
+  marketCap?: number;
+}
+
+// Interface for the stocks matching a screen
+// screenedCount is the number of screener results the criteria were applied to, partial is set
+// when the sector lookups ran out before every result was screened
+export interface ScreenerResult {
+  screener: PredefinedScreener;
+  title?: string;
+  region: string;
+  screenedCount: number;
+  partial?: boolean;
+  quotes: StockQuoteResponse[];
+}
+
+// Interface for the tickers moving in a region, each list is in Yahoo Finance's order
+// unavailable names the lists Yahoo Finance could not return
+export interface MarketMovers {
+  region: string;
+  trending?: StockQuoteResponse[];
+  gainers?: StockQuoteResponse[];
+  losers?: StockQuoteResponse[];
+  mostActive?: StockQuoteResponse[];
+  unavailable?: MarketMoverList[];
+}
+
+// Interface for a security identifier resolved to Yahoo Finance symbols
+// symbol is the best match and listings every symbol Yahoo Finance found, best match first
+export interface ResolvedIdentifier {
+  identifier: string;
+  identifierType: SecurityIdentifierType;
+  symbol: string;
+  name: string;
+  listings: StockSearchResult[];
+}
+
+// Interface for the valuation of a position, amounts are in the base currency of the portfolio
+// currency is the listing currency, costBasis the total cost and weight the share of the
+// portfolio's market value in percent
+export interface PositionValuation {
+  ticker: string;
+  name?: string;
+  quantity: number;
+  currency: string;
+  sector?: string;
+  price: number;
+  marketValue: number;
+  costBasis?: number;
+  unrealizedPnl?: number;
+  unrealizedPnlPercent?: number;
+  dayChange?: number;
+  dayChangePercent?: number;
+  weight: number;
+}
+
+// Interface for the share of a sector or currency in a portfolio, weight is in percent
+export interface PortfolioAllocation {
+  name: string;
+  marketValue: number;
+  weight: number;
+}
+
+// Interface for the valuation of a portfolio in its base currency
+// Totals of cost basis, unrealized P&L and day change cover the positions where they are known,
+// sectors are only broken down on request. missing lists the tickers left out for lack of a price
+export interface PortfolioValuation {
+  baseCurrency: string;
+  marketValue: number;
+  costBasis?: number;
+  unrealizedPnl?: number;
+  unrealizedPnlPercent?: number;
+  dayChange?: number;
+  dayChangePercent?: number;
+  positions: PositionValuation[];
+  sectors?: PortfolioAllocation[];
+  currencies: PortfolioAllocation[];
+  missing?: string[];
+}
+
+// Interface for the projected dividend income of a holding, amounts in the listing currency.
+// basis is the data the annual dividend comes from, absent for holdings paying none.
+export interface HoldingDividendProjection {
+  ticker: string;
+  name?: string;
+  quantity: number;
+  currency: string;
+  annualDividendPerShare: number;
+  annualIncome: number;
+  monthlyIncome: number;
+  dividendYield?: number;
+  yieldOnCost?: number;
+  paymentsPerYear?: number;
+  lastExDate?: string;
+  lastDividend?: number;
+  nextExDate?: string;
+  nextPaymentEstimate?: number;
+  basis?: DividendProjectionBasis;
+}
+
+// Interface for the projected dividend income in one currency, with the income expected in each
+// of the next 12 months by month of the expected ex-date
+export interface CurrencyDividendIncome {
+  currency: string;
+  annualIncome: number;
+  monthlyIncome: number;
+  schedule: Array<{ month: string; income: number }>;
+}
+
+// Interface for the projected dividend income of holdings, missing lists the tickers left out for
+// lack of a price
+export interface DividendIncomeProjection {
+  holdings: HoldingDividendProjection[];
+  currencies: CurrencyDividendIncome[];
+  missing?: string[];
+}
+
+// Interface for a named list of tickers, createdAt and updatedAt are ISO timestamps
+export interface Watchlist {
+  name: string;
+  tickers: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Contents of the watchlist file
+export interface WatchlistDocument {
+  watchlists: Watchlist[];
+}
+
+// Interface for the quotes of the tickers of a watchlist
+export interface WatchlistQuotes {
+  name: string;
+  quotes: StockQuoteResponse[];
+}
+
+// Interface for a price alert, createdAt, lastCheckedAt and triggeredAt are ISO timestamps
+export interface PriceAlert {
+  id: string;
+  ticker: string;
+  condition: AlertCondition;
+  threshold?: number;
+  average?: MovingAverage;
+  note?: string;
+  status: AlertStatus;
+  createdAt: string;
+  // Side of the moving average at the last check, a crossing is a change of side
+  lastSide?: 'above' | 'below';
+  lastCheckedAt?: string;
+  triggeredAt?: string;
+  // Price and description of the move that triggered the alert
+  triggerPrice?: number;
+  message?: string;
+  // Notifiers the triggered alert was delivered to, notifiedAt is set once all of them have it
+  deliveredTo?: string[];
+  notifiedAt?: string;
+}
+
+// Contents of the alert file
+export interface AlertDocument {
+  alerts: PriceAlert[];
+}
+
+// Interface for the result of a check of the active alerts
+export interface AlertCheck {
+  checkedAt: string;
+  checked: number;
+  triggered: PriceAlert[];
+}
+
+// Interface for a ledger transaction, recordedAt is an ISO timestamp
+export interface LedgerTransaction {
+  id: string;
+  type: LedgerTransactionType;
+  ticker: string;
+  date: string;
+  quantity?: number;
+  price?: number;
+  fees?: number;
+  amount?: number;
+  ratio?: number;
+  lotMethod?: LotMethod;
+  lots?: LotSelection[];
+  note?: string;
+  recordedAt: string;
+}
+
+// Contents of the ledger file
+export interface LedgerDocument {
+  transactions: LedgerTransaction[];
+}
+
+// Interface for an open lot, valued at a price when one is known. Holding periods of more than a
+// year are long term.
+export interface TaxLot {
+  lotId: string;
+  ticker: string;
+  acquiredAt: string;
+  quantity: number;
+  costPerShare: number;
+  costBasis: number;
+  price?: number;
+  marketValue?: number;
+  unrealizedGain?: number;
+  unrealizedGainPercent?: number;
+  holdingDays: number;
+  term: HoldingTerm;
+}
+
+// Interface for the open lots of a ticker
+export interface LedgerPosition {
+  ticker: string;
+  quantity: number;
+  costBasis: number;
+  price?: number;
+  marketValue?: number;
+  unrealizedGain?: number;
+}
+
+// Interface for the open lots of the ledger at a date, market value and unrealized gains cover
+// the lots with a price
+export interface TaxLotReport {
+  asOf: string;
+  costBasis: number;
+  marketValue: number;
+  unrealizedGain: number;
+  shortTermUnrealizedGain: number;
+  longTermUnrealizedGain: number;
+  positions: LedgerPosition[];
+  lots: TaxLot[];
+}
+
+// Interface for the shares of a sale taken from one lot
+export interface RealizedGain {
+  sellId: string;
+  lotId: string;
+  ticker: string;
+  acquiredAt: string;
+  soldAt: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  holdingDays: number;
+  term: HoldingTerm;
+}
+
+// Interface for a dividend received
+export interface DividendIncome {
+  transactionId: string;
+  ticker: string;
+  date: string;
+  amount: number;
+}
+
+// Interface for the realized gains and dividends of a period
+export interface RealizedGainsReport {
+  fromDate?: string;
+  toDate?: string;
+  proceeds: number;
+  costBasis: number;
+  realizedGain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  dividendIncome: number;
+  realized: RealizedGain[];
+  dividends: DividendIncome[];
 }
 
 // Transport types
 export type TransportType = 'stdio' | 'http';
 
+// Limits applied by the stock quotes service to historical data requests, and the directory
+// holding the files of watchlists, alerts and the transaction ledger
+export interface StockQuotesServiceOptions {
+  maxHistoricalRangeYears?: number;
+  maxHistoricalDataPoints?: number;
+  dataDirectory?: string;
+}
+
 // Server configuration interface
-export interface ServerConfig {
+export interface ServerConfig extends StockQuotesServiceOptions {
   name: string;
   version: string;
   transport: TransportType;
   httpPort?: number;
   httpHost?: string;
+  // Seconds between two checks of the alerts, 0 disables the checks
+  alertIntervalSeconds?: number;
+  // URL the triggered alerts are posted to, in addition to the MCP logging notifications
+  alertWebhookUrl?: string;
 }
 
 // Yahoo Finance API Types
@@ -192,11 +1687,26 @@ export interface YahooSearchQuote {
   shortname?: string;
   longname?: string;
   exchange?: string;
+  exchDisp?: string;
+  quoteType?: string;
+  sector?: string;
+  industry?: string;
+  [key: string]: unknown;
+}
+
+export interface YahooSearchNews {
+  uuid?: string;
+  title?: string;
+  publisher?: string;
+  link?: string;
+  providerPublishTime?: number | Date;
+  relatedTickers?: string[];
   [key: string]: unknown;
 }
 
 export interface YahooSearchResponse {
   quotes?: YahooSearchQuote[];
+  news?: YahooSearchNews[];
   [key: string]: unknown;
 }
 
@@ -207,15 +1717,137 @@ export interface YahooHistoricalQuote {
   low?: number;
   close?: number;
   adjClose?: number;
+  adjclose?: number;
   volume?: number;
   [key: string]: unknown;
 }
 
+export interface YahooDividendEvent {
+  date?: number | Date;
+  amount?: number;
+  [key: string]: unknown;
+}
+
+export interface YahooSplitEvent {
+  date?: number | Date;
+  numerator?: number;
+  denominator?: number;
+  splitRatio?: string;
+  [key: string]: unknown;
+}
+
 export interface YahooChartResponse {
   quotes?: YahooHistoricalQuote[];
+  events?: {
+    dividends?: YahooDividendEvent[];
+    splits?: YahooSplitEvent[];
+    [key: string]: unknown;
+  };
   meta?: {
     symbol?: string;
+    currency?: string;
+    exchangeTimezoneName?: string;
+    gmtoffset?: number;
     [key: string]: unknown;
   };
   [key: string]: unknown;
 }
+
+// Statements of one period of the fundamentals timeseries, fields without their period prefix
+export interface YahooFinancialStatement {
+  date?: number | Date;
+  periodType?: string;
+  [key: string]: unknown;
+}
+
+export interface YahooQuoteSummary {
+  financialData?: Record<string, unknown>;
+  defaultKeyStatistics?: Record<string, unknown>;
+  calendarEvents?: { earnings?: Record<string, unknown>; [key: string]: unknown };
+  earningsHistory?: { history?: Array<Record<string, unknown>> };
+  earningsTrend?: { trend?: Array<Record<string, unknown>> };
+  recommendationTrend?: { trend?: Array<Record<string, unknown>> };
+  price?: Record<string, unknown>;
+  assetProfile?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface YahooOptionContract {
+  contractSymbol?: string;
+  strike?: number;
+  currency?: string;
+  lastPrice?: number;
+  change?: number;
+  percentChange?: number;
+  volume?: number;
+  openInterest?: number;
+  bid?: number;
+  ask?: number;
+  expiration?: number | Date;
+  lastTradeDate?: number | Date;
+  impliedVolatility?: number;
+  inTheMoney?: boolean;
+  [key: string]: unknown;
+}
+
+export interface YahooOptionsResponse {
+  underlyingSymbol?: string;
+  expirationDates?: Array<number | Date>;
+  strikes?: number[];
+  quote?: YahooQuote;
+  options?: Array<{
+    expirationDate?: number | Date;
+    calls?: YahooOptionContract[];
+    puts?: YahooOptionContract[];
+    [key: string]: unknown;
+  }>;
+  [key: string]: unknown;
+}
+
+export interface YahooOwnershipHolder {
+  reportDate?: number | Date;
+  organization?: string;
+  pctHeld?: number;
+  position?: number;
+  value?: number;
+  pctChange?: number;
+}
+
+export interface YahooInsiderTransaction {
+  filerName?: string;
+  filerRelation?: string;
+  transactionText?: string;
+  moneyText?: string;
+  startDate?: number | Date;
+  shares?: number;
+  value?: number;
+  ownership?: string;
+}
+
+export interface YahooOwnership {
+  institutionOwnership?: { ownershipList?: YahooOwnershipHolder[] };
+  fundOwnership?: { ownershipList?: YahooOwnershipHolder[] };
+  majorHoldersBreakdown?: {
+    insidersPercentHeld?: number;
+    institutionsPercentHeld?: number;
+    institutionsFloatPercentHeld?: number;
+    institutionsCount?: number;
+  };
+  insiderTransactions?: { transactions?: YahooInsiderTransaction[] };
+}
+
+export interface YahooScreenerResponse {
+  id?: string;
+  title?: string;
+  description?: string;
+  total?: number;
+  count?: number;
+  quotes?: YahooQuote[];
+  [key: string]: unknown;
+}
+
+export interface YahooTrendingSymbolsResponse {
+  count?: number;
+  quotes?: Array<{ symbol?: string; [key: string]: unknown }>;
+  [key: string]: unknown;
+}
@@ -0,0 +1,75 @@
+/**
+ * Formats a date that Yahoo reports at midnight UTC, such as a fiscal period end or an option
+ * expiration, without shifting it to the previous day in time zones behind UTC
+ * @param date - Date or timestamp in milliseconds
+ * @returns string - Date in 'YYYY-MM-DD' format
+ */
+export function formatUtcDate(date: number | Date): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a numeric field, ignoring nulls and values Yahoo returns in another shape
+ * @param source - Yahoo module data
+ * @param key - Field name
+ * @returns number | undefined - The value, or undefined when it is missing or not a number
+ */
+export function numberField(source: Record<string, unknown>, key: string): number | undefined {
+  const value = source[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Reads a string field
+ * @param source - Yahoo module data
+ * @param key - Field name
+ * @returns string | undefined - The value, or undefined when it is missing or not a string
+ */
+export function stringField(source: Record<string, unknown>, key: string): string | undefined {
+  const value = source[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Reads a date field that Yahoo reports at midnight UTC
+ * @param source - Yahoo module data
+ * @param key - Field name
+ * @returns string | undefined - The date in 'YYYY-MM-DD' format, or undefined when it is missing
+ */
+export function dateField(source: Record<string, unknown>, key: string): string | undefined {
+  const value = source[key];
+  return value instanceof Date || typeof value === 'number' ? formatUtcDate(value) : undefined;
+}
+
+/**
+ * Copies the numeric fields of a Yahoo module, renaming them where needed
+ * @param source - Yahoo module data
+ * @param fields - Response field names, each mapped to its Yahoo field name
+ * @returns Record<string, number> - The fields that are present
+ */
+export function pickNumbers(
+  source: Record<string, unknown>,
+  fields: Record<string, string>
+): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const [name, yahooName] of Object.entries(fields)) {
+    const value = numberField(source, yahooName);
+    if (value !== undefined) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Lists field names that are the same in the response and in Yahoo data
+ * @param names - Field names
+ * @returns Record<string, string> - Each name mapped to itself
+ */
+export function sameNames(...names: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const name of names) {
+    result[name] = name;
+  }
+  return result;
+}
@@ -1,11 +1,33 @@
 import YahooFinance from 'yahoo-finance2';
-import type { YahooChartResponse, YahooQuote, YahooSearchResponse } from './types.js';
+import type {
+  YahooChartResponse,
+  YahooFinancialStatement,
+  YahooOptionsResponse,
+  YahooOwnership,
+  YahooQuote,
+  YahooQuoteSummary,
+  YahooScreenerResponse,
+  YahooSearchResponse,
+  YahooTrendingSymbolsResponse,
+} from './types.js';
 
 type QuoteOptions = Parameters<InstanceType<typeof YahooFinance>['quote']>[1];
 type SearchOptions = Parameters<InstanceType<typeof YahooFinance>['search']>[1];
 type SearchModuleOptions = Parameters<InstanceType<typeof YahooFinance>['search']>[2];
 type ChartOptions = Parameters<InstanceType<typeof YahooFinance>['chart']>[1];
 type ChartModuleOptions = Parameters<InstanceType<typeof YahooFinance>['chart']>[2];
+type OptionsOptions = Parameters<InstanceType<typeof YahooFinance>['options']>[1];
+type OptionsModuleOptions = Parameters<InstanceType<typeof YahooFinance>['options']>[2];
+type QuoteSummaryOptions = Parameters<InstanceType<typeof YahooFinance>['quoteSummary']>[1];
+type QuoteSummaryModuleOptions = Parameters<InstanceType<typeof YahooFinance>['quoteSummary']>[2];
+type FundamentalsTimeSeriesOptions = Parameters<
+  InstanceType<typeof YahooFinance>['fundamentalsTimeSeries']
+>[1];
+type ScreenerOptions = Exclude<
+  Parameters<InstanceType<typeof YahooFinance>['screener']>[0],
+  string
+>;
+type TrendingSymbolsOptions = Parameters<InstanceType<typeof YahooFinance>['trendingSymbols']>[1];
 
 export interface YahooClient {
   /**
@@ -41,6 +63,69 @@ export interface YahooClient {
     options: ChartOptions,
     moduleOptions?: ChartModuleOptions
   ): Promise<YahooChartResponse>;
+
+  /**
+   * Fetch quote summary modules (financial data, statements, key statistics, etc.)
+   * @param symbol - Ticker symbol
+   * @param options - Quote summary options (modules to fetch)
+   * @param moduleOptions - Quote summary module options
+   * @returns Promise<YahooQuoteSummary> - Quote summary data, keyed by module
+   */
+  quoteSummary(
+    symbol: string,
+    options?: QuoteSummaryOptions,
+    moduleOptions?: QuoteSummaryModuleOptions
+  ): Promise<YahooQuoteSummary>;
+
+  /**
+   * Fetch the financial statements of a symbol from the fundamentals timeseries
+   * @param symbol - Ticker symbol
+   * @param options - Timeseries options (period1, type and statement module)
+   * @returns Promise<YahooFinancialStatement[]> - Statements per period end, oldest first
+   */
+  fundamentalsTimeSeries(
+    symbol: string,
+    options: FundamentalsTimeSeriesOptions
+  ): Promise<YahooFinancialStatement[]>;
+
+  /**
+   * Fetch the option chain of an underlying symbol
+   * @param symbol - Underlying ticker symbol
+   * @param options - Options options (expiration date, etc.)
+   * @param moduleOptions - Options module options
+   * @returns Promise<YahooOptionsResponse> - Expirations, strikes and contracts of one expiration
+   */
+  options(
+    symbol: string,
+    options?: OptionsOptions,
+    moduleOptions?: OptionsModuleOptions
+  ): Promise<YahooOptionsResponse>;
+
+  /**
+   * Fetch the holders and insider transactions of a symbol
+   * @param symbol - Ticker symbol
+   * @returns Promise<YahooOwnership> - Institutional and fund holders, holder breakdown and
+   * insider transactions
+   */
+  ownership(symbol: string): Promise<YahooOwnership>;
+
+  /**
+   * Run a predefined screener
+   * @param options - Screener options (screener id, region, count, etc.)
+   * @returns Promise<YahooScreenerResponse> - Title and quotes of the matching symbols
+   */
+  screener(options: ScreenerOptions): Promise<YahooScreenerResponse>;
+
+  /**
+   * Fetch the symbols trending in a region
+   * @param region - Region code (e.g., US)
+   * @param options - Trending symbols options (count, etc.)
+   * @returns Promise<YahooTrendingSymbolsResponse> - Trending symbols, most trending first
+   */
+  trendingSymbols(
+    region: string,
+    options?: TrendingSymbolsOptions
+  ): Promise<YahooTrendingSymbolsResponse>;
 }
 
 export class YahooFinanceClient implements YahooClient {
@@ -124,4 +209,102 @@ export class YahooFinanceClient implements YahooClient {
       return result as YahooChartResponse;
     });
   }
+
+  /**
+   * Fetch quote summary modules (financial data, statements, key statistics, etc.)
+   * @param symbol - Ticker symbol
+   * @param options - Quote summary options
+   * @param moduleOptions - Quote summary module options
+   * @returns Promise<YahooQuoteSummary> - Quote summary data, keyed by module
+   */
+  async quoteSummary(
+    symbol: string,
+    options?: QuoteSummaryOptions,
+    moduleOptions?: QuoteSummaryModuleOptions
+  ): Promise<YahooQuoteSummary> {
+    return this.enqueue(async () => {
+      const result = await this.client.quoteSummary(symbol, options, moduleOptions);
+      return result as YahooQuoteSummary;
+    });
+  }
+
+  /**
+   * Fetch the financial statements of a symbol from the fundamentals timeseries
+   * @param symbol - Ticker symbol
+   * @param options - Timeseries options
+   * @returns Promise<YahooFinancialStatement[]> - Statements per period end, oldest first
+   */
+  async fundamentalsTimeSeries(
+    symbol: string,
+    options: FundamentalsTimeSeriesOptions
+  ): Promise<YahooFinancialStatement[]> {
+    return this.enqueue(async () => {
+      const result = await this.client.fundamentalsTimeSeries(symbol, options);
+      // Statements carry the fields of their module without an index signature
+      return result as unknown as YahooFinancialStatement[];
+    });
+  }
+
+  /**
+   * Fetch the option chain of an underlying symbol
+   * @param symbol - Underlying ticker symbol
+   * @param options - Options options
+   * @param moduleOptions - Options module options
+   * @returns Promise<YahooOptionsResponse> - Expirations, strikes and contracts of one expiration
+   */
+  async options(
+    symbol: string,
+    options?: OptionsOptions,
+    moduleOptions?: OptionsModuleOptions
+  ): Promise<YahooOptionsResponse> {
+    return this.enqueue(async () => {
+      const result = await this.client.options(symbol, options, moduleOptions);
+      return result as YahooOptionsResponse;
+    });
+  }
+
+  /**
+   * Fetch the holders and insider transactions of a symbol
+   * @param symbol - Ticker symbol
+   * @returns Promise<YahooOwnership> - Institutional and fund holders, holder breakdown and
+   * insider transactions
+   */
+  async ownership(symbol: string): Promise<YahooOwnership> {
+    return this.enqueue(() =>
+      this.client.quoteSummary(symbol, {
+        modules: [
+          'institutionOwnership',
+          'fundOwnership',
+          'majorHoldersBreakdown',
+          'insiderTransactions',
+        ],
+      })
+    );
+  }
+
+  /**
+   * Run a predefined screener
+   * @param options - Screener options
+   * @returns Promise<YahooScreenerResponse> - Title and quotes of the matching symbols
+   */
+  async screener(options: ScreenerOptions): Promise<YahooScreenerResponse> {
+    return this.enqueue(async () => {
+      const result = await this.client.screener(options);
+      // Screener quotes carry the quote fields without an index signature
+      return result as unknown as YahooScreenerResponse;
+    });
+  }
+
+  /**
+   * Fetch the symbols trending in a region
+   * @param region - Region code (e.g., US)
+   * @param options - Trending symbols options
+   * @returns Promise<YahooTrendingSymbolsResponse> - Trending symbols, most trending first
+   */
+  async trendingSymbols(
+    region: string,
+    options?: TrendingSymbolsOptions
+  ): Promise<YahooTrendingSymbolsResponse> {
+    return this.enqueue(() => this.client.trendingSymbols(region, options));
+  }
 }
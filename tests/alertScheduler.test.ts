@@ -0,0 +1,224 @@
+/**
+ * Tests for AlertScheduler and the alert notifiers
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AlertNotifier } from '../src/alertNotifiers.js';
+import { McpLoggingNotifier, WebhookNotifier } from '../src/alertNotifiers.js';
+import { AlertScheduler } from '../src/alertScheduler.js';
+import { logger } from '../src/logger.js';
+import type { StockQuotesService } from '../src/stockQuotesService.js';
+import type { PriceAlert } from '../src/types.js';
+
+// Mock logger
+jest.mock('../src/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const triggeredAlert: PriceAlert = {
+  id: 'alert-1',
+  ticker: 'AAPL',
+  condition: 'price_above',
+  threshold: 200,
+  status: 'triggered',
+  createdAt: '2024-06-03T12:00:00.000Z',
+  triggeredAt: '2024-06-04T15:00:00.000Z',
+  triggerPrice: 201,
+  message: 'AAPL rose to 201, above 200',
+};
+
+describe('AlertScheduler', () => {
+  let checkAlerts: jest.Mock;
+  let listAlerts: jest.Mock;
+  let recordAlertDelivery: jest.Mock;
+  let notifiers: Array<{ name: string; notify: jest.Mock }>;
+  let scheduler: AlertScheduler;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    checkAlerts = jest.fn().mockResolvedValue({
+      checkedAt: '2024-06-04T15:00:00.000Z',
+      checked: 1,
+      triggered: [triggeredAlert],
+    });
+    listAlerts = jest.fn().mockResolvedValue([triggeredAlert]);
+    recordAlertDelivery = jest.fn().mockResolvedValue(undefined);
+    notifiers = [
+      { name: 'mcp_logging', notify: jest.fn().mockResolvedValue(true) },
+      { name: 'webhook', notify: jest.fn().mockResolvedValue(true) },
+    ];
+    scheduler = new AlertScheduler(
+      { checkAlerts, listAlerts, recordAlertDelivery } as unknown as StockQuotesService,
+      notifiers as AlertNotifier[],
+      60
+    );
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should deliver each triggered alert to every notifier and record it', async () => {
+    await scheduler.runCheck();
+
+    expect(listAlerts).toHaveBeenCalledWith({ status: 'triggered' });
+    expect(notifiers[0].notify).toHaveBeenCalledWith(triggeredAlert);
+    expect(notifiers[1].notify).toHaveBeenCalledWith(triggeredAlert);
+    expect(recordAlertDelivery).toHaveBeenCalledWith(
+      'alert-1',
+      ['mcp_logging', 'webhook'],
+      expect.any(String)
+    );
+  });
+
+  it('should keep delivering when a notifier fails and retry it on the next check', async () => {
+    notifiers[1].notify.mockRejectedValue(new Error('Connection refused'));
+    notifiers[0].notify.mockResolvedValue(false);
+
+    await scheduler.runCheck();
+
+    expect(logger.error).toHaveBeenCalledWith('Error delivering price alert', expect.any(Object));
+    expect(recordAlertDelivery).not.toHaveBeenCalled();
+
+    notifiers[0].notify.mockResolvedValue(true);
+    await scheduler.runCheck();
+
+    expect(recordAlertDelivery).toHaveBeenCalledWith('alert-1', ['mcp_logging'], undefined);
+  });
+
+  it('should deliver the alerts triggered outside the scheduler', async () => {
+    checkAlerts.mockResolvedValue({
+      checkedAt: '2024-06-04T15:05:00.000Z',
+      checked: 0,
+      triggered: [],
+    });
+
+    await scheduler.runCheck();
+
+    expect(notifiers[0].notify).toHaveBeenCalledWith(triggeredAlert);
+    expect(notifiers[1].notify).toHaveBeenCalledWith(triggeredAlert);
+  });
+
+  it('should only deliver to the notifiers that do not have the alert yet', async () => {
+    checkAlerts.mockResolvedValue({
+      checkedAt: '2024-06-04T15:05:00.000Z',
+      checked: 0,
+      triggered: [],
+    });
+    listAlerts.mockResolvedValue([
+      { ...triggeredAlert, deliveredTo: ['webhook'] },
+      { ...triggeredAlert, id: 'alert-2', notifiedAt: '2024-06-04T15:00:00.000Z' },
+    ]);
+
+    await scheduler.runCheck();
+
+    expect(notifiers[0].notify).toHaveBeenCalledTimes(1);
+    expect(notifiers[1].notify).not.toHaveBeenCalled();
+    expect(recordAlertDelivery).toHaveBeenCalledWith(
+      'alert-1',
+      ['webhook', 'mcp_logging'],
+      expect.any(String)
+    );
+  });
+
+  it('should log failed checks instead of throwing', async () => {
+    checkAlerts.mockRejectedValue(new Error('Network error'));
+
+    await expect(scheduler.runCheck()).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith('Error checking price alerts', expect.any(Object));
+  });
+
+  it('should check the alerts at the interval until stopped', async () => {
+    jest.useFakeTimers();
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(120000);
+    expect(checkAlerts).toHaveBeenCalledTimes(2);
+
+    scheduler.stop();
+    await jest.advanceTimersByTimeAsync(120000);
+    expect(checkAlerts).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('McpLoggingNotifier', () => {
+  it('should send the alert as a logging notification to a connected client', async () => {
+    const server = {
+      isConnected: jest.fn().mockReturnValue(true),
+      sendLoggingMessage: jest.fn().mockResolvedValue(undefined),
+    };
+
+    await expect(
+      new McpLoggingNotifier(server as unknown as McpServer).notify(triggeredAlert)
+    ).resolves.toBe(true);
+
+    expect(server.sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'warning',
+      logger: 'price-alerts',
+      data: triggeredAlert,
+    });
+  });
+
+  it('should send nothing and report no delivery while no client is connected', async () => {
+    const server = { isConnected: jest.fn().mockReturnValue(false), sendLoggingMessage: jest.fn() };
+
+    await expect(
+      new McpLoggingNotifier(server as unknown as McpServer).notify(triggeredAlert)
+    ).resolves.toBe(false);
+
+    expect(server.sendLoggingMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('WebhookNotifier', () => {
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('should post the alert as JSON', async () => {
+    fetchSpy.mockResolvedValue(new Response(null, { status: 204 }));
+
+    await expect(
+      new WebhookNotifier('https://example.com/hooks/alerts').notify(triggeredAlert)
+    ).resolves.toBe(true);
+
+    expect(fetchSpy).toHaveBeenCalledWith('https://example.com/hooks/alerts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event: 'price_alert', alert: triggeredAlert }),
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('should throw when the webhook does not respond in time', async () => {
+    // Never resolves, only rejects once the request is aborted
+    fetchSpy.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        })
+    );
+
+    await expect(
+      new WebhookNotifier('https://example.com/hooks/alerts', 10).notify(triggeredAlert)
+    ).rejects.toThrow('Alert webhook did not respond within 10 ms');
+  });
+
+  it('should throw when the webhook responds with an error', async () => {
+    fetchSpy.mockResolvedValue(new Response(null, { status: 500 }));
+
+    await expect(
+      new WebhookNotifier('https://example.com/hooks/alerts').notify(triggeredAlert)
+    ).rejects.toThrow('Alert webhook responded with HTTP 500');
+  });
+});
@@ -0,0 +1,109 @@
+import { evaluateAlert } from '../src/alerts.js';
+import type { PriceAlert, StockQuoteResponse } from '../src/types.js';
+
+describe('Alerts', () => {
+  describe('evaluateAlert', () => {
+    const quote: StockQuoteResponse = {
+      symbol: 'AAPL',
+      regularMarketPrice: 190,
+      regularMarketChangePercent: -5.5,
+      regularMarketVolume: 150000000,
+      fiftyDayAverage: 185,
+      twoHundredDayAverage: 195.5,
+      averageDailyVolume10Day: 50000000,
+    };
+
+    const alert = (fields: Partial<PriceAlert>): PriceAlert => ({
+      id: 'alert-1',
+      ticker: 'AAPL',
+      condition: 'price_above',
+      status: 'active',
+      createdAt: '2024-06-03T12:00:00.000Z',
+      ...fields,
+    });
+
+    it('should trigger price alerts at or beyond their threshold', () => {
+      expect(evaluateAlert(alert({ condition: 'price_above', threshold: 190 }), quote)).toEqual({
+        triggered: true,
+        price: 190,
+        message: 'AAPL rose to 190, above 190',
+      });
+      expect(evaluateAlert(alert({ condition: 'price_below', threshold: 200 }), quote)).toEqual({
+        triggered: true,
+        price: 190,
+        message: 'AAPL fell to 190, below 200',
+      });
+      expect(evaluateAlert(alert({ condition: 'price_above', threshold: 200 }), quote)).toEqual({
+        triggered: false,
+      });
+    });
+
+    it('should trigger percent move alerts on moves in either direction', () => {
+      expect(evaluateAlert(alert({ condition: 'percent_move', threshold: 5 }), quote)).toEqual({
+        triggered: true,
+        price: 190,
+        message: 'AAPL moved -5.5% today, to 190',
+      });
+      expect(
+        evaluateAlert(alert({ condition: 'percent_move', threshold: 6 }), quote).triggered
+      ).toBe(false);
+    });
+
+    it('should only record the side of the moving average on the first evaluation', () => {
+      expect(
+        evaluateAlert(alert({ condition: 'cross_below_average', average: '200d' }), quote)
+      ).toEqual({ triggered: false, side: 'below' });
+    });
+
+    it('should trigger crossing alerts when the price moves to the watched side', () => {
+      expect(
+        evaluateAlert(
+          alert({ condition: 'cross_below_average', average: '200d', lastSide: 'above' }),
+          quote
+        )
+      ).toEqual({
+        triggered: true,
+        side: 'below',
+        price: 190,
+        message: 'AAPL crossed below its 200d average of 195.5, at 190',
+      });
+      expect(
+        evaluateAlert(
+          alert({ condition: 'cross_above_average', average: '50d', lastSide: 'below' }),
+          quote
+        )
+      ).toEqual(expect.objectContaining({ triggered: true, side: 'above' }));
+      expect(
+        evaluateAlert(
+          alert({ condition: 'cross_above_average', average: '200d', lastSide: 'above' }),
+          quote
+        )
+      ).toEqual({ triggered: false, side: 'below' });
+    });
+
+    it('should trigger volume spike alerts against the 10-day average volume', () => {
+      expect(evaluateAlert(alert({ condition: 'volume_spike', threshold: 3 }), quote)).toEqual({
+        triggered: true,
+        price: 190,
+        message: 'AAPL traded 150000000 shares, 3x its 10-day average volume',
+      });
+      expect(
+        evaluateAlert(alert({ condition: 'volume_spike', threshold: 3.5 }), quote).triggered
+      ).toBe(false);
+    });
+
+    it('should not trigger when the quote lacks the fields of the condition', () => {
+      const bare: StockQuoteResponse = { symbol: 'AAPL' };
+
+      expect(evaluateAlert(alert({ condition: 'price_above', threshold: 1 }), bare)).toEqual({
+        triggered: false,
+      });
+      expect(
+        evaluateAlert(alert({ condition: 'cross_above_average', lastSide: 'below' }), bare)
+      ).toEqual({ triggered: false });
+      expect(evaluateAlert(alert({ condition: 'volume_spike', threshold: 2 }), bare)).toEqual({
+        triggered: false,
+      });
+    });
+  });
+});
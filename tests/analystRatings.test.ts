@@ -0,0 +1,56 @@
+import { mapPriceTargets, mapRecommendationTrend } from '../src/analystRatings.js';
+
+describe('Analyst Ratings', () => {
+  describe('mapRecommendationTrend', () => {
+    it('should label each period with its month, newest first', () => {
+      const trend = mapRecommendationTrend(
+        [
+          { period: '-2m', strongBuy: 1, buy: 2, hold: 3, sell: 0, strongSell: 0 },
+          { period: '0m', strongBuy: 2, buy: 2, hold: 2 },
+          { period: '-1y', strongBuy: 5 },
+        ],
+        new Date(2024, 0, 15)
+      );
+
+      expect(trend).toEqual([
+        {
+          period: '0m',
+          month: '2024-01',
+          strongBuy: 2,
+          buy: 2,
+          hold: 2,
+          sell: 0,
+          strongSell: 0,
+          total: 6,
+        },
+        {
+          period: '-2m',
+          month: '2023-11',
+          strongBuy: 1,
+          buy: 2,
+          hold: 3,
+          sell: 0,
+          strongSell: 0,
+          total: 6,
+        },
+      ]);
+    });
+  });
+
+  describe('mapPriceTargets', () => {
+    it('should compute the upside of each target', () => {
+      expect(mapPriceTargets({ targetLowPrice: 90, targetHighPrice: 150.5 }, 100)).toEqual({
+        low: 90,
+        high: 150.5,
+        lowUpsidePercent: -10,
+        highUpsidePercent: 50.5,
+      });
+    });
+
+    it('should return targets without upside when the current price is unknown', () => {
+      expect(mapPriceTargets({ targetMeanPrice: 120, targetMedianPrice: null }, undefined)).toEqual(
+        { mean: 120 }
+      );
+    });
+  });
+});
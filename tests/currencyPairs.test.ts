@@ -0,0 +1,36 @@
+import { cryptoSymbol, fxSymbol, parseCurrencyPair } from '../src/currencyPairs.js';
+
+describe('Currency pairs', () => {
+  describe('parseCurrencyPair', () => {
+    it('should read pairs written with a separator', () => {
+      expect(parseCurrencyPair('EUR/USD')).toEqual({ base: 'EUR', quote: 'USD' });
+      expect(parseCurrencyPair('eur-usd')).toEqual({ base: 'EUR', quote: 'USD' });
+      expect(parseCurrencyPair(' EUR  USD ')).toEqual({ base: 'EUR', quote: 'USD' });
+      expect(parseCurrencyPair('EUR to JPY')).toEqual({ base: 'EUR', quote: 'JPY' });
+      expect(parseCurrencyPair('BTC in EUR')).toEqual({ base: 'BTC', quote: 'EUR' });
+      expect(parseCurrencyPair('DOGE/CHF')).toEqual({ base: 'DOGE', quote: 'CHF' });
+    });
+
+    it('should read pairs of two codes written together and Yahoo FX symbols', () => {
+      expect(parseCurrencyPair('EURUSD')).toEqual({ base: 'EUR', quote: 'USD' });
+      expect(parseCurrencyPair('GBPJPY=X')).toEqual({ base: 'GBP', quote: 'JPY' });
+    });
+
+    it('should use the default quote currency for a single currency', () => {
+      expect(parseCurrencyPair('btc', 'USD')).toEqual({ base: 'BTC', quote: 'USD' });
+      expect(parseCurrencyPair('BTC')).toBeNull();
+    });
+
+    it('should return null for text that is not a pair', () => {
+      expect(parseCurrencyPair('euros to dollars')).toBeNull();
+      expect(parseCurrencyPair('EUR/US')).toBeNull();
+    });
+  });
+
+  describe('symbols', () => {
+    it('should build Yahoo FX and crypto symbols', () => {
+      expect(fxSymbol('EUR', 'USD')).toBe('EURUSD=X');
+      expect(cryptoSymbol('BTC', 'EUR')).toBe('BTC-EUR');
+    });
+  });
+});
@@ -12,6 +12,12 @@ class MockYahooClient implements YahooClient {
   quote = jest.fn();
   search = jest.fn();
   chart = jest.fn();
+  quoteSummary = jest.fn();
+  fundamentalsTimeSeries = jest.fn();
+  options = jest.fn();
+  ownership = jest.fn();
+  screener = jest.fn();
+  trendingSymbols = jest.fn();
 }
 
 // Mock StockQuotesService for testing
@@ -0,0 +1,173 @@
+import type { DividendHolding } from '../src/dividendProjection.js';
+import { paymentsPerYear, projectDividendIncome } from '../src/dividendProjection.js';
+
+describe('Dividend projection', () => {
+  const quarterly = [
+    { exDate: '2024-03-14', amount: 0.485 },
+    { exDate: '2024-06-14', amount: 0.485 },
+    { exDate: '2024-09-13', amount: 0.485 },
+    { exDate: '2024-11-29', amount: 0.485 },
+  ];
+
+  const holding = (fields: Partial<DividendHolding>): DividendHolding => ({
+    position: { ticker: 'KO', quantity: 100, costBasis: 50 },
+    currency: 'USD',
+    price: 62,
+    dividends: quarterly,
+    costRate: 1,
+    ...fields,
+  });
+
+  describe('paymentsPerYear', () => {
+    it('should infer the frequency from the median interval between ex-dates', () => {
+      expect(paymentsPerYear(quarterly)).toBe(4);
+      expect(
+        paymentsPerYear([
+          { exDate: '2023-05-10', amount: 1 },
+          { exDate: '2023-11-10', amount: 1 },
+          { exDate: '2023-12-20', amount: 5 },
+          { exDate: '2024-05-10', amount: 1 },
+          { exDate: '2024-11-08', amount: 1 },
+        ])
+      ).toBe(2);
+    });
+
+    it('should treat a single dividend as annual and no dividends as unknown', () => {
+      expect(paymentsPerYear([{ exDate: '2024-05-10', amount: 1 }])).toBe(1);
+      expect(paymentsPerYear([])).toBeUndefined();
+    });
+  });
+
+  describe('projectDividendIncome', () => {
+    it('should project the income and ex-dates from the dividend history', () => {
+      const projection = projectDividendIncome([holding({ name: 'Coca-Cola' })], '2025-01-15');
+
+      expect(projection).toEqual({
+        holdings: [
+          {
+            ticker: 'KO',
+            name: 'Coca-Cola',
+            quantity: 100,
+            currency: 'USD',
+            annualDividendPerShare: 1.94,
+            annualIncome: 194,
+            monthlyIncome: 16.17,
+            dividendYield: 3.13,
+            yieldOnCost: 3.88,
+            paymentsPerYear: 4,
+            lastExDate: '2024-11-29',
+            lastDividend: 0.485,
+            nextExDate: '2025-02-28',
+            nextPaymentEstimate: 48.5,
+            basis: 'dividend_history',
+          },
+        ],
+        currencies: [
+          {
+            currency: 'USD',
+            annualIncome: 194,
+            monthlyIncome: 16.17,
+            schedule: [
+              { month: '2025-02', income: 48.5 },
+              { month: '2025-05', income: 48.5 },
+              { month: '2025-08', income: 48.5 },
+              { month: '2025-11', income: 48.5 },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should project from the regular payments when the latest dividend is special', () => {
+      const projection = projectDividendIncome(
+        [
+          holding({
+            dividends: [...quarterly, { exDate: '2024-12-20', amount: 3 }],
+          }),
+          holding({
+            position: { ticker: 'ULVR.L', quantity: 10 },
+            currency: 'GBP',
+            price: 48,
+            dividends: [
+              { exDate: '2023-05-11', amount: 0.9 },
+              { exDate: '2023-11-09', amount: 0.4 },
+              { exDate: '2024-05-09', amount: 1 },
+              { exDate: '2024-11-07', amount: 0.45 },
+            ],
+          }),
+        ],
+        '2025-01-15'
+      );
+
+      expect(projection.holdings[0]).toEqual(
+        expect.objectContaining({
+          annualDividendPerShare: 1.94,
+          paymentsPerYear: 4,
+          lastDividend: 3,
+          nextPaymentEstimate: 48.5,
+        })
+      );
+      expect(projection.holdings[1]).toEqual(
+        expect.objectContaining({
+          annualDividendPerShare: 1.45,
+          annualIncome: 14.5,
+          paymentsPerYear: 2,
+          nextPaymentEstimate: 7.25,
+        })
+      );
+    });
+
+    it('should fall back to the trailing rate and then the yield without a recent history', () => {
+      const projection = projectDividendIncome(
+        [
+          holding({ trailingAnnualDividendRate: 1.8 }),
+          holding({
+            position: { ticker: 'XOM', quantity: 10 },
+            price: 110,
+            dividendYield: 3.5,
+            dividends: [],
+          }),
+        ],
+        '2026-06-01'
+      );
+
+      expect(projection.holdings[0]).toEqual(
+        expect.objectContaining({ annualDividendPerShare: 1.8, basis: 'trailing_rate' })
+      );
+      expect(projection.holdings[0].nextExDate).toBeUndefined();
+      expect(projection.holdings[0].paymentsPerYear).toBeUndefined();
+      expect(projection.holdings[1]).toEqual(
+        expect.objectContaining({ annualDividendPerShare: 3.85, annualIncome: 38.5 })
+      );
+      expect(projection.holdings[1].yieldOnCost).toBeUndefined();
+      expect(projection.currencies).toEqual([
+        { currency: 'USD', annualIncome: 218.5, monthlyIncome: 18.21, schedule: [] },
+      ]);
+    });
+
+    it('should convert the cost basis for the yield on cost and total per currency', () => {
+      const projection = projectDividendIncome(
+        [
+          holding({
+            position: { ticker: 'ULVR.L', quantity: 10, costBasis: 40, currency: 'USD' },
+            currency: 'GBP',
+            price: 48,
+            dividends: [],
+            trailingAnnualDividendRate: 1.5,
+            costRate: 0.8,
+          }),
+          holding({}),
+        ],
+        '2025-01-15'
+      );
+
+      expect(projection.holdings[0].yieldOnCost).toBe(4.69);
+      expect(
+        projection.currencies.map(({ currency, annualIncome }) => ({ currency, annualIncome }))
+      ).toEqual([
+        { currency: 'USD', annualIncome: 194 },
+        { currency: 'GBP', annualIncome: 15 },
+      ]);
+    });
+  });
+});
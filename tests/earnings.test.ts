@@ -0,0 +1,63 @@
+import {
+  mapEarningsDateWindow,
+  mapEarningsEstimates,
+  mapEarningsHistory,
+} from '../src/earnings.js';
+
+describe('Earnings', () => {
+  describe('mapEarningsDateWindow', () => {
+    it('should return null when no earnings date is announced', () => {
+      expect(mapEarningsDateWindow(undefined)).toBeNull();
+      expect(mapEarningsDateWindow({ earnings: { earningsDate: [] } })).toBeNull();
+    });
+
+    it('should map an estimated window from its first to its last date', () => {
+      expect(
+        mapEarningsDateWindow({
+          earnings: {
+            earningsDate: [new Date('2024-11-04T00:00:00Z'), new Date('2024-10-28T00:00:00Z')],
+            earningsLow: 0.9,
+            earningsHigh: 1.1,
+            revenueLow: null,
+          },
+        })
+      ).toEqual({
+        startDate: '2024-10-28',
+        endDate: '2024-11-04',
+        isEstimate: true,
+        epsLow: 0.9,
+        epsHigh: 1.1,
+      });
+    });
+
+    it('should keep a single confirmed date', () => {
+      expect(
+        mapEarningsDateWindow({
+          earnings: { earningsDate: [new Date('2024-10-31T20:30:00Z')] },
+        })
+      ).toEqual({ startDate: '2024-10-31', endDate: '2024-10-31', isEstimate: false });
+    });
+  });
+
+  describe('mapEarningsHistory', () => {
+    it('should skip quarters without a date and convert the surprise to percent', () => {
+      expect(
+        mapEarningsHistory([
+          { quarter: null, epsActual: 1 },
+          { quarter: new Date('2024-06-30T00:00:00Z'), epsActual: -0.2, surprisePercent: -1.5 },
+        ])
+      ).toEqual([{ quarter: '2024-06-30', epsActual: -0.2, surprisePercent: -150 }]);
+    });
+  });
+
+  describe('mapEarningsEstimates', () => {
+    it('should skip entries without a period and ignore missing estimates', () => {
+      expect(
+        mapEarningsEstimates([
+          { endDate: null },
+          { period: '+1y', endDate: null, earningsEstimate: { avg: 7.5, low: null } },
+        ])
+      ).toEqual([{ period: '+1y', epsEstimate: 7.5 }]);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { JsonFileStore } from '../src/jsonFileStore.js';
+
+describe('JsonFileStore', () => {
+  let directory: string;
+  let filePath: string;
+  let store: JsonFileStore<{ items: string[] }>;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'json-file-store-'));
+    filePath = path.join(directory, 'data', 'items.json');
+    store = new JsonFileStore(filePath, () => ({ items: [] }));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should read the empty document before anything is stored', async () => {
+    await expect(store.read()).resolves.toEqual({ items: [] });
+  });
+
+  it('should store changes in the file, creating its directory', async () => {
+    const count = await store.update((document) => document.items.push('AAPL'));
+
+    expect(count).toBe(1);
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual({ items: ['AAPL'] });
+    await expect(
+      new JsonFileStore(filePath, () => ({ items: [] as string[] })).read()
+    ).resolves.toEqual({ items: ['AAPL'] });
+  });
+
+  it('should apply concurrent changes one at a time', async () => {
+    await Promise.all(
+      ['AAPL', 'MSFT', 'NVDA'].map((ticker) =>
+        store.update((document) => document.items.push(ticker))
+      )
+    );
+
+    await expect(store.read()).resolves.toEqual({ items: ['AAPL', 'MSFT', 'NVDA'] });
+    await expect(readdir(path.dirname(filePath))).resolves.toEqual(['items.json']);
+  });
+
+  it('should store nothing when a change throws', async () => {
+    await store.update((document) => document.items.push('AAPL'));
+
+    await expect(
+      store.update((document) => {
+        document.items.push('MSFT');
+        throw new Error('Invalid change');
+      })
+    ).rejects.toThrow('Invalid change');
+    await expect(store.read()).resolves.toEqual({ items: ['AAPL'] });
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  holdingPeriod,
+  replayLedger,
+  reportRealizedGains,
+  reportTaxLots,
+  sortTransactions,
+} from '../src/ledger.js';
+import type { LedgerTransaction } from '../src/types.js';
+
+describe('Ledger', () => {
+  const recordedAt = '2024-06-03T12:00:00.000Z';
+  const buy = (
+    id: string,
+    date: string,
+    quantity: number,
+    price: number,
+    fees?: number
+  ): LedgerTransaction => ({
+    id,
+    type: 'buy',
+    ticker: 'AAPL',
+    date,
+    quantity,
+    price,
+    fees,
+    recordedAt,
+  });
+  const sell = (
+    id: string,
+    date: string,
+    quantity: number,
+    price: number,
+    fields: Partial<LedgerTransaction> = {}
+  ): LedgerTransaction => ({
+    id,
+    type: 'sell',
+    ticker: 'AAPL',
+    date,
+    quantity,
+    price,
+    lotMethod: 'fifo',
+    recordedAt,
+    ...fields,
+  });
+
+  const purchases = [buy('lot-1', '2022-01-10', 10, 100, 10), buy('lot-2', '2023-06-01', 10, 150)];
+
+  describe('holdingPeriod', () => {
+    it('should count the days held and make holdings of more than a year long term', () => {
+      expect(holdingPeriod('2023-03-01', '2024-03-01')).toEqual({
+        holdingDays: 366,
+        term: 'short',
+      });
+      expect(holdingPeriod('2023-03-01', '2024-03-02')).toEqual({ holdingDays: 367, term: 'long' });
+    });
+  });
+
+  describe('sortTransactions', () => {
+    it('should sort by date with splits first on their date', () => {
+      const split: LedgerTransaction = {
+        id: 'split',
+        type: 'split',
+        ticker: 'AAPL',
+        date: '2023-06-01',
+        ratio: 2,
+        recordedAt,
+      };
+
+      expect(sortTransactions([purchases[1], split, purchases[0]]).map(({ id }) => id)).toEqual([
+        'lot-1',
+        'split',
+        'lot-2',
+      ]);
+    });
+  });
+
+  describe('replayLedger', () => {
+    it('should match sales first in first out, sharing the fees', () => {
+      const replay = replayLedger([
+        ...purchases,
+        sell('sale-1', '2024-03-01', 15, 200, { fees: 15 }),
+      ]);
+
+      expect(replay.realized).toEqual([
+        {
+          sellId: 'sale-1',
+          lotId: 'lot-1',
+          ticker: 'AAPL',
+          acquiredAt: '2022-01-10',
+          soldAt: '2024-03-01',
+          quantity: 10,
+          proceeds: 1990,
+          costBasis: 1010,
+          gain: 980,
+          holdingDays: 781,
+          term: 'long',
+        },
+        {
+          sellId: 'sale-1',
+          lotId: 'lot-2',
+          ticker: 'AAPL',
+          acquiredAt: '2023-06-01',
+          soldAt: '2024-03-01',
+          quantity: 5,
+          proceeds: 995,
+          costBasis: 750,
+          gain: 245,
+          holdingDays: 274,
+          term: 'short',
+        },
+      ]);
+      expect(replay.openLots).toEqual([
+        {
+          lotId: 'lot-2',
+          ticker: 'AAPL',
+          acquiredAt: '2023-06-01',
+          quantity: 5,
+          costPerShare: 150,
+        },
+      ]);
+    });
+
+    it('should match sales last in first out', () => {
+      const replay = replayLedger([
+        ...purchases,
+        sell('sale-1', '2024-03-01', 5, 200, { lotMethod: 'lifo' }),
+      ]);
+
+      expect(replay.realized).toEqual([expect.objectContaining({ lotId: 'lot-2', quantity: 5 })]);
+      expect(replay.openLots.map(({ lotId, quantity }) => ({ lotId, quantity }))).toEqual([
+        { lotId: 'lot-1', quantity: 10 },
+        { lotId: 'lot-2', quantity: 5 },
+      ]);
+    });
+
+    it('should match sales with the lots they name', () => {
+      const replay = replayLedger([
+        ...purchases,
+        sell('sale-1', '2024-03-01', 6, 200, {
+          lotMethod: 'specific',
+          lots: [
+            { lotId: 'lot-2', quantity: 4 },
+            { lotId: 'lot-1', quantity: 2 },
+          ],
+        }),
+      ]);
+
+      expect(replay.realized.map(({ lotId, quantity }) => ({ lotId, quantity }))).toEqual([
+        { lotId: 'lot-2', quantity: 4 },
+        { lotId: 'lot-1', quantity: 2 },
+      ]);
+      expect(replay.invalid).toBeUndefined();
+    });
+
+    it('should adjust the open lots for splits', () => {
+      const replay = replayLedger([
+        purchases[0],
+        { id: 'split', type: 'split', ticker: 'AAPL', date: '2022-08-01', ratio: 4, recordedAt },
+      ]);
+
+      expect(replay.openLots).toEqual([
+        expect.objectContaining({ lotId: 'lot-1', quantity: 40, costPerShare: 25.25 }),
+      ]);
+    });
+
+    it('should collect the dividends', () => {
+      const replay = replayLedger([
+        purchases[0],
+        {
+          id: 'div-1',
+          type: 'dividend',
+          ticker: 'AAPL',
+          date: '2022-05-12',
+          amount: 2.3,
+          recordedAt,
+        },
+      ]);
+
+      expect(replay.dividends).toEqual([
+        { transactionId: 'div-1', ticker: 'AAPL', date: '2022-05-12', amount: 2.3 },
+      ]);
+    });
+
+    it('should stop at sales of shares that are not held', () => {
+      expect(replayLedger([...purchases, sell('sale-1', '2023-01-01', 15, 120)]).invalid).toEqual({
+        transactionId: 'sale-1',
+        reason: 'Cannot sell 15 shares of AAPL on 2023-01-01: only 10 are held.',
+      });
+      expect(
+        replayLedger([
+          ...purchases,
+          sell('sale-1', '2024-03-01', 12, 200, {
+            lotMethod: 'specific',
+            lots: [{ lotId: 'lot-1', quantity: 12 }],
+          }),
+        ]).invalid?.reason
+      ).toBe('Lot lot-1 holds only 10 shares of AAPL on 2024-03-01.');
+    });
+
+    it('should ignore the transactions after the until date', () => {
+      const replay = replayLedger(
+        [...purchases, sell('sale-1', '2024-03-01', 20, 200)],
+        '2023-12-31'
+      );
+
+      expect(replay.openLots).toHaveLength(2);
+      expect(replay.realized).toEqual([]);
+    });
+  });
+
+  describe('reportTaxLots', () => {
+    it('should value the lots and total them per ticker', () => {
+      const { openLots } = replayLedger(purchases);
+
+      const report = reportTaxLots(openLots, new Map([['AAPL', 200]]), '2024-03-01');
+
+      expect(report).toEqual({
+        asOf: '2024-03-01',
+        costBasis: 2510,
+        marketValue: 4000,
+        unrealizedGain: 1490,
+        shortTermUnrealizedGain: 500,
+        longTermUnrealizedGain: 990,
+        positions: [
+          {
+            ticker: 'AAPL',
+            quantity: 20,
+            costBasis: 2510,
+            price: 200,
+            marketValue: 4000,
+            unrealizedGain: 1490,
+          },
+        ],
+        lots: [
+          {
+            lotId: 'lot-1',
+            ticker: 'AAPL',
+            acquiredAt: '2022-01-10',
+            quantity: 10,
+            costPerShare: 101,
+            costBasis: 1010,
+            price: 200,
+            marketValue: 2000,
+            unrealizedGain: 990,
+            unrealizedGainPercent: 98.02,
+            holdingDays: 781,
+            term: 'long',
+          },
+          expect.objectContaining({ lotId: 'lot-2', unrealizedGain: 500, term: 'short' }),
+        ],
+      });
+    });
+
+    it('should report lots without a price at cost', () => {
+      const { openLots } = replayLedger(purchases);
+
+      const report = reportTaxLots(openLots, new Map(), '2024-03-01');
+
+      expect(report).toEqual(
+        expect.objectContaining({ costBasis: 2510, marketValue: 0, unrealizedGain: 0 })
+      );
+      expect(report.lots[0].marketValue).toBeUndefined();
+    });
+  });
+
+  describe('reportRealizedGains', () => {
+    it('should total the sales and dividends of the period', () => {
+      const { realized, dividends } = replayLedger([
+        ...purchases,
+        {
+          id: 'div-1',
+          type: 'dividend',
+          ticker: 'AAPL',
+          date: '2023-08-10',
+          amount: 4.8,
+          recordedAt,
+        },
+        sell('sale-1', '2023-12-01', 5, 180),
+        sell('sale-2', '2024-03-01', 10, 200),
+      ]);
+
+      const report = reportRealizedGains(realized, dividends, '2024-01-01', '2024-12-31');
+
+      expect(report).toEqual({
+        fromDate: '2024-01-01',
+        toDate: '2024-12-31',
+        proceeds: 2000,
+        costBasis: 1255,
+        realizedGain: 745,
+        shortTermGain: 250,
+        longTermGain: 495,
+        dividendIncome: 0,
+        realized: [
+          expect.objectContaining({ sellId: 'sale-2', lotId: 'lot-1', quantity: 5 }),
+          expect.objectContaining({ sellId: 'sale-2', lotId: 'lot-2', quantity: 5 }),
+        ],
+        dividends: [],
+      });
+      expect(reportRealizedGains(realized, dividends).dividendIncome).toBe(4.8);
+    });
+  });
+});
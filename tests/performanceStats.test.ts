@@ -0,0 +1,190 @@
+import {
+  compareSeries,
+  computePerformanceStats,
+  correlation,
+  covariance,
+  dailyReturns,
+  maxDrawdown,
+  mean,
+  round,
+  standardDeviation,
+} from '../src/performanceStats.js';
+
+describe('Performance Statistics', () => {
+  describe('helpers', () => {
+    it('should compute simple daily returns', () => {
+      expect(dailyReturns([100, 110, 99]).map((value) => round(value, 4))).toEqual([0.1, -0.1]);
+    });
+
+    it('should compute mean, sample standard deviation and covariance', () => {
+      expect(mean([1, 2, 3])).toBe(2);
+      expect(mean([])).toBe(0);
+      expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+      expect(standardDeviation([1])).toBe(0);
+      expect(covariance([1, 2, 3], [2, 4, 6])).toBe(2);
+    });
+
+    it('should compute the correlation of two series', () => {
+      expect(correlation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 10);
+      expect(correlation([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1, 10);
+      expect(correlation([1, 1, 1], [1, 2, 3])).toBeNull();
+    });
+  });
+
+  describe('maxDrawdown', () => {
+    it('should find the largest decline and its recovery', () => {
+      const drawdown = maxDrawdown([
+        { date: '2023-01-02', close: 100 },
+        { date: '2023-01-03', close: 120 },
+        { date: '2023-01-04', close: 90 },
+        { date: '2023-01-05', close: 110 },
+        { date: '2023-01-06', close: 121 },
+      ]);
+
+      expect(drawdown).toEqual({
+        percent: -25,
+        peakDate: '2023-01-03',
+        troughDate: '2023-01-04',
+        recoveryDate: '2023-01-06',
+      });
+    });
+
+    it('should report a null recovery date when the peak is not regained', () => {
+      const drawdown = maxDrawdown([
+        { date: '2023-01-02', close: 100 },
+        { date: '2023-01-03', close: 80 },
+      ]);
+
+      expect(drawdown.recoveryDate).toBeNull();
+    });
+
+    it('should report no drawdown for a rising series', () => {
+      const drawdown = maxDrawdown([
+        { date: '2023-01-02', close: 100 },
+        { date: '2023-01-03', close: 101 },
+      ]);
+
+      expect(drawdown.percent).toBe(0);
+    });
+  });
+
+  describe('computePerformanceStats', () => {
+    it('should annualize returns over calendar time', () => {
+      const stats = computePerformanceStats('AAPL', [
+        { date: '2022-01-03', close: 100 },
+        { date: '2024-01-03', close: 121 },
+      ]);
+
+      expect(stats.totalReturnPercent).toBe(21);
+      expect(stats.annualizedReturnPercent).toBeCloseTo(10, 0);
+    });
+
+    it('should subtract the risk-free rate in the Sharpe ratio', () => {
+      const points = [
+        { date: '2023-01-03', close: 100 },
+        { date: '2023-01-04', close: 101 },
+        { date: '2023-01-05', close: 100.5 },
+        { date: '2023-01-06', close: 102 },
+      ];
+
+      const withoutRate = computePerformanceStats('AAPL', points);
+      const withRate = computePerformanceStats('AAPL', points, 5);
+
+      expect(withRate.sharpeRatio!).toBeLessThan(withoutRate.sharpeRatio!);
+      expect(withRate.riskFreeRatePercent).toBe(5);
+    });
+
+    it('should return null ratios when prices do not move', () => {
+      const stats = computePerformanceStats('CASH', [
+        { date: '2023-01-03', close: 1 },
+        { date: '2023-01-04', close: 1 },
+        { date: '2023-01-05', close: 1 },
+      ]);
+
+      expect(stats.sharpeRatio).toBeNull();
+      expect(stats.sortinoRatio).toBeNull();
+      expect(stats.annualizedVolatilityPercent).toBe(0);
+    });
+  });
+  describe('compareSeries', () => {
+    it('should rebase prices to 100 at the first date every ticker has a price', () => {
+      const comparison = compareSeries([
+        {
+          symbol: 'AAPL',
+          points: [
+            { date: '2024-01-02', close: 90 },
+            { date: '2024-01-03', close: 100 },
+            { date: '2024-01-04', close: 110 },
+          ],
+        },
+        {
+          symbol: 'ASML.AS',
+          points: [
+            { date: '2024-01-03', close: 600 },
+            { date: '2024-01-04', close: 630 },
+          ],
+        },
+      ]);
+
+      expect(comparison.fromDate).toBe('2024-01-03');
+      expect(comparison.toDate).toBe('2024-01-04');
+      expect(comparison.rebased).toEqual([
+        { 'date': '2024-01-03', 'AAPL': 100, 'ASML.AS': 100 },
+        { 'date': '2024-01-04', 'AAPL': 110, 'ASML.AS': 105 },
+      ]);
+    });
+
+    it('should carry the last close forward on days an exchange is closed', () => {
+      const comparison = compareSeries([
+        {
+          symbol: 'AAPL',
+          points: [
+            { date: '2024-07-03', close: 100 },
+            { date: '2024-07-05', close: 104 },
+          ],
+        },
+        {
+          symbol: 'ASML.AS',
+          points: [
+            { date: '2024-07-03', close: 100 },
+            { date: '2024-07-04', close: 102 },
+            { date: '2024-07-05', close: 103 },
+          ],
+        },
+      ]);
+
+      expect(comparison.rebased[1]).toEqual({ 'date': '2024-07-04', 'AAPL': 100, 'ASML.AS': 102 });
+    });
+
+    it('should rank tickers by total return and build a symmetric correlation matrix', () => {
+      const comparison = compareSeries([
+        {
+          symbol: 'SLOW',
+          points: [
+            { date: '2024-01-02', close: 100 },
+            { date: '2024-01-03', close: 101 },
+            { date: '2024-01-04', close: 100 },
+            { date: '2024-01-05', close: 102 },
+          ],
+        },
+        {
+          symbol: 'FAST',
+          points: [
+            { date: '2024-01-02', close: 100 },
+            { date: '2024-01-03', close: 102 },
+            { date: '2024-01-04', close: 100 },
+            { date: '2024-01-05', close: 104 },
+          ],
+        },
+      ]);
+
+      expect(comparison.performance.map((row) => row.symbol)).toEqual(['FAST', 'SLOW']);
+      expect(comparison.performance[0]).toEqual(
+        expect.objectContaining({ rank: 1, totalReturnPercent: 4, maxDrawdownPercent: -1.96 })
+      );
+      expect(comparison.correlationMatrix.SLOW.SLOW).toBe(1);
+      expect(comparison.correlationMatrix.SLOW.FAST).toBe(comparison.correlationMatrix.FAST.SLOW);
+      expect(comparison.correlationMatrix.SLOW.FAST).toBeGreaterThan(0.9);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { valuePortfolio } from '../src/portfolio.js';
+import type { PricedPosition } from '../src/portfolio.js';
+
+describe('Portfolio', () => {
+  describe('valuePortfolio', () => {
+    const positions: PricedPosition[] = [
+      {
+        position: { ticker: 'AAPL', quantity: 10, costBasis: 150 },
+        name: 'Apple Inc.',
+        listingCurrency: 'USD',
+        sector: 'Technology',
+        price: 200,
+        change: 2,
+        costRate: 1,
+      },
+      {
+        position: { ticker: 'SAP.DE', quantity: 5, costBasis: 180 },
+        listingCurrency: 'EUR',
+        sector: 'Technology',
+        price: 220,
+        change: -4.4,
+        costRate: 1.1,
+      },
+      {
+        position: { ticker: 'BTC-USD', quantity: 0.1 },
+        listingCurrency: 'USD',
+        price: 60000,
+        costRate: 1,
+      },
+    ];
+
+    it('should value each position in the base currency', () => {
+      const valuation = valuePortfolio('USD', positions, false);
+
+      expect(valuation.positions).toEqual([
+        {
+          ticker: 'AAPL',
+          name: 'Apple Inc.',
+          quantity: 10,
+          currency: 'USD',
+          sector: 'Technology',
+          price: 200,
+          marketValue: 2000,
+          costBasis: 1500,
+          unrealizedPnl: 500,
+          unrealizedPnlPercent: 33.33,
+          dayChange: 20,
+          dayChangePercent: 1.01,
+          weight: 21.98,
+        },
+        {
+          ticker: 'SAP.DE',
+          quantity: 5,
+          currency: 'EUR',
+          sector: 'Technology',
+          price: 220,
+          marketValue: 1100,
+          costBasis: 990,
+          unrealizedPnl: 110,
+          unrealizedPnlPercent: 11.11,
+          dayChange: -22,
+          dayChangePercent: -1.96,
+          weight: 12.09,
+        },
+        {
+          ticker: 'BTC-USD',
+          quantity: 0.1,
+          currency: 'USD',
+          price: 60000,
+          marketValue: 6000,
+          weight: 65.93,
+        },
+      ]);
+    });
+
+    it('should total the positions where cost basis and day change are known', () => {
+      const valuation = valuePortfolio('USD', positions, false);
+
+      expect(valuation).toEqual(
+        expect.objectContaining({
+          baseCurrency: 'USD',
+          marketValue: 9100,
+          costBasis: 2490,
+          unrealizedPnl: 610,
+          unrealizedPnlPercent: 24.5,
+          dayChange: -2,
+          dayChangePercent: -0.06,
+        })
+      );
+    });
+
+    it('should break the market value down by sector and currency', () => {
+      const valuation = valuePortfolio('USD', positions, true);
+
+      expect(valuation.sectors).toEqual([
+        { name: 'Other', marketValue: 6000, weight: 65.93 },
+        { name: 'Technology', marketValue: 3100, weight: 34.07 },
+      ]);
+      expect(valuation.currencies).toEqual([
+        { name: 'USD', marketValue: 8000, weight: 87.91 },
+        { name: 'EUR', marketValue: 1100, weight: 12.09 },
+      ]);
+    });
+
+    it('should leave out totals no position provides', () => {
+      const valuation = valuePortfolio('EUR', [positions[2]], false);
+
+      expect(valuation).toEqual({
+        baseCurrency: 'EUR',
+        marketValue: 6000,
+        positions: [expect.objectContaining({ ticker: 'BTC-USD', weight: 100 })],
+        currencies: [{ name: 'USD', marketValue: 6000, weight: 100 }],
+      });
+    });
+  });
+});
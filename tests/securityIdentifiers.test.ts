@@ -0,0 +1,54 @@
+import {
+  hasValidCheckDigit,
+  identifierType,
+  isinCandidates,
+  normalizeIdentifier,
+} from '../src/securityIdentifiers.js';
+
+describe('Security identifiers', () => {
+  describe('identifierType', () => {
+    it('should recognize ISINs, CUSIPs and SEDOLs from their format', () => {
+      expect(identifierType('US0378331005')).toBe('isin');
+      expect(identifierType('037833100')).toBe('cusip');
+      expect(identifierType('2046251')).toBe('sedol');
+      expect(identifierType('B0YBKJ7')).toBe('sedol');
+    });
+
+    it('should return undefined for other text', () => {
+      expect(identifierType('AAPL')).toBeUndefined();
+      expect(identifierType('US037833100X')).toBeUndefined();
+      expect(identifierType('A0YBKJ7')).toBeUndefined();
+    });
+
+    it('should read identifiers written with spaces, dashes or lowercase letters', () => {
+      expect(normalizeIdentifier(' us0378331005 ')).toBe('US0378331005');
+      expect(normalizeIdentifier('037833-10-0')).toBe('037833100');
+    });
+  });
+
+  describe('hasValidCheckDigit', () => {
+    it('should accept identifiers with a matching check digit', () => {
+      expect(hasValidCheckDigit('isin', 'US0378331005')).toBe(true);
+      expect(hasValidCheckDigit('isin', 'GB0002634946')).toBe(true);
+      expect(hasValidCheckDigit('isin', 'DE000BAY0017')).toBe(true);
+      expect(hasValidCheckDigit('cusip', '037833100')).toBe(true);
+      expect(hasValidCheckDigit('cusip', '38259P508')).toBe(true);
+      expect(hasValidCheckDigit('sedol', '0263494')).toBe(true);
+      expect(hasValidCheckDigit('sedol', 'B0YBKJ7')).toBe(true);
+    });
+
+    it('should reject identifiers with a wrong check digit', () => {
+      expect(hasValidCheckDigit('isin', 'US0378331006')).toBe(false);
+      expect(hasValidCheckDigit('cusip', '037833101')).toBe(false);
+      expect(hasValidCheckDigit('sedol', '0263495')).toBe(false);
+    });
+  });
+
+  describe('isinCandidates', () => {
+    it('should build the ISINs a CUSIP or SEDOL can be part of', () => {
+      expect(isinCandidates('cusip', '037833100')).toEqual(['US0378331005', 'CA0378331007']);
+      expect(isinCandidates('sedol', '0263494')).toEqual(['GB0002634946', 'IE0002634941']);
+      expect(isinCandidates('isin', 'US0378331005')).toEqual([]);
+    });
+  });
+});
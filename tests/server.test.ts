@@ -1,16 +1,28 @@
+import { AlertScheduler } from '../src/alertScheduler.js';
 import { StockQuotesServer } from '../src/server.js';
 import { StockQuotesService } from '../src/stockQuotesService.js';
 import { HttpTransportStrategy } from '../src/transports/HttpTransportStrategy.js';
 import { StdioTransportStrategy } from '../src/transports/StdioTransportStrategy.js';
 import { TransportFactory } from '../src/transports/TransportFactory.js';
 import type { YahooClient } from '../src/yahooFinanceClient.js';
-import type { HistoricalData, StockQuoteResponse, StockSearchResult } from '../src/types.js';
+import type {
+  HistoricalData,
+  PriceAlert,
+  StockQuoteResponse,
+  StockSearchResult,
+} from '../src/types.js';
 
 // Create a mock YahooClient
 class MockYahooClient implements YahooClient {
   quote = jest.fn();
   search = jest.fn();
   chart = jest.fn();
+  quoteSummary = jest.fn();
+  fundamentalsTimeSeries = jest.fn();
+  options = jest.fn();
+  ownership = jest.fn();
+  screener = jest.fn();
+  trendingSymbols = jest.fn();
 }
 
 // Create a mock StockQuotesService that implements the interface
@@ -176,6 +188,110 @@ describe('StockQuotesServer Refactoring', () => {
     });
   });
 
+  describe('alert scheduler', () => {
+    const notifierNames = (server: StockQuotesServer): string[] =>
+      (server as any).alertScheduler.notifiers.map((notifier: { name: string }) => notifier.name);
+
+    it('should not schedule alert checks when their interval is 0', () => {
+      const server = new StockQuotesServer(
+        {
+          name: 'test-server',
+          version: '1.0.0',
+          transport: 'stdio' as const,
+          httpPort: 3000,
+          alertIntervalSeconds: 0,
+        },
+        mockStockService
+      );
+
+      expect((server as any).alertScheduler).toBeUndefined();
+    });
+
+    it('should notify through MCP logging with the stdio transport', () => {
+      const server = new StockQuotesServer(
+        { name: 'test-server', version: '1.0.0', transport: 'stdio' as const, httpPort: 3000 },
+        mockStockService
+      );
+
+      expect(notifierNames(server)).toEqual(['mcp_logging']);
+    });
+
+    it('should only notify through the webhook with the http transport', () => {
+      const config = {
+        name: 'test-server',
+        version: '1.0.0',
+        transport: 'http' as const,
+        httpPort: 3000,
+        httpHost: 'localhost',
+      };
+
+      expect(notifierNames(new StockQuotesServer(config, mockStockService))).toEqual([]);
+      expect(
+        notifierNames(
+          new StockQuotesServer(
+            { ...config, alertWebhookUrl: 'https://example.com/alerts' },
+            mockStockService
+          )
+        )
+      ).toEqual(['webhook']);
+    });
+
+    it('should not record a delivery without notifiers', async () => {
+      const alert: PriceAlert = {
+        id: 'alert-1',
+        ticker: 'AAPL',
+        condition: 'price_above',
+        threshold: 200,
+        status: 'triggered',
+        createdAt: '2024-06-03T12:00:00.000Z',
+      };
+      jest
+        .spyOn(mockStockService, 'checkAlerts')
+        .mockResolvedValue({ checkedAt: '2024-06-04T15:00:00.000Z', checked: 1, triggered: [] });
+      jest.spyOn(mockStockService, 'listAlerts').mockResolvedValue([alert]);
+      const recordSpy = jest.spyOn(mockStockService, 'recordAlertDelivery').mockResolvedValue();
+      const server = new StockQuotesServer(
+        {
+          name: 'test-server',
+          version: '1.0.0',
+          transport: 'http' as const,
+          httpPort: 3000,
+          httpHost: 'localhost',
+        },
+        mockStockService
+      );
+
+      await (server as any).alertScheduler.runCheck();
+
+      expect(recordSpy).not.toHaveBeenCalled();
+    });
+
+    it('should start the alert checks on connect and stop them on close', async () => {
+      const startSpy = jest.spyOn(AlertScheduler.prototype, 'start');
+      const stopSpy = jest.spyOn(AlertScheduler.prototype, 'stop');
+      const server = new StockQuotesServer(
+        {
+          name: 'test-server',
+          version: '1.0.0',
+          transport: 'stdio' as const,
+          httpPort: 3000,
+          alertIntervalSeconds: 60,
+        },
+        mockStockService
+      );
+
+      await server.connect();
+      expect(startSpy).toHaveBeenCalledTimes(1);
+      expect(stopSpy).not.toHaveBeenCalled();
+
+      await server.close();
+      expect(stopSpy).toHaveBeenCalledTimes(1);
+
+      startSpy.mockRestore();
+      stopSpy.mockRestore();
+    });
+  });
+
   describe('getApp method', () => {
     it('should throw error when getApp is called on stdio transport', () => {
       const config = {
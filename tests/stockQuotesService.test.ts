@@ -1,12 +1,17 @@
+import { addDays, addMonths, format, subDays, subYears } from 'date-fns';
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import { StockQuotesService } from '../src/stockQuotesService.js';
 import { logger } from '../src/logger.js';
-import { ValidationError } from '../src/errors.js';
+import { NotFoundError, RateLimitError, ValidationError } from '../src/errors.js';
 import type { YahooClient } from '../src/yahooFinanceClient.js';
 
 // Mock logger
 jest.mock('../src/logger.js', () => ({
   logger: {
     info: jest.fn(),
+    warn: jest.fn(),
     error: jest.fn(),
     debug: jest.fn(),
   },
@@ -19,6 +24,18 @@ const mockQuote = jest.fn<Promise<any | any[]>, [string | string[]]>();
 const mockSearch = jest.fn<Promise<any>, [string]>();
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const mockChart = jest.fn<Promise<any>, [string]>();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const mockQuoteSummary = jest.fn<Promise<any>, [string]>();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const mockFundamentalsTimeSeries = jest.fn<Promise<any>, [string, any]>();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const mockOptions = jest.fn<Promise<any>, [string]>();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const mockOwnership = jest.fn<Promise<any>, [string]>();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const mockScreener = jest.fn<Promise<any>, [any]>();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const mockTrendingSymbols = jest.fn<Promise<any>, [string, any]>();
 
 jest.mock('yahoo-finance2', () => {
   return {
@@ -27,6 +44,10 @@ jest.mock('yahoo-finance2', () => {
       quote: mockQuote,
       search: mockSearch,
       chart: mockChart,
+      quoteSummary: mockQuoteSummary,
+      options: mockOptions,
+      screener: mockScreener,
+      trendingSymbols: mockTrendingSymbols,
     })),
   };
 });
@@ -44,6 +65,12 @@ describe('StockQuotesService', () => {
       quote: mockQuote,
       search: mockSearch,
       chart: mockChart,
+      quoteSummary: mockQuoteSummary,
+      fundamentalsTimeSeries: mockFundamentalsTimeSeries,
+      options: mockOptions,
+      ownership: mockOwnership,
+      screener: mockScreener,
+      trendingSymbols: mockTrendingSymbols,
     };
 
     service = new StockQuotesService(mockYahooClient);
@@ -207,6 +234,144 @@ describe('StockQuotesService', () => {
       expect(quote).not.toHaveProperty('regularMarketPrice');
       expect(quote).not.toHaveProperty('exchange');
     });
+    it('should convert prices to the target currency', async () => {
+      mockQuote.mockImplementation((symbol) =>
+        Promise.resolve(
+          symbol === 'USDEUR=X'
+            ? {
+                symbol: 'USDEUR=X',
+                currency: 'EUR',
+                regularMarketPrice: 0.9,
+                regularMarketTime: new Date('2024-01-02T15:00:00Z'),
+              }
+            : {
+                symbol: 'AAPL',
+                currency: 'USD',
+                regularMarketPrice: 200,
+                marketCap: 3000,
+                regularMarketVolume: 1000,
+              }
+        )
+      );
+
+      const quote = await service.getQuote({ ticker: 'AAPL', targetCurrency: 'EUR' });
+
+      expect(quote).toMatchObject({
+        symbol: 'AAPL',
+        currency: 'EUR',
+        regularMarketPrice: 180,
+        marketCap: 2700,
+        regularMarketVolume: 1000,
+        conversion: {
+          fromCurrency: 'USD',
+          toCurrency: 'EUR',
+          symbol: 'USDEUR=X',
+          rate: 0.9,
+          rateTime: '2024-01-02T15:00:00.000Z',
+        },
+      });
+    });
+
+    it('should request the currency when converting selected fields', async () => {
+      mockQuote.mockImplementation((symbol) =>
+        Promise.resolve(
+          symbol === 'USDEUR=X'
+            ? { symbol: 'USDEUR=X', regularMarketPrice: 0.5 }
+            : { symbol: 'AAPL', currency: 'USD', regularMarketPrice: 200 }
+        )
+      );
+
+      const quote = await service.getQuote({
+        ticker: 'AAPL',
+        fields: ['regularMarketPrice'],
+        targetCurrency: 'EUR',
+      });
+
+      expect(mockQuote).toHaveBeenCalledWith('AAPL', {
+        fields: ['regularMarketPrice', 'currency'],
+      });
+      expect(quote.regularMarketPrice).toBe(100);
+      expect(quote.currency).toBe('EUR');
+    });
+
+    it('should not convert a quote already in the target currency', async () => {
+      mockQuote.mockResolvedValue({ symbol: 'AAPL', currency: 'USD', regularMarketPrice: 200 });
+
+      const quote = await service.getQuote({ ticker: 'AAPL', targetCurrency: 'USD' });
+
+      expect(quote.regularMarketPrice).toBe(200);
+      expect(quote).not.toHaveProperty('conversion');
+      expect(mockQuote).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw NotFoundError when no exchange rate is found', async () => {
+      mockQuote.mockImplementation((symbol) =>
+        symbol === 'USDXYZ=X'
+          ? Promise.resolve(undefined)
+          : Promise.resolve({ symbol: 'AAPL', currency: 'USD', regularMarketPrice: 200 })
+      );
+
+      await expect(service.getQuote({ ticker: 'AAPL', targetCurrency: 'XYZ' })).rejects.toThrow(
+        'No exchange rate found from USD to XYZ.'
+      );
+    });
+
+    it('should normalize prices quoted in pence to pounds', async () => {
+      mockQuote.mockResolvedValue({
+        symbol: 'VOD.L',
+        currency: 'GBp',
+        regularMarketPrice: 7050,
+        regularMarketChange: -25,
+        marketCap: 19000000000,
+        trailingPE: 12.5,
+      });
+
+      const quote = await service.getQuote({ ticker: 'VOD.L' });
+
+      expect(quote).toEqual({
+        symbol: 'VOD.L',
+        currency: 'GBP',
+        regularMarketPrice: 70.5,
+        regularMarketChange: -0.25,
+        marketCap: 19000000000,
+        trailingPE: 12.5,
+      });
+    });
+
+    it('should return the raw prices in the minor unit when requested', async () => {
+      mockQuote.mockResolvedValue({ symbol: 'TEVA.TA', currency: 'ILA', regularMarketPrice: 6500 });
+
+      const quote = await service.getQuote({
+        ticker: 'TEVA.TA',
+        fields: ['regularMarketPrice'],
+        includeRawPrices: true,
+      });
+
+      expect(mockQuote).toHaveBeenCalledWith('TEVA.TA', {
+        fields: ['regularMarketPrice', 'currency'],
+      });
+      expect(quote).toEqual({
+        symbol: 'TEVA.TA',
+        regularMarketPrice: 65,
+        rawPrices: { currency: 'ILA', divisor: 100, prices: { regularMarketPrice: 6500 } },
+      });
+    });
+
+    it('should convert prices quoted in pence from pounds', async () => {
+      mockQuote.mockImplementation((symbol) =>
+        Promise.resolve(
+          symbol === 'GBPUSD=X'
+            ? { symbol: 'GBPUSD=X', regularMarketPrice: 1.25 }
+            : { symbol: 'VOD.L', currency: 'GBp', regularMarketPrice: 8000 }
+        )
+      );
+
+      const quote = await service.getQuote({ ticker: 'VOD.L', targetCurrency: 'USD' });
+
+      expect(quote.regularMarketPrice).toBe(100);
+      expect(quote.currency).toBe('USD');
+      expect(quote.conversion?.symbol).toBe('GBPUSD=X');
+    });
   });
 
   describe('getQuotes', () => {
@@ -377,10 +542,15 @@ describe('StockQuotesService', () => {
       const results = await service.search(query);
 
       expect(results).toEqual([
-        { symbol: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ' },
-        { symbol: 'GOOGL', name: 'Alphabet Inc. (GOOGL)', exchange: 'NASDAQ' },
+        { symbol: 'AAPL', name: 'Apple Inc.', exchange: 'NASDAQ', quoteType: 'EQUITY' },
+        {
+          symbol: 'GOOGL',
+          name: 'Alphabet Inc. (GOOGL)',
+          exchange: 'NASDAQ',
+          quoteType: 'EQUITY',
+        },
       ]);
-      expect(mockSearch).toHaveBeenCalledWith(query);
+      expect(mockSearch).toHaveBeenCalledWith(query, { quotesCount: 10, newsCount: 0 });
     });
 
     it('should return empty array if no search results are found', async () => {
@@ -396,7 +566,7 @@ describe('StockQuotesService', () => {
       const results = await service.search(query);
 
       expect(results).toEqual([]);
-      expect(mockSearch).toHaveBeenCalledWith(query);
+      expect(mockSearch).toHaveBeenCalledWith(query, { quotesCount: 10, newsCount: 0 });
     });
 
     it('should handle quotes with longname instead of shortname', async () => {
@@ -419,10 +589,89 @@ describe('StockQuotesService', () => {
       const results = await service.search(query);
 
       expect(results).toEqual([
-        { symbol: 'GOOGL', name: 'Alphabet Inc. (GOOGL)', exchange: 'NASDAQ' },
+        {
+          symbol: 'GOOGL',
+          name: 'Alphabet Inc. (GOOGL)',
+          exchange: 'NASDAQ',
+          quoteType: 'EQUITY',
+        },
+      ]);
+    });
+
+    it('should return the type, exchange name, sector and industry of each result', async () => {
+      mockSearch.mockResolvedValue({
+        quotes: [
+          {
+            symbol: 'XOM',
+            shortname: 'Exxon Mobil Corporation',
+            exchange: 'NYQ',
+            exchDisp: 'NYSE',
+            quoteType: 'EQUITY',
+            sector: 'Energy',
+            industry: 'Oil & Gas Integrated',
+          },
+          { symbol: '^XOI', exchange: 'ASE', exchDisp: 'NYSE American', quoteType: 'INDEX' },
+        ],
+      });
+
+      const results = await service.search('exxon');
+
+      expect(results).toEqual([
+        {
+          symbol: 'XOM',
+          name: 'Exxon Mobil Corporation',
+          exchange: 'NYQ',
+          quoteType: 'EQUITY',
+          exchDisp: 'NYSE',
+          sector: 'Energy',
+          industry: 'Oil & Gas Integrated',
+        },
+        {
+          symbol: '^XOI',
+          name: '^XOI',
+          exchange: 'ASE',
+          quoteType: 'INDEX',
+          exchDisp: 'NYSE American',
+        },
       ]);
     });
 
+    it('should filter results by instrument type and exchange', async () => {
+      mockSearch.mockResolvedValue({
+        quotes: [
+          { symbol: 'GLD', shortname: 'SPDR Gold Trust', exchange: 'PCX', quoteType: 'ETF' },
+          {
+            symbol: 'IAU',
+            shortname: 'iShares Gold Trust',
+            exchange: 'PCX',
+            exchDisp: 'NYSEArca',
+            quoteType: 'ETF',
+          },
+          { symbol: 'GOLD', shortname: 'Barrick Gold', exchange: 'NYQ', quoteType: 'EQUITY' },
+          {
+            symbol: 'SGLN.L',
+            shortname: 'iShares Physical Gold',
+            exchange: 'LSE',
+            quoteType: 'ETF',
+          },
+        ],
+      });
+
+      const results = await service.search('gold', {
+        quoteType: 'etf',
+        exchange: 'nysearca',
+        region: 'US',
+        limit: 1,
+      });
+
+      expect(mockSearch).toHaveBeenCalledWith('gold', {
+        quotesCount: 50,
+        newsCount: 0,
+        region: 'US',
+      });
+      expect(results.map((result) => result.symbol)).toEqual(['IAU']);
+    });
+
     it('should handle search error', async () => {
       mockSearch.mockRejectedValue(new Error('Search API error'));
 
@@ -430,6 +679,98 @@ describe('StockQuotesService', () => {
     });
   });
 
+  describe('resolveIdentifier', () => {
+    const appleSearch = {
+      quotes: [
+        { symbol: 'AAPL', shortname: 'Apple Inc.', exchange: 'NMS', quoteType: 'EQUITY' },
+        { symbol: 'APC.DE', shortname: 'APPLE INC', exchange: 'GER', quoteType: 'EQUITY' },
+      ],
+    };
+
+    it('should resolve an ISIN to its Yahoo Finance listings', async () => {
+      mockSearch.mockResolvedValue(appleSearch);
+
+      const result = await service.resolveIdentifier('us0378331005');
+
+      expect(mockSearch).toHaveBeenCalledWith('US0378331005', { quotesCount: 10, newsCount: 0 });
+      expect(result).toEqual({
+        identifier: 'US0378331005',
+        identifierType: 'isin',
+        symbol: 'AAPL',
+        name: 'Apple Inc.',
+        listings: [
+          { symbol: 'AAPL', name: 'Apple Inc.', exchange: 'NMS', quoteType: 'EQUITY' },
+          { symbol: 'APC.DE', name: 'APPLE INC', exchange: 'GER', quoteType: 'EQUITY' },
+        ],
+      });
+    });
+
+    it('should look up a CUSIP through its ISIN when Yahoo Finance does not find it', async () => {
+      mockSearch.mockImplementation((query) =>
+        Promise.resolve(query === 'US0378331005' ? appleSearch : { quotes: [] })
+      );
+
+      const result = await service.resolveIdentifier('037833100');
+
+      expect(mockSearch.mock.calls.map(([query]) => query)).toEqual(['037833100', 'US0378331005']);
+      expect(result).toEqual(
+        expect.objectContaining({
+          identifier: '037833100',
+          identifierType: 'cusip',
+          symbol: 'AAPL',
+        })
+      );
+    });
+
+    it('should cache resolved identifiers', async () => {
+      mockSearch.mockResolvedValue(appleSearch);
+
+      await service.resolveIdentifier('US0378331005');
+      await service.resolveIdentifier('US 0378331005');
+
+      expect(mockSearch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject identifiers with a wrong check digit without searching', async () => {
+      await expect(service.resolveIdentifier('US0378331006')).rejects.toThrow(ValidationError);
+      await expect(service.resolveIdentifier('2046252')).rejects.toThrow(
+        "'2046252' is not a valid SEDOL: its check digit does not match."
+      );
+      await expect(service.resolveIdentifier('AAPL')).rejects.toThrow(
+        "'AAPL' is not an ISIN, CUSIP or SEDOL."
+      );
+      expect(mockSearch).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when no listing is found', async () => {
+      mockSearch.mockResolvedValue({ quotes: [] });
+
+      await expect(service.resolveIdentifier('0263494')).rejects.toThrow(
+        'No Yahoo Finance symbol found for SEDOL 0263494'
+      );
+      expect(mockSearch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should quote a security given by its identifier', async () => {
+      mockSearch.mockResolvedValue(appleSearch);
+      mockQuote.mockResolvedValue({ symbol: 'AAPL', regularMarketPrice: 190 });
+
+      const quote = await service.getQuote({ identifier: 'US0378331005' });
+
+      expect(mockQuote).toHaveBeenCalledWith('AAPL', undefined);
+      expect(quote).toEqual({ symbol: 'AAPL', regularMarketPrice: 190 });
+    });
+
+    it('should require either a ticker or an identifier', async () => {
+      await expect(service.getQuote({})).rejects.toThrow(
+        'Either a ticker or an identifier is required.'
+      );
+      await expect(
+        service.getQuote({ ticker: 'AAPL', identifier: 'US0378331005' })
+      ).rejects.toThrow('Set either a ticker or an identifier, not both.');
+    });
+  });
+
   describe('getHistoricalData', () => {
     it('should fetch historical data and return closing prices', async () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -472,7 +813,11 @@ describe('StockQuotesService', () => {
           volume: 1100000,
         },
       ]);
-      expect(mockChart).toHaveBeenCalledWith(ticker, { period1: fromDate, period2: '2023-01-04' });
+      expect(mockChart).toHaveBeenCalledWith(ticker, {
+        period1: fromDate,
+        period2: '2023-01-04',
+        interval: '1d',
+      });
     });
 
     it('should throw ValidationError for invalid fromDate format', async () => {
@@ -506,108 +851,2622 @@ describe('StockQuotesService', () => {
       );
     });
 
-    it('should throw ValidationError if date range exceeds 5 years', async () => {
+    it('should throw ValidationError if date range exceeds the configured maximum', async () => {
+      service = new StockQuotesService(mockYahooClient, { maxHistoricalRangeYears: 5 });
+
       await expect(service.getHistoricalData('AAPL', '2010-01-01', '2016-01-01')).rejects.toThrow(
         'Date range cannot exceed 5 years.'
       );
     });
 
-    it('should throw an error if historical data fetch fails', async () => {
-      const errorMessage = 'Network error';
+    it('should throw ValidationError if date range exceeds 30 years by default', async () => {
+      await expect(service.getHistoricalData('AAPL', '1980-01-01', '2016-01-01')).rejects.toThrow(
+        'Date range cannot exceed 30 years.'
+      );
+    });
 
-      mockChart.mockRejectedValue(new Error(errorMessage));
+    it('should split long ranges into chunks and merge the bars', async () => {
+      mockChart
+        .mockResolvedValueOnce({
+          meta: { symbol: 'AAPL' },
+          quotes: [
+            { date: new Date('2010-01-04'), close: 7, high: 8, low: 6, volume: 100 },
+            { date: new Date('2014-12-31'), close: 27, high: 28, low: 26, volume: 200 },
+          ],
+        })
+        .mockResolvedValueOnce({
+          meta: { symbol: 'AAPL' },
+          quotes: [
+            { date: new Date('2014-12-31'), close: 27.5, high: 28, low: 26, volume: 250 },
+            { date: new Date('2015-01-02'), close: 27, high: 28, low: 26, volume: 300 },
+          ],
+        })
+        .mockResolvedValueOnce({
+          meta: { symbol: 'AAPL' },
+          quotes: [{ date: new Date('2020-01-02'), close: 75, high: 75, low: 73, volume: 400 }],
+        });
+
+      const historicalData = await service.getHistoricalData('AAPL', '2010-01-01', '2020-01-31', [
+        'close',
+      ]);
 
-      const ticker = 'MSFT';
-      const fromDate = '2023-01-01';
-      const toDate = '2023-01-03';
+      expect(mockChart).toHaveBeenCalledTimes(3);
+      expect(mockChart).toHaveBeenNthCalledWith(1, 'AAPL', {
+        period1: '2010-01-01',
+        period2: '2015-01-01',
+        interval: '1d',
+      });
+      expect(mockChart).toHaveBeenNthCalledWith(2, 'AAPL', {
+        period1: '2015-01-01',
+        period2: '2020-01-01',
+        interval: '1d',
+      });
+      expect(mockChart).toHaveBeenNthCalledWith(3, 'AAPL', {
+        period1: '2020-01-01',
+        period2: '2020-02-01',
+        interval: '1d',
+      });
+      expect(historicalData).toEqual([
+        { date: '2010-01-04', close: 7 },
+        { date: '2014-12-31', close: 27.5 },
+        { date: '2015-01-02', close: 27 },
+        { date: '2020-01-02', close: 75 },
+      ]);
+    });
 
-      await expect(service.getHistoricalData(ticker, fromDate, toDate)).rejects.toThrow(
-        `Could not fetch historical data for ${ticker}. Please check the ticker and date range.`
+    it('should fetch 1m bars 7 days at a time', async () => {
+      mockChart.mockResolvedValue({ quotes: [] });
+
+      const fromDate = format(subDays(new Date(), 20), 'yyyy-MM-dd');
+      const toDate = format(subDays(new Date(), 5), 'yyyy-MM-dd');
+      await service.getHistoricalData('AAPL', fromDate, toDate, undefined, { interval: '1m' });
+
+      expect(mockChart).toHaveBeenCalledTimes(3);
+      expect(mockChart).toHaveBeenNthCalledWith(
+        2,
+        'AAPL',
+        expect.objectContaining({ period1: format(subDays(new Date(), 13), 'yyyy-MM-dd') })
       );
+    });
 
-      expect(logger.error).toHaveBeenCalledWith(
-        `Error fetching historical data for ${ticker}`,
-        expect.objectContaining({ ticker, error: expect.any(Error) })
+    it('should start the chunks of weekly and monthly bars on whole periods', async () => {
+      mockChart.mockResolvedValue({ quotes: [] });
+
+      await service.getHistoricalData('AAPL', '2010-01-01', '2016-06-30', undefined, {
+        interval: '1wk',
+      });
+      await service.getHistoricalData('AAPL', '2010-01-15', '2016-06-30', undefined, {
+        interval: '1mo',
+      });
+
+      expect(mockChart).toHaveBeenCalledTimes(4);
+      expect(mockChart).toHaveBeenNthCalledWith(1, 'AAPL', {
+        period1: '2010-01-01',
+        period2: '2014-12-29',
+        interval: '1wk',
+      });
+      expect(mockChart).toHaveBeenNthCalledWith(2, 'AAPL', {
+        period1: '2014-12-29',
+        period2: '2016-07-01',
+        interval: '1wk',
+      });
+      expect(mockChart).toHaveBeenNthCalledWith(3, 'AAPL', {
+        period1: '2010-01-15',
+        period2: '2015-01-01',
+        interval: '1mo',
+      });
+      expect(mockChart).toHaveBeenNthCalledWith(4, 'AAPL', {
+        period1: '2015-01-01',
+        period2: '2016-07-01',
+        interval: '1mo',
+      });
+    });
+
+    it('should throw ValidationError before fetching a range over the data point limit', async () => {
+      service = new StockQuotesService(mockYahooClient, { maxHistoricalDataPoints: 20 });
+      mockChart.mockResolvedValue({ quotes: [] });
+
+      await expect(service.getHistoricalData('AAPL', '2023-01-01', '2023-01-31')).rejects.toThrow(
+        'Response would contain about 22 data points, more than the limit of 20. ' +
+          'Use a coarser interval or a shorter date range.'
       );
+      await expect(
+        service.getHistoricalData('AAPL', '2023-01-01', '2023-01-31', undefined, {
+          interval: '1wk',
+        })
+      ).resolves.toEqual([]);
+      expect(mockChart).toHaveBeenCalledTimes(1);
     });
 
-    it('should return empty array if no historical data is available', async () => {
+    it('should throw ValidationError if the response exceeds the data point limit', async () => {
+      service = new StockQuotesService(mockYahooClient, { maxHistoricalDataPoints: 2 });
+      mockChart.mockResolvedValue({
+        quotes: [
+          { date: new Date('2023-01-03'), close: 1, high: 1, low: 1, volume: 1 },
+          { date: new Date('2023-01-04'), close: 1, high: 1, low: 1, volume: 1 },
+          { date: new Date('2023-01-05'), close: 1, high: 1, low: 1, volume: 1 },
+        ],
+      });
+
+      await expect(service.getHistoricalData('AAPL', '2023-01-03', '2023-01-04')).rejects.toThrow(
+        'Response would contain 3 data points, more than the limit of 2. ' +
+          'Use a coarser interval or a shorter date range.'
+      );
+    });
+
+    it('should request weekly bars and keep plain dates', async () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const mockChartResult: any = {
-        quotes: [],
+        quotes: [{ date: new Date('2023-01-02'), close: 100, high: 105, low: 95, volume: 5000000 }],
       };
-
       mockChart.mockResolvedValue(mockChartResult);
 
-      const ticker = 'AAPL';
-      const fromDate = '2023-01-01';
-      const toDate = '2023-01-03';
-
-      const historicalData = await service.getHistoricalData(ticker, fromDate, toDate);
+      const historicalData = await service.getHistoricalData(
+        'AAPL',
+        '2023-01-01',
+        '2023-01-31',
+        undefined,
+        { interval: '1wk' }
+      );
 
-      expect(historicalData).toEqual([]);
+      expect(historicalData[0].date).toBe('2023-01-02');
+      expect(mockChart).toHaveBeenCalledWith('AAPL', {
+        period1: '2023-01-01',
+        period2: '2023-02-01',
+        interval: '1wk',
+      });
     });
 
-    it('should round close, high, and low prices to 2 decimals', async () => {
+    it('should format intraday bars as ISO timestamps in the exchange time zone', async () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const mockChartResult: any = {
+        meta: { symbol: 'AAPL', exchangeTimezoneName: 'America/New_York' },
         quotes: [
           {
-            date: new Date('2023-01-01'),
-            close: 100.1234,
-            high: 105.5678,
-            low: 95.9012,
-            volume: 1000000,
+            date: new Date('2024-01-02T14:30:00Z'),
+            close: 100,
+            high: 101,
+            low: 99,
+            volume: 1000,
+          },
+          {
+            date: new Date('2024-07-01T13:30:00Z'),
+            close: 102,
+            high: 103,
+            low: 101,
+            volume: 2000,
           },
         ],
       };
-
       mockChart.mockResolvedValue(mockChartResult);
 
-      const ticker = 'AAPL';
-      const fromDate = '2023-01-01';
-      const toDate = '2023-01-01';
+      const fromDate = format(subDays(new Date(), 10), 'yyyy-MM-dd');
+      const toDate = format(subDays(new Date(), 5), 'yyyy-MM-dd');
+      const historicalData = await service.getHistoricalData('AAPL', fromDate, toDate, undefined, {
+        interval: '5m',
+      });
 
-      const historicalData = await service.getHistoricalData(ticker, fromDate, toDate);
+      expect(historicalData.map((point) => point.date)).toEqual([
+        '2024-01-02T09:30:00-05:00',
+        '2024-07-01T09:30:00-04:00',
+      ]);
+      expect(mockChart).toHaveBeenCalledWith(
+        'AAPL',
+        expect.objectContaining({ period1: fromDate, interval: '5m' })
+      );
+    });
 
-      expect(historicalData[0]).toEqual({
-        date: '2023-01-01',
-        high: 105.57,
-        low: 95.9,
-        close: 100.12,
-        volume: 1000000,
+    it('should use a UTC offset for intraday bars when the exchange time zone is unknown', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockChartResult: any = {
+        quotes: [{ date: new Date('2024-01-02T14:30:00Z'), close: 1, high: 1, low: 1, volume: 1 }],
+      };
+      mockChart.mockResolvedValue(mockChartResult);
+
+      const day = format(subDays(new Date(), 1), 'yyyy-MM-dd');
+      const historicalData = await service.getHistoricalData('BTC-USD', day, day, undefined, {
+        interval: '1h',
       });
+
+      expect(historicalData[0].date).toBe('2024-01-02T14:30:00+00:00');
     });
 
-    it('should filter fields in historical data', async () => {
+    it('should throw ValidationError when intraday data is older than the interval lookback', async () => {
+      const fromDate = format(subDays(new Date(), 90), 'yyyy-MM-dd');
+      const toDate = format(subDays(new Date(), 85), 'yyyy-MM-dd');
+
+      await expect(
+        service.getHistoricalData('AAPL', fromDate, toDate, undefined, { interval: '15m' })
+      ).rejects.toThrow('Interval 15m is only available for the last 60 days.');
+      expect(mockChart).not.toHaveBeenCalled();
+    });
+
+    it('should return open and adjusted close when available', async () => {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const mockChartResult: any = {
         quotes: [
           {
-            date: new Date('2023-01-01'),
-            close: 100,
+            date: new Date('2023-01-03'),
+            open: 99.456,
             high: 105,
             low: 95,
+            close: 100,
+            adjclose: 98.123,
             volume: 1000000,
           },
         ],
       };
-
       mockChart.mockResolvedValue(mockChartResult);
 
-      const ticker = 'AAPL';
-      const fromDate = '2023-01-01';
-      const toDate = '2023-01-01';
+      const historicalData = await service.getHistoricalData('AAPL', '2023-01-03', '2023-01-03');
 
-      const historicalData = await service.getHistoricalData(ticker, fromDate, toDate, ['close']);
+      expect(historicalData).toEqual([
+        {
+          date: '2023-01-03',
+          open: 99.46,
+          high: 105,
+          low: 95,
+          close: 100,
+          adjClose: 98.123,
+          volume: 1000000,
+        },
+      ]);
+    });
+
+    it('should adjust OHLC prices for splits and dividends when requested', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockChartResult: any = {
+        quotes: [
+          {
+            date: new Date('2023-01-03'),
+            open: 200,
+            high: 210,
+            low: 190,
+            close: 200,
+            adjclose: 100,
+            volume: 1000000,
+          },
+        ],
+      };
+      mockChart.mockResolvedValue(mockChartResult);
+
+      const historicalData = await service.getHistoricalData(
+        'AAPL',
+        '2023-01-03',
+        '2023-01-03',
+        undefined,
+        { adjusted: true }
+      );
 
       expect(historicalData[0]).toEqual({
-        date: '2023-01-01',
+        date: '2023-01-03',
+        open: 100,
+        high: 105,
+        low: 95,
         close: 100,
+        adjClose: 100,
+        volume: 1000000,
       });
-      expect(historicalData[0]).not.toHaveProperty('high');
-      expect(historicalData[0]).not.toHaveProperty('low');
-      expect(historicalData[0]).not.toHaveProperty('volume');
+    });
+
+    it('should keep 6 significant digits of adjusted prices', async () => {
+      mockChart.mockResolvedValue({
+        quotes: [
+          {
+            date: new Date('1990-01-02'),
+            open: 40,
+            high: 42,
+            low: 39,
+            close: 41,
+            adjclose: 0.1234567,
+            volume: 1000000,
+          },
+        ],
+      });
+
+      const historicalData = await service.getHistoricalData(
+        'AAPL',
+        '1990-01-02',
+        '1990-01-02',
+        undefined,
+        { adjusted: true }
+      );
+
+      expect(historicalData[0]).toEqual(
+        expect.objectContaining({
+          open: 0.120446,
+          high: 0.126468,
+          low: 0.117434,
+          close: 0.123457,
+          adjClose: 0.123457,
+        })
+      );
+    });
+
+    it('should select open and adjClose through fields', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockChartResult: any = {
+        quotes: [
+          {
+            date: new Date('2023-01-03'),
+            open: 99,
+            high: 105,
+            low: 95,
+            close: 100,
+            adjclose: 98,
+            volume: 1000000,
+          },
+        ],
+      };
+      mockChart.mockResolvedValue(mockChartResult);
+
+      const historicalData = await service.getHistoricalData('AAPL', '2023-01-03', '2023-01-03', [
+        'open',
+        'adjClose',
+      ]);
+
+      expect(historicalData[0]).toEqual({ date: '2023-01-03', open: 99, adjClose: 98 });
+    });
+
+    it('should throw an error if historical data fetch fails', async () => {
+      const errorMessage = 'Network error';
+
+      mockChart.mockRejectedValue(new Error(errorMessage));
+
+      const ticker = 'MSFT';
+      const fromDate = '2023-01-01';
+      const toDate = '2023-01-03';
+
+      await expect(service.getHistoricalData(ticker, fromDate, toDate)).rejects.toThrow(
+        `Could not fetch historical data for ${ticker}. Please check the ticker and date range.`
+      );
+
+      expect(logger.error).toHaveBeenCalledWith(
+        `Error fetching historical data for ${ticker}`,
+        expect.objectContaining({ ticker, error: expect.any(Error) })
+      );
+    });
+
+    it('should return empty array if no historical data is available', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockChartResult: any = {
+        quotes: [],
+      };
+
+      mockChart.mockResolvedValue(mockChartResult);
+
+      const ticker = 'AAPL';
+      const fromDate = '2023-01-01';
+      const toDate = '2023-01-03';
+
+      const historicalData = await service.getHistoricalData(ticker, fromDate, toDate);
+
+      expect(historicalData).toEqual([]);
+    });
+
+    it('should round close, high, and low prices to 2 decimals', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockChartResult: any = {
+        quotes: [
+          {
+            date: new Date('2023-01-01'),
+            close: 100.1234,
+            high: 105.5678,
+            low: 95.9012,
+            volume: 1000000,
+          },
+        ],
+      };
+
+      mockChart.mockResolvedValue(mockChartResult);
+
+      const ticker = 'AAPL';
+      const fromDate = '2023-01-01';
+      const toDate = '2023-01-01';
+
+      const historicalData = await service.getHistoricalData(ticker, fromDate, toDate);
+
+      expect(historicalData[0]).toEqual({
+        date: '2023-01-01',
+        high: 105.57,
+        low: 95.9,
+        close: 100.12,
+        volume: 1000000,
+      });
+    });
+
+    it('should filter fields in historical data', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockChartResult: any = {
+        quotes: [
+          {
+            date: new Date('2023-01-01'),
+            close: 100,
+            high: 105,
+            low: 95,
+            volume: 1000000,
+          },
+        ],
+      };
+
+      mockChart.mockResolvedValue(mockChartResult);
+
+      const ticker = 'AAPL';
+      const fromDate = '2023-01-01';
+      const toDate = '2023-01-01';
+
+      const historicalData = await service.getHistoricalData(ticker, fromDate, toDate, ['close']);
+
+      expect(historicalData[0]).toEqual({
+        date: '2023-01-01',
+        close: 100,
+      });
+      expect(historicalData[0]).not.toHaveProperty('high');
+      expect(historicalData[0]).not.toHaveProperty('low');
+      expect(historicalData[0]).not.toHaveProperty('volume');
+    });
+    it('should convert prices at the exchange rate of each date', async () => {
+      mockChart.mockImplementation((symbol) =>
+        Promise.resolve(
+          symbol === 'USDEUR=X'
+            ? {
+                quotes: [
+                  { date: new Date('2023-01-02'), close: 0.5 },
+                  { date: new Date('2023-01-04'), close: 0.25 },
+                ],
+              }
+            : {
+                meta: { currency: 'USD' },
+                quotes: [
+                  {
+                    date: new Date('2023-01-02'),
+                    open: 10,
+                    high: 10,
+                    low: 10,
+                    close: 100,
+                    volume: 1000,
+                  },
+                  {
+                    date: new Date('2023-01-03'),
+                    open: 10,
+                    high: 10,
+                    low: 10,
+                    close: 100,
+                    volume: 1000,
+                  },
+                  {
+                    date: new Date('2023-01-04'),
+                    open: 10,
+                    high: 10,
+                    low: 10,
+                    close: 100,
+                    volume: 1000,
+                  },
+                ],
+              }
+        )
+      );
+
+      const historicalData = await service.getHistoricalData(
+        'AAPL',
+        '2023-01-02',
+        '2023-01-04',
+        undefined,
+        { targetCurrency: 'EUR' }
+      );
+
+      expect(historicalData).toEqual([
+        { date: '2023-01-02', open: 5, high: 5, low: 5, close: 50, volume: 1000, fxRate: 0.5 },
+        { date: '2023-01-03', open: 5, high: 5, low: 5, close: 50, volume: 1000, fxRate: 0.5 },
+        {
+          date: '2023-01-04',
+          open: 2.5,
+          high: 2.5,
+          low: 2.5,
+          close: 25,
+          volume: 1000,
+          fxRate: 0.25,
+        },
+      ]);
+      expect(mockChart).toHaveBeenCalledWith('USDEUR=X', {
+        period1: '2023-01-02',
+        period2: '2023-01-05',
+        interval: '1d',
+      });
+    });
+
+    it('should throw NotFoundError when no historical exchange rates are found', async () => {
+      mockChart.mockImplementation((symbol) =>
+        Promise.resolve(
+          symbol === 'USDEUR=X'
+            ? { quotes: [] }
+            : {
+                meta: { currency: 'USD' },
+                quotes: [
+                  { date: new Date('2023-01-02'), high: 100, low: 100, close: 100, volume: 1000 },
+                ],
+              }
+        )
+      );
+
+      await expect(
+        service.getHistoricalData('AAPL', '2023-01-02', '2023-01-02', undefined, {
+          targetCurrency: 'EUR',
+        })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should normalize historical prices quoted in pence to pounds', async () => {
+      mockChart.mockResolvedValue({
+        meta: { currency: 'GBp' },
+        quotes: [
+          {
+            date: new Date('2023-01-02'),
+            open: 7000,
+            high: 7100,
+            low: 6950.5,
+            close: 7050,
+            volume: 1000,
+          },
+        ],
+      });
+
+      const historicalData = await service.getHistoricalData(
+        'VOD.L',
+        '2023-01-02',
+        '2023-01-02',
+        undefined,
+        { includeRawPrices: true }
+      );
+
+      expect(historicalData).toEqual([
+        {
+          date: '2023-01-02',
+          open: 70,
+          high: 71,
+          low: 69.505,
+          close: 70.5,
+          volume: 1000,
+          rawPrices: {
+            currency: 'GBp',
+            divisor: 100,
+            prices: { open: 7000, high: 7100, low: 6950.5, close: 7050 },
+          },
+        },
+      ]);
+    });
+  });
+  describe('getCorporateActions', () => {
+    it('should return dividends and splits sorted by date', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const mockChartResult: any = {
+        meta: { symbol: 'AAPL', currency: 'USD' },
+        quotes: [],
+        events: {
+          dividends: [
+            { date: new Date('2020-11-06'), amount: 0.205 },
+            { date: new Date('2020-08-07'), amount: 0.82 },
+          ],
+          splits: [
+            { date: new Date('2020-08-31'), numerator: 4, denominator: 1, splitRatio: '4:1' },
+          ],
+        },
+      };
+      mockChart.mockResolvedValue(mockChartResult);
+
+      const actions = await service.getCorporateActions('AAPL', '2020-01-01', '2020-12-31');
+
+      expect(actions).toEqual({
+        symbol: 'AAPL',
+        currency: 'USD',
+        dividends: [
+          { exDate: '2020-08-07', amount: 0.82 },
+          { exDate: '2020-11-06', amount: 0.205 },
+        ],
+        splits: [{ date: '2020-08-31', numerator: 4, denominator: 1, ratio: '4:1' }],
+      });
+      expect(mockChart).toHaveBeenCalledWith('AAPL', {
+        period1: '2020-01-01',
+        period2: '2021-01-01',
+        interval: '1d',
+        events: 'div|split',
+      });
+    });
+
+    it('should return empty lists when there are no events', async () => {
+      mockChart.mockResolvedValue({ quotes: [] });
+
+      const actions = await service.getCorporateActions('MSFT', '2023-01-01', '2023-01-31');
+
+      expect(actions).toEqual({ symbol: 'MSFT', dividends: [], splits: [] });
+    });
+
+    it('should build the split ratio when Yahoo omits it', async () => {
+      mockChart.mockResolvedValue({
+        events: { splits: [{ date: new Date('2022-07-18'), numerator: 20, denominator: 1 }] },
+      });
+
+      const actions = await service.getCorporateActions('GOOGL', '2022-01-01', '2022-12-31');
+
+      expect(actions.splits).toEqual([
+        { date: '2022-07-18', numerator: 20, denominator: 1, ratio: '20:1' },
+      ]);
+    });
+
+    it('should validate the date range', async () => {
+      await expect(service.getCorporateActions('AAPL', '2023-02-01', '2023-01-01')).rejects.toThrow(
+        'fromDate must be before or equal to toDate.'
+      );
+      expect(mockChart).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError if the chart fetch fails', async () => {
+      mockChart.mockRejectedValue(new Error('Network error'));
+
+      await expect(service.getCorporateActions('AAPL', '2023-01-01', '2023-12-31')).rejects.toThrow(
+        'Could not fetch corporate actions for AAPL. Please check the ticker and date range.'
+      );
+    });
+  });
+  describe('getTechnicalIndicators', () => {
+    it('should fetch warm-up history and return indicators from the start date', async () => {
+      mockChart.mockResolvedValue({
+        quotes: [
+          { date: new Date('2023-01-02'), close: 10, high: 10, low: 10, volume: 1 },
+          { date: new Date('2023-01-03'), close: 11, high: 11, low: 11, volume: 1 },
+          { date: new Date('2023-01-04'), close: 12, high: 12, low: 12, volume: 1 },
+          { date: new Date('2023-01-05'), close: 13, high: 13, low: 13, volume: 1 },
+        ],
+      });
+
+      const result = await service.getTechnicalIndicators({
+        ticker: 'AAPL',
+        fromDate: '2023-01-04',
+        toDate: '2023-01-05',
+        indicators: [{ type: 'sma', period: 3 }],
+      });
+
+      expect(result).toEqual({
+        symbol: 'AAPL',
+        indicators: ['sma_3'],
+        series: [
+          { date: '2023-01-04', close: 12, sma_3: 11 },
+          { date: '2023-01-05', close: 13, sma_3: 12 },
+        ],
+      });
+      // 3 warm-up bars are about 5 calendar days, plus a 10-day margin
+      expect(mockChart).toHaveBeenCalledWith('AAPL', {
+        period1: '2022-12-20',
+        period2: '2023-01-06',
+        interval: '1d',
+      });
+    });
+
+    it('should report null while an indicator is warming up', async () => {
+      mockChart.mockResolvedValue({
+        quotes: [{ date: new Date('2023-01-04'), close: 12, high: 12, low: 12, volume: 1 }],
+      });
+
+      const result = await service.getTechnicalIndicators({
+        ticker: 'AAPL',
+        fromDate: '2023-01-04',
+        toDate: '2023-01-04',
+        indicators: [{ type: 'rsi', period: 14 }],
+      });
+
+      expect(result.series).toEqual([{ date: '2023-01-04', close: 12, rsi_14: null }]);
+    });
+
+    it('should use split and dividend adjusted closes', async () => {
+      mockChart.mockResolvedValue({
+        quotes: [
+          {
+            date: new Date('2023-01-03'),
+            close: 200,
+            adjclose: 100,
+            high: 200,
+            low: 200,
+            volume: 1,
+          },
+          {
+            date: new Date('2023-01-04'),
+            close: 102,
+            adjclose: 102,
+            high: 102,
+            low: 102,
+            volume: 1,
+          },
+        ],
+      });
+
+      const result = await service.getTechnicalIndicators({
+        ticker: 'AAPL',
+        fromDate: '2023-01-03',
+        toDate: '2023-01-04',
+        indicators: [{ type: 'sma', period: 2 }],
+      });
+
+      expect(result.series[1]).toEqual({ date: '2023-01-04', close: 102, sma_2: 101 });
+    });
+
+    it('should reject a MACD whose fast period is not lower than its slow period', async () => {
+      await expect(
+        service.getTechnicalIndicators({
+          ticker: 'AAPL',
+          fromDate: '2023-01-03',
+          toDate: '2023-01-04',
+          indicators: [{ type: 'macd', fastPeriod: 26, slowPeriod: 12, signalPeriod: 9 }],
+        })
+      ).rejects.toThrow('MACD fastPeriod must be lower than slowPeriod.');
+      expect(mockChart).not.toHaveBeenCalled();
+    });
+  });
+  describe('getPerformanceStats', () => {
+    const bar = (date: string, close: number) => ({
+      date: new Date(date),
+      close,
+      high: close,
+      low: close,
+      volume: 1,
+    });
+
+    it('should compute statistics from adjusted closes', async () => {
+      mockChart.mockResolvedValue({
+        quotes: [
+          bar('2023-01-03', 100),
+          bar('2023-01-04', 110),
+          bar('2023-01-05', 99),
+          bar('2023-01-06', 120),
+        ],
+      });
+
+      const stats = await service.getPerformanceStats({
+        ticker: 'AAPL',
+        fromDate: '2023-01-01',
+        toDate: '2023-01-06',
+      });
+
+      expect(stats).toEqual(
+        expect.objectContaining({
+          symbol: 'AAPL',
+          fromDate: '2023-01-03',
+          toDate: '2023-01-06',
+          tradingDays: 4,
+          totalReturnPercent: 20,
+          maxDrawdown: {
+            percent: -10,
+            peakDate: '2023-01-04',
+            troughDate: '2023-01-05',
+            recoveryDate: '2023-01-06',
+          },
+          bestDay: { date: '2023-01-06', returnPercent: 21.21 },
+          worstDay: { date: '2023-01-05', returnPercent: -10 },
+          riskFreeRatePercent: 0,
+        })
+      );
+      expect(stats).not.toHaveProperty('benchmark');
+      expect(mockChart).toHaveBeenCalledTimes(1);
+    });
+
+    it('should compute beta against a benchmark on common trading days', async () => {
+      mockChart
+        .mockResolvedValueOnce({
+          quotes: [
+            bar('2023-01-03', 100),
+            bar('2023-01-04', 102),
+            bar('2023-01-05', 100.98),
+            bar('2023-01-06', 103),
+            bar('2023-01-09', 110),
+          ],
+        })
+        .mockResolvedValueOnce({
+          quotes: [
+            bar('2023-01-03', 200),
+            bar('2023-01-04', 202),
+            bar('2023-01-05', 200.99),
+            bar('2023-01-06', 203),
+          ],
+        });
+
+      const stats = await service.getPerformanceStats({
+        ticker: 'AAPL',
+        fromDate: '2023-01-01',
+        toDate: '2023-01-09',
+        benchmark: 'SPY',
+      });
+
+      expect(stats.benchmark?.symbol).toBe('SPY');
+      expect(stats.benchmark?.totalReturnPercent).toBe(1.5);
+      expect(stats.benchmark?.beta).toBe(2);
+      expect(mockChart).toHaveBeenNthCalledWith(2, 'SPY', expect.anything());
+    });
+
+    it('should throw ValidationError when there are fewer than 2 closes', async () => {
+      mockChart.mockResolvedValue({ quotes: [bar('2023-01-03', 100)] });
+
+      await expect(
+        service.getPerformanceStats({
+          ticker: 'AAPL',
+          fromDate: '2023-01-03',
+          toDate: '2023-01-03',
+        })
+      ).rejects.toThrow('Not enough price history for AAPL between 2023-01-03 and 2023-01-03.');
+    });
+  });
+  describe('compareTickers', () => {
+    const bar = (date: string, close: number) => ({
+      date: new Date(date),
+      close,
+      high: close,
+      low: close,
+      volume: 1,
+    });
+
+    it('should fetch each ticker once and compare their series', async () => {
+      mockChart
+        .mockResolvedValueOnce({
+          quotes: [bar('2024-01-02', 100), bar('2024-01-03', 110), bar('2024-01-04', 121)],
+        })
+        .mockResolvedValueOnce({
+          quotes: [bar('2024-01-02', 50), bar('2024-01-03', 50), bar('2024-01-04', 55)],
+        });
+
+      const comparison = await service.compareTickers({
+        tickers: ['AAPL', 'MSFT', 'AAPL'],
+        fromDate: '2024-01-01',
+        toDate: '2024-01-04',
+      });
+
+      expect(mockChart).toHaveBeenCalledTimes(2);
+      expect(comparison.tickers).toEqual(['AAPL', 'MSFT']);
+      expect(comparison.performance.map((row) => [row.symbol, row.rank])).toEqual([
+        ['AAPL', 1],
+        ['MSFT', 2],
+      ]);
+      expect(comparison.rebased[2]).toEqual({ date: '2024-01-04', AAPL: 121, MSFT: 110 });
+    });
+
+    it('should require at least two distinct tickers', async () => {
+      await expect(
+        service.compareTickers({
+          tickers: ['AAPL', 'AAPL'],
+          fromDate: '2024-01-01',
+          toDate: '2024-01-04',
+        })
+      ).rejects.toThrow('At least two distinct tickers are required.');
+    });
+  });
+  describe('getFundamentals', () => {
+    const summary = {
+      financialData: {
+        currentPrice: 420.5,
+        targetMeanPrice: 500,
+        recommendationKey: 'buy',
+        grossMargins: 0.69,
+        totalDebt: 97_000_000_000,
+        financialCurrency: 'USD',
+        maxAge: 86400,
+      },
+      defaultKeyStatistics: {
+        enterpriseValue: 3_100_000_000_000,
+        forwardPE: 31.2,
+        lastFiscalYearEnd: new Date('2024-06-30T00:00:00Z'),
+        category: null,
+      },
+    };
+    const statements = [
+      {
+        date: new Date('2024-06-30T00:00:00Z'),
+        TYPE: 'ALL',
+        periodType: '12M',
+        totalRevenue: 245,
+        netIncome: 88,
+        totalAssets: 512,
+        totalLiabilitiesNetMinorityInterest: 243,
+        netIncomeFromContinuingOperations: 88,
+        operatingCashFlow: 118,
+        capitalExpenditure: -44,
+      },
+      {
+        date: new Date('2023-06-30T00:00:00Z'),
+        TYPE: 'ALL',
+        periodType: '12M',
+        totalRevenue: 211,
+        netIncome: 72,
+      },
+    ];
+
+    it('should fetch all modules and map them, statements oldest first', async () => {
+      mockQuoteSummary.mockResolvedValue(summary);
+      mockFundamentalsTimeSeries.mockResolvedValue(statements);
+
+      const fundamentals = await service.getFundamentals({ ticker: 'MSFT' });
+
+      expect(mockQuoteSummary).toHaveBeenCalledWith('MSFT', {
+        modules: ['defaultKeyStatistics', 'financialData'],
+      });
+      expect(mockFundamentalsTimeSeries).toHaveBeenCalledWith('MSFT', {
+        period1: format(subYears(new Date(), 5), 'yyyy-MM-dd'),
+        type: 'annual',
+        module: 'all',
+      });
+      expect(fundamentals).toEqual({
+        symbol: 'MSFT',
+        period: 'annual',
+        financialData: {
+          currentPrice: 420.5,
+          targetMeanPrice: 500,
+          recommendationKey: 'buy',
+          grossMargins: 0.69,
+          totalDebt: 97_000_000_000,
+          financialCurrency: 'USD',
+        },
+        keyStatistics: {
+          enterpriseValue: 3_100_000_000_000,
+          forwardPE: 31.2,
+          lastFiscalYearEnd: '2024-06-30',
+        },
+        incomeStatements: [
+          { endDate: '2023-06-30', totalRevenue: 211, netIncome: 72 },
+          { endDate: '2024-06-30', totalRevenue: 245, netIncome: 88 },
+        ],
+        balanceSheets: [{ endDate: '2024-06-30', totalAssets: 512, totalLiabilities: 243 }],
+        cashFlowStatements: [
+          {
+            endDate: '2024-06-30',
+            netIncome: 88,
+            operatingCashFlow: 118,
+            capitalExpenditures: -44,
+            freeCashFlow: 74,
+          },
+        ],
+      });
+    });
+
+    it('should request the quarterly statements from the fundamentals timeseries', async () => {
+      mockFundamentalsTimeSeries.mockResolvedValue([
+        {
+          date: new Date('2024-09-30T00:00:00Z'),
+          periodType: '3M',
+          totalRevenue: 65,
+          researchAndDevelopment: 7.5,
+          EBIT: 31,
+          pretaxIncome: 30,
+          taxProvision: 5,
+        },
+      ]);
+
+      const fundamentals = await service.getFundamentals({
+        ticker: 'MSFT',
+        modules: ['incomeStatementHistory'],
+        period: 'quarterly',
+      });
+
+      expect(mockQuoteSummary).not.toHaveBeenCalled();
+      expect(mockFundamentalsTimeSeries).toHaveBeenCalledWith(
+        'MSFT',
+        expect.objectContaining({
+          period1: format(subYears(new Date(), 2), 'yyyy-MM-dd'),
+          type: 'quarterly',
+        })
+      );
+      expect(fundamentals).toEqual({
+        symbol: 'MSFT',
+        period: 'quarterly',
+        incomeStatements: [
+          {
+            endDate: '2024-09-30',
+            totalRevenue: 65,
+            researchDevelopment: 7.5,
+            ebit: 31,
+            incomeBeforeTax: 30,
+            incomeTaxExpense: 5,
+          },
+        ],
+      });
+    });
+
+    it('should cache fundamentals', async () => {
+      mockQuoteSummary.mockResolvedValue(summary);
+
+      await service.getFundamentals({ ticker: 'MSFT', modules: ['financialData'] });
+      await service.getFundamentals({ ticker: 'MSFT', modules: ['financialData'] });
+
+      expect(mockQuoteSummary).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw NotFoundError when the fetch fails', async () => {
+      mockQuoteSummary.mockRejectedValue(new Error('Quote not found for symbol: XXXX'));
+
+      await expect(service.getFundamentals({ ticker: 'XXXX' })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should throw NotFoundError when the statements cannot be fetched', async () => {
+      mockFundamentalsTimeSeries.mockRejectedValue(new Error('Unexpected result'));
+
+      await expect(
+        service.getFundamentals({ ticker: 'XXXX', modules: ['balanceSheetHistory'] })
+      ).rejects.toThrow('Could not fetch financial statements for XXXX. Please check the ticker.');
+    });
+
+    it('should throw RateLimitError when rate limited', async () => {
+      mockQuoteSummary.mockRejectedValue(new Error('Exceeded rate limit'));
+
+      await expect(service.getFundamentals({ ticker: 'MSFT' })).rejects.toThrow(RateLimitError);
+    });
+  });
+  describe('getOptionChain', () => {
+    const contract = (type: string, strike: number, expiration = '2024-07-19') => ({
+      contractSymbol: `AAPL240719${type}${strike}`,
+      strike,
+      lastPrice: 1.5,
+      bid: 1.4,
+      ask: 1.6,
+      volume: 10,
+      openInterest: 100,
+      expiration: new Date(`${expiration}T00:00:00Z`),
+      lastTradeDate: new Date('2024-06-28T19:59:00Z'),
+      impliedVolatility: 0.25,
+      inTheMoney: type === 'C' ? strike < 200 : strike > 200,
+    });
+    const chain = (expiration: string) => ({
+      underlyingSymbol: 'AAPL',
+      expirationDates: [new Date('2024-07-19T00:00:00Z'), new Date('2024-08-16T00:00:00Z')],
+      quote: { regularMarketPrice: 200, currency: 'USD' },
+      options: [
+        {
+          expirationDate: new Date(`${expiration}T00:00:00Z`),
+          calls: [220, 180, 200].map((strike) => contract('C', strike, expiration)),
+          puts: [180, 200, 220].map((strike) => contract('P', strike, expiration)),
+        },
+      ],
+    });
+
+    it('should return the nearest expiration sorted by strike', async () => {
+      mockOptions.mockResolvedValue(chain('2024-07-19'));
+
+      const result = await service.getOptionChain({ ticker: 'AAPL' });
+
+      expect(mockOptions).toHaveBeenCalledWith('AAPL', undefined);
+      expect(result.expiration).toBe('2024-07-19');
+      expect(result.expirationDates).toEqual(['2024-07-19', '2024-08-16']);
+      expect(result.underlyingPrice).toBe(200);
+      expect(result.calls.map((call) => call.strike)).toEqual([180, 200, 220]);
+      expect(result.calls[0]).toEqual({
+        contractSymbol: 'AAPL240719C180',
+        type: 'call',
+        strike: 180,
+        expiration: '2024-07-19',
+        lastPrice: 1.5,
+        bid: 1.4,
+        ask: 1.6,
+        volume: 10,
+        openInterest: 100,
+        impliedVolatility: 0.25,
+        inTheMoney: true,
+        moneyness: 0.9,
+        lastTradeDate: '2024-06-28T19:59:00.000Z',
+      });
+    });
+
+    it('should fetch another expiration and filter by type and moneyness', async () => {
+      mockOptions
+        .mockResolvedValueOnce(chain('2024-07-19'))
+        .mockResolvedValueOnce(chain('2024-08-16'));
+
+      const result = await service.getOptionChain({
+        ticker: 'AAPL',
+        expiration: '2024-08-16',
+        optionType: 'put',
+        minMoneyness: 0.95,
+        maxMoneyness: 1.15,
+      });
+
+      expect(mockOptions).toHaveBeenLastCalledWith('AAPL', { date: '2024-08-16' });
+      expect(result.expiration).toBe('2024-08-16');
+      expect(result.calls).toEqual([]);
+      expect(result.puts.map((put) => put.strike)).toEqual([200, 220]);
+    });
+
+    it('should cache option chains across filters', async () => {
+      mockOptions.mockResolvedValue(chain('2024-07-19'));
+
+      await service.getOptionChain({ ticker: 'AAPL' });
+      await service.getOptionChain({ ticker: 'AAPL', optionType: 'call' });
+
+      expect(mockOptions).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw ValidationError for an unlisted expiration', async () => {
+      mockOptions.mockResolvedValue(chain('2024-07-19'));
+
+      await expect(
+        service.getOptionChain({ ticker: 'AAPL', expiration: '2024-07-20' })
+      ).rejects.toThrow(
+        'No options expire on 2024-07-20 for AAPL. Available expirations: 2024-07-19, 2024-08-16'
+      );
+    });
+
+    it('should throw ValidationError when minMoneyness exceeds maxMoneyness', async () => {
+      await expect(
+        service.getOptionChain({ ticker: 'AAPL', minMoneyness: 1.1, maxMoneyness: 0.9 })
+      ).rejects.toThrow(ValidationError);
+      expect(mockOptions).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when no options are listed', async () => {
+      mockOptions.mockResolvedValue({ underlyingSymbol: 'XYZ', expirationDates: [], options: [] });
+
+      await expect(service.getOptionChain({ ticker: 'XYZ' })).rejects.toThrow(
+        'No options are listed for XYZ.'
+      );
+    });
+  });
+  describe('getEarnings', () => {
+    it('should map the next earnings window, surprises and estimates', async () => {
+      mockQuoteSummary.mockResolvedValue({
+        calendarEvents: {
+          earnings: {
+            earningsDate: [new Date('2024-10-31T20:30:00Z')],
+            isEarningsDateEstimate: false,
+            earningsAverage: 1.6,
+            revenueAverage: 94_500_000_000,
+          },
+        },
+        earningsHistory: {
+          history: [
+            {
+              quarter: new Date('2024-06-30T00:00:00Z'),
+              period: '-1q',
+              epsActual: 1.4,
+              epsEstimate: 1.35,
+              epsDifference: 0.05,
+              surprisePercent: 0.037,
+              currency: 'USD',
+            },
+            { quarter: new Date('2024-03-31T00:00:00Z'), epsActual: 1.53, epsEstimate: 1.5 },
+          ],
+        },
+        earningsTrend: {
+          trend: [
+            {
+              period: '0q',
+              endDate: new Date('2024-09-30T00:00:00Z'),
+              growth: 0.05,
+              earningsEstimate: { avg: 1.6, low: 1.5, high: 1.7, numberOfAnalysts: 28 },
+              revenueEstimate: { avg: 94_500_000_000, numberOfAnalysts: 25 },
+            },
+          ],
+        },
+      });
+
+      const earnings = await service.getEarnings('AAPL');
+
+      expect(mockQuoteSummary).toHaveBeenCalledWith('AAPL', {
+        modules: ['calendarEvents', 'earningsHistory', 'earningsTrend'],
+      });
+      expect(earnings).toEqual({
+        symbol: 'AAPL',
+        currency: 'USD',
+        nextEarnings: {
+          startDate: '2024-10-31',
+          endDate: '2024-10-31',
+          isEstimate: false,
+          epsEstimate: 1.6,
+          revenueEstimate: 94_500_000_000,
+        },
+        history: [
+          { quarter: '2024-03-31', epsActual: 1.53, epsEstimate: 1.5 },
+          {
+            quarter: '2024-06-30',
+            epsActual: 1.4,
+            epsEstimate: 1.35,
+            epsDifference: 0.05,
+            surprisePercent: 3.7,
+          },
+        ],
+        estimates: [
+          {
+            period: '0q',
+            endDate: '2024-09-30',
+            epsEstimate: 1.6,
+            epsLow: 1.5,
+            epsHigh: 1.7,
+            epsAnalysts: 28,
+            revenueEstimate: 94_500_000_000,
+            revenueAnalysts: 25,
+            growth: 0.05,
+          },
+        ],
+      });
+    });
+
+    it('should throw NotFoundError when the fetch fails', async () => {
+      mockQuoteSummary.mockRejectedValue(new Error('Quote not found for symbol: XXXX'));
+
+      await expect(service.getEarnings('XXXX')).rejects.toThrow(
+        'Could not fetch earnings for XXXX. Please check the ticker.'
+      );
+    });
+  });
+  describe('getUpcomingEarnings', () => {
+    const inDays = (days: number) =>
+      new Date(`${format(addDays(new Date(), days), 'yyyy-MM-dd')}T20:00:00Z`);
+    const calendar = (...earningsDate: Date[]) => ({
+      calendarEvents: { earnings: { earningsDate, earningsAverage: 1 } },
+    });
+
+    it('should list the tickers reporting within the window, soonest first', async () => {
+      mockQuoteSummary.mockImplementation(async (ticker: string) => {
+        switch (ticker) {
+          case 'AAPL':
+            return calendar(inDays(10));
+          case 'MSFT':
+            return calendar(inDays(3), inDays(5));
+          case 'GOOGL':
+            return calendar(inDays(30));
+          default:
+            throw new Error('Quote not found');
+        }
+      });
+
+      const result = await service.getUpcomingEarnings(['AAPL', 'MSFT', 'GOOGL', 'XXXX'], 14);
+
+      expect(result.fromDate).toBe(format(new Date(), 'yyyy-MM-dd'));
+      expect(result.toDate).toBe(format(addDays(new Date(), 14), 'yyyy-MM-dd'));
+      expect(result.upcoming.map((entry) => [entry.symbol, entry.isEstimate])).toEqual([
+        ['MSFT', true],
+        ['AAPL', false],
+      ]);
+      expect(result.upcoming[0].endDate).toBe(format(addDays(new Date(), 5), 'yyyy-MM-dd'));
+      expect(result.unavailable).toEqual(['XXXX']);
+    });
+
+    it('should stop when rate limited', async () => {
+      mockQuoteSummary.mockRejectedValue(new Error('Exceeded rate limit'));
+
+      await expect(service.getUpcomingEarnings(['AAPL', 'MSFT'], 7)).rejects.toThrow(
+        RateLimitError
+      );
+      expect(mockQuoteSummary).toHaveBeenCalledTimes(1);
+    });
+  });
+  describe('getNews', () => {
+    const story = (uuid: string, title: string, publishedAt: string, publisher = 'Reuters') => ({
+      uuid,
+      title,
+      publisher,
+      link: `https://finance.yahoo.com/news/${uuid}`,
+      providerPublishTime: new Date(publishedAt),
+      type: 'STORY',
+      relatedTickers: ['AAPL'],
+    });
+
+    it('should return headlines newest first without duplicates', async () => {
+      mockSearch.mockResolvedValue({
+        quotes: [],
+        news: [
+          story('a', 'Apple unveils new iPhone', '2024-09-09T17:00:00Z'),
+          story('b', 'Apple shares rise', '2024-09-10T14:00:00Z'),
+          story('c', 'Apple  unveils new iPhone', '2024-09-09T16:00:00Z', 'Bloomberg'),
+          story('b', 'Apple shares rise', '2024-09-10T14:00:00Z'),
+          { uuid: 'd', title: 'No link' },
+        ],
+      });
+
+      const news = await service.getNews({ query: 'AAPL' });
+
+      expect(mockSearch).toHaveBeenCalledWith('AAPL', { quotesCount: 0, newsCount: 10 });
+      expect(news.query).toBe('AAPL');
+      expect(news.articles.map((article) => article.id)).toEqual(['b', 'a']);
+      expect(news.articles[0]).toEqual({
+        id: 'b',
+        title: 'Apple shares rise',
+        publisher: 'Reuters',
+        publishedAt: '2024-09-10T14:00:00.000Z',
+        link: 'https://finance.yahoo.com/news/b',
+        relatedTickers: ['AAPL'],
+      });
+    });
+
+    it('should skip headlines returned by earlier calls when onlyNew is set', async () => {
+      mockSearch.mockResolvedValueOnce({
+        news: [story('a', 'First', '2024-09-09T10:00:00Z')],
+      });
+      mockSearch.mockResolvedValueOnce({
+        news: [
+          story('b', 'Second', '2024-09-09T11:00:00Z'),
+          story('a', 'First', '2024-09-09T10:00:00Z'),
+        ],
+      });
+
+      await service.getNews({ query: 'AAPL', count: 5 });
+      const news = await service.getNews({ query: 'aapl', count: 5, onlyNew: true });
+
+      expect(mockSearch).toHaveBeenLastCalledWith('aapl', { quotesCount: 0, newsCount: 50 });
+      expect(news.articles.map((article) => article.id)).toEqual(['b']);
+    });
+
+    it('should limit the number of headlines and cache them ignoring case', async () => {
+      mockSearch.mockResolvedValue({
+        news: [
+          story('a', 'First', '2024-09-09T10:00:00Z'),
+          story('b', 'Second', '2024-09-09T11:00:00Z'),
+        ],
+      });
+
+      await service.getNews({ query: 'AAPL', count: 1 });
+      const news = await service.getNews({ query: 'aapl', count: 1 });
+
+      expect(mockSearch).toHaveBeenCalledTimes(1);
+      expect(news.articles.map((article) => article.id)).toEqual(['b']);
+    });
+  });
+  describe('getAnalystRatings', () => {
+    it('should map the consensus, price targets and recommendation trend', async () => {
+      mockQuoteSummary.mockResolvedValue({
+        financialData: {
+          recommendationKey: 'buy',
+          recommendationMean: 1.9,
+          numberOfAnalystOpinions: 40,
+          targetLowPrice: 160,
+          targetMeanPrice: 240,
+          targetMedianPrice: 250,
+          targetHighPrice: 300,
+        },
+        price: { regularMarketPrice: 200, currency: 'USD' },
+        recommendationTrend: {
+          trend: [
+            { period: '-1m', strongBuy: 10, buy: 20, hold: 8, sell: 1, strongSell: 1 },
+            { period: '0m', strongBuy: 11, buy: 21, hold: 7, sell: 1, strongSell: 0 },
+          ],
+        },
+      });
+
+      const ratings = await service.getAnalystRatings('AAPL');
+
+      expect(mockQuoteSummary).toHaveBeenCalledWith('AAPL', {
+        modules: ['financialData', 'price', 'recommendationTrend'],
+      });
+      expect(ratings).toEqual({
+        symbol: 'AAPL',
+        currency: 'USD',
+        currentPrice: 200,
+        consensus: { rating: 'buy', score: 1.9, analysts: 40 },
+        priceTargets: {
+          low: 160,
+          mean: 240,
+          median: 250,
+          high: 300,
+          lowUpsidePercent: -20,
+          meanUpsidePercent: 20,
+          medianUpsidePercent: 25,
+          highUpsidePercent: 50,
+        },
+        recommendationTrend: [
+          {
+            period: '0m',
+            month: format(new Date(), 'yyyy-MM'),
+            strongBuy: 11,
+            buy: 21,
+            hold: 7,
+            sell: 1,
+            strongSell: 0,
+            total: 40,
+          },
+          expect.objectContaining({ period: '-1m', total: 40 }),
+        ],
+      });
+    });
+
+    it('should omit the consensus rating when no analyst covers the ticker', async () => {
+      mockQuoteSummary.mockResolvedValue({
+        financialData: { recommendationKey: 'none' },
+        price: {},
+        recommendationTrend: { trend: [] },
+      });
+
+      const ratings = await service.getAnalystRatings('TINY');
+
+      expect(ratings).toEqual({
+        symbol: 'TINY',
+        consensus: {},
+        priceTargets: {},
+        recommendationTrend: [],
+      });
+    });
+  });
+  describe('getOwnership', () => {
+    const ownership = {
+      majorHoldersBreakdown: {
+        insidersPercentHeld: 0.0171,
+        institutionsPercentHeld: 0.6112,
+        institutionsFloatPercentHeld: 0.6218,
+        institutionsCount: 6843,
+      },
+      institutionOwnership: {
+        ownershipList: [
+          {
+            reportDate: new Date('2024-06-30T00:00:00Z'),
+            organization: 'Blackrock Inc.',
+            pctHeld: 0.0658,
+            position: 1_000_000,
+            value: 200_000_000,
+          },
+          {
+            reportDate: new Date('2024-06-30T00:00:00Z'),
+            organization: 'Vanguard Group Inc',
+            pctHeld: 0.0842,
+            position: 1_300_000,
+            value: 260_000_000,
+            pctChange: 0.0123,
+          },
+        ],
+      },
+      fundOwnership: { ownershipList: [] },
+      insiderTransactions: {
+        transactions: [
+          {
+            filerName: 'JANE DOE',
+            filerRelation: 'Director',
+            transactionText: '',
+            moneyText: '',
+            startDate: new Date('2024-05-01T00:00:00Z'),
+            shares: 1000,
+            ownership: 'I',
+          },
+          {
+            filerName: 'JOHN SMITH',
+            filerRelation: 'Chief Executive Officer',
+            transactionText: 'Sale at price 220.00 per share.',
+            startDate: new Date('2024-08-15T00:00:00Z'),
+            shares: 50_000,
+            value: 11_000_000,
+            ownership: 'D',
+          },
+        ],
+      },
+    };
+
+    it('should map holders and insider transactions', async () => {
+      mockOwnership.mockResolvedValue(ownership);
+
+      const result = await service.getOwnership({ ticker: 'AAPL' });
+
+      expect(mockOwnership).toHaveBeenCalledWith('AAPL');
+      expect(result).toEqual({
+        symbol: 'AAPL',
+        insidersPercentHeld: 1.71,
+        institutionsPercentHeld: 61.12,
+        institutionsFloatPercentHeld: 62.18,
+        institutionsCount: 6843,
+        institutionalHolders: [
+          {
+            organization: 'Vanguard Group Inc',
+            reportDate: '2024-06-30',
+            percentHeld: 8.42,
+            shares: 1_300_000,
+            value: 260_000_000,
+            percentChange: 1.23,
+          },
+          {
+            organization: 'Blackrock Inc.',
+            reportDate: '2024-06-30',
+            percentHeld: 6.58,
+            shares: 1_000_000,
+            value: 200_000_000,
+          },
+        ],
+        fundHolders: [],
+        insiderTransactions: [
+          {
+            date: '2024-08-15',
+            insider: 'JOHN SMITH',
+            relation: 'Chief Executive Officer',
+            transaction: 'Sale at price 220.00 per share.',
+            shares: 50_000,
+            value: 11_000_000,
+            ownership: 'direct',
+          },
+          {
+            date: '2024-05-01',
+            insider: 'JANE DOE',
+            relation: 'Director',
+            transaction: '',
+            shares: 1000,
+            ownership: 'indirect',
+          },
+        ],
+      });
+    });
+
+    it('should limit insider transactions and reuse the cached ownership', async () => {
+      mockOwnership.mockResolvedValue(ownership);
+
+      await service.getOwnership({ ticker: 'AAPL' });
+      const result = await service.getOwnership({ ticker: 'AAPL', transactionLimit: 1 });
+
+      expect(mockOwnership).toHaveBeenCalledTimes(1);
+      expect(result.insiderTransactions.map((transaction) => transaction.insider)).toEqual([
+        'JOHN SMITH',
+      ]);
+    });
+
+    it('should throw NotFoundError when the fetch fails', async () => {
+      mockOwnership.mockRejectedValue(new Error('Quote not found for symbol: XXXX'));
+
+      await expect(service.getOwnership({ ticker: 'XXXX' })).rejects.toThrow(
+        'Could not fetch ownership for XXXX. Please check the ticker.'
+      );
+    });
+  });
+  describe('getFxRate', () => {
+    it('should fetch a pair quoted directly', async () => {
+      mockQuote.mockResolvedValue({
+        symbol: 'EURUSD=X',
+        regularMarketPrice: 1.0834,
+        regularMarketTime: new Date('2024-01-02T15:00:00Z'),
+      });
+
+      const rate = await service.getFxRate({ pair: 'EUR/USD' });
+
+      expect(rate).toEqual({
+        pair: 'EUR/USD',
+        baseCurrency: 'EUR',
+        quoteCurrency: 'USD',
+        rate: 1.0834,
+        rateTime: '2024-01-02T15:00:00.000Z',
+        symbols: ['EURUSD=X'],
+      });
+      expect(mockQuote).toHaveBeenCalledWith('EURUSD=X', undefined);
+    });
+
+    it('should compute a cross rate through the pivot currency', async () => {
+      mockQuote.mockImplementation((symbol) => {
+        if (symbol === 'NOKUSD=X') {
+          return Promise.resolve({
+            symbol,
+            regularMarketPrice: 0.1,
+            regularMarketTime: new Date('2024-01-02T15:00:00Z'),
+          });
+        }
+        if (symbol === 'USDHUF=X') {
+          return Promise.resolve({
+            symbol,
+            regularMarketPrice: 350,
+            regularMarketTime: new Date('2024-01-02T14:00:00Z'),
+          });
+        }
+        return Promise.resolve(undefined);
+      });
+
+      const rate = await service.getFxRate({ pair: 'NOK to HUF' });
+
+      expect(rate).toEqual({
+        pair: 'NOK/HUF',
+        baseCurrency: 'NOK',
+        quoteCurrency: 'HUF',
+        rate: 35,
+        rateTime: '2024-01-02T14:00:00.000Z',
+        symbols: ['NOKUSD=X', 'USDHUF=X'],
+        pivotCurrency: 'USD',
+      });
+    });
+
+    it('should return daily closing rates of a cross rate on common dates', async () => {
+      mockQuote.mockImplementation((symbol) =>
+        Promise.resolve(symbol === 'NOKHUF=X' ? undefined : { symbol, regularMarketPrice: 2 })
+      );
+      mockChart.mockImplementation((symbol) =>
+        Promise.resolve({
+          quotes:
+            symbol === 'NOKEUR=X'
+              ? [
+                  { date: new Date('2023-01-02'), close: 0.09 },
+                  { date: new Date('2023-01-03'), close: 0.1 },
+                ]
+              : [{ date: new Date('2023-01-03'), close: 400 }],
+        })
+      );
+
+      const rate = await service.getFxRate({
+        pair: 'NOKHUF',
+        pivotCurrency: 'EUR',
+        fromDate: '2023-01-02',
+        toDate: '2023-01-03',
+      });
+
+      expect(rate.symbols).toEqual(['NOKEUR=X', 'EURHUF=X']);
+      expect(rate.history).toEqual([{ date: '2023-01-03', rate: 40 }]);
+    });
+
+    it('should throw NotFoundError when neither the pair nor the cross rate is quoted', async () => {
+      mockQuote.mockResolvedValue(undefined);
+
+      await expect(service.getFxRate({ pair: 'EUR/XYZ' })).rejects.toThrow(
+        'No rate found for EUR/XYZ, directly or through USD.'
+      );
+    });
+
+    it('should throw ValidationError for text that is not a pair', async () => {
+      await expect(service.getFxRate({ pair: 'euros' })).rejects.toThrow(ValidationError);
+      await expect(service.getFxRate({ pair: 'EUR/EUR' })).rejects.toThrow(ValidationError);
+      expect(mockQuote).not.toHaveBeenCalled();
+    });
+
+    it('should require fromDate when toDate is set', async () => {
+      await expect(service.getFxRate({ pair: 'EUR/USD', toDate: '2023-01-03' })).rejects.toThrow(
+        'fromDate is required when toDate is set.'
+      );
+    });
+  });
+  describe('getCryptoQuote', () => {
+    it('should quote a cryptocurrency in dollars by default', async () => {
+      mockQuote.mockResolvedValue({
+        symbol: 'BTC-USD',
+        regularMarketPrice: 60000,
+        regularMarketChangePercent: 2.5,
+        marketCap: 1200000000000,
+      });
+
+      const quote = await service.getCryptoQuote({ pair: 'btc' });
+
+      expect(quote).toEqual({
+        pair: 'BTC/USD',
+        baseCurrency: 'BTC',
+        quoteCurrency: 'USD',
+        rate: 60000,
+        symbols: ['BTC-USD'],
+        changePercent: 2.5,
+        marketCap: 1200000000000,
+      });
+    });
+
+    it('should convert the price and market cap through the pivot currency', async () => {
+      mockQuote.mockImplementation((symbol) => {
+        if (symbol === 'BTC-USD') {
+          return Promise.resolve({
+            symbol,
+            regularMarketPrice: 60000,
+            regularMarketChangePercent: 2.5,
+            marketCap: 1000,
+          });
+        }
+        if (symbol === 'USDPLN=X') {
+          return Promise.resolve({ symbol, regularMarketPrice: 4 });
+        }
+        return Promise.reject(new Error('Quote not found for symbol'));
+      });
+
+      const quote = await service.getCryptoQuote({ pair: 'BTC in PLN' });
+
+      expect(quote).toEqual({
+        pair: 'BTC/PLN',
+        baseCurrency: 'BTC',
+        quoteCurrency: 'PLN',
+        rate: 240000,
+        symbols: ['BTC-USD', 'USDPLN=X'],
+        pivotCurrency: 'USD',
+        marketCap: 4000,
+      });
+    });
+  });
+  describe('screenStocks', () => {
+    const candidates = [
+      {
+        symbol: 'AAPL',
+        shortName: 'Apple Inc.',
+        exchange: 'NMS',
+        fullExchangeName: 'NasdaqGS',
+        marketCap: 3000000000000,
+        trailingPE: 30,
+        dividendYield: 0.5,
+      },
+      {
+        symbol: 'KO',
+        shortName: 'Coca-Cola Company',
+        exchange: 'NYQ',
+        fullExchangeName: 'NYSE',
+        marketCap: 260000000000,
+        trailingPE: 24,
+        dividendYield: 3.1,
+      },
+      {
+        symbol: 'XOM',
+        shortName: 'Exxon Mobil Corporation',
+        exchange: 'NYQ',
+        fullExchangeName: 'NYSE',
+        marketCap: 450000000000,
+        trailingPE: 13,
+        dividendYield: 3.4,
+      },
+      {
+        symbol: 'SMOL',
+        shortName: 'Small Co',
+        exchange: 'NYQ',
+        marketCap: 100000000,
+        dividendYield: 5,
+      },
+    ];
+
+    it('should return the results of a predefined screener', async () => {
+      mockScreener.mockResolvedValue({ title: 'Day Gainers', quotes: candidates });
+
+      const result = await service.screenStocks({ screener: 'day_gainers', count: 2 });
+
+      expect(mockScreener).toHaveBeenCalledWith({
+        scrIds: 'day_gainers',
+        region: 'US',
+        count: 2,
+      });
+      expect(result).toEqual({
+        screener: 'day_gainers',
+        title: 'Day Gainers',
+        region: 'US',
+        screenedCount: 4,
+        quotes: [
+          expect.objectContaining({ symbol: 'AAPL', name: 'Apple Inc.' }),
+          expect.objectContaining({ symbol: 'KO', name: 'Coca-Cola Company' }),
+        ],
+      });
+    });
+
+    it('should filter the screener results by custom criteria', async () => {
+      mockScreener.mockResolvedValue({ quotes: candidates });
+
+      const result = await service.screenStocks({
+        minMarketCap: 1000000000,
+        maxPE: 25,
+        minDividendYield: 3,
+        exchange: 'nyse',
+        region: 'US',
+      });
+
+      expect(mockScreener).toHaveBeenCalledWith({
+        scrIds: 'most_actives',
+        region: 'US',
+        count: 250,
+      });
+      expect(result.quotes.map((quote) => quote.symbol)).toEqual(['KO', 'XOM']);
+    });
+
+    it('should filter by sector from the asset profile', async () => {
+      mockScreener.mockResolvedValue({ quotes: candidates });
+      mockQuoteSummary.mockImplementation((symbol) =>
+        Promise.resolve({
+          assetProfile: { sector: symbol === 'XOM' ? 'Energy' : 'Consumer Defensive' },
+        })
+      );
+
+      const result = await service.screenStocks({ sector: 'energy', minDividendYield: 3 });
+
+      expect(result.quotes).toEqual([expect.objectContaining({ symbol: 'XOM', sector: 'Energy' })]);
+      expect(result.partial).toBeUndefined();
+      expect(mockQuoteSummary).toHaveBeenCalledTimes(3);
+    });
+
+    it('should leave out the stocks whose profile cannot be fetched', async () => {
+      mockScreener.mockResolvedValue({ quotes: candidates });
+      mockQuoteSummary.mockImplementation((symbol) =>
+        symbol === 'XOM'
+          ? Promise.reject(new Error('Network error'))
+          : Promise.resolve({ assetProfile: { sector: 'Energy' } })
+      );
+
+      const result = await service.screenStocks({ sector: 'energy', minDividendYield: 3 });
+
+      expect(result.quotes.map((quote) => quote.symbol)).toEqual(['KO', 'SMOL']);
+    });
+
+    it('should cap the sector lookups at twice the requested count', async () => {
+      mockScreener.mockResolvedValue({ quotes: candidates });
+      mockQuoteSummary.mockResolvedValue({ assetProfile: { sector: 'Consumer Defensive' } });
+
+      const result = await service.screenStocks({ sector: 'Utilities', count: 1 });
+
+      expect(mockQuoteSummary).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(expect.objectContaining({ partial: true, quotes: [] }));
+    });
+
+    it('should throw ValidationError when a minimum exceeds its maximum', async () => {
+      await expect(service.screenStocks({ minPE: 30, maxPE: 10 })).rejects.toThrow(
+        'minPE must be less than or equal to maxPE.'
+      );
+      expect(mockScreener).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when the screener fails', async () => {
+      mockScreener.mockRejectedValue(new Error('Bad request'));
+
+      await expect(service.screenStocks({ region: 'ZZ' })).rejects.toThrow(
+        'Could not run the most_actives screener for region ZZ.'
+      );
+    });
+  });
+
+  describe('getMarketMovers', () => {
+    it('should return every list enriched with quotes', async () => {
+      mockTrendingSymbols.mockResolvedValue({ quotes: [{ symbol: 'NVDA' }, { symbol: 'TSLA' }] });
+      mockScreener.mockImplementation(({ scrIds }: { scrIds: string }) =>
+        Promise.resolve({
+          quotes:
+            scrIds === 'day_gainers'
+              ? [{ symbol: 'NVDA' }]
+              : scrIds === 'day_losers'
+                ? [{ symbol: 'INTC' }]
+                : [{ symbol: 'TSLA' }, { symbol: 'AAPL' }],
+        })
+      );
+      mockQuote.mockResolvedValue([
+        { symbol: 'AAPL', regularMarketPrice: 190 },
+        { symbol: 'INTC', regularMarketPrice: 30, regularMarketChangePercent: -8 },
+        { symbol: 'NVDA', regularMarketPrice: 120, regularMarketChangePercent: 6 },
+        { symbol: 'TSLA', regularMarketPrice: 250 },
+      ]);
+
+      const result = await service.getMarketMovers({ count: 2 });
+
+      expect(mockTrendingSymbols).toHaveBeenCalledWith('US', { count: 2 });
+      expect(mockScreener).toHaveBeenCalledWith({ scrIds: 'day_gainers', region: 'US', count: 2 });
+      expect(mockQuote).toHaveBeenCalledTimes(1);
+      expect(mockQuote.mock.calls[0][0]).toEqual(['NVDA', 'TSLA', 'INTC', 'AAPL']);
+      expect(result).toEqual({
+        region: 'US',
+        trending: [
+          { symbol: 'NVDA', regularMarketPrice: 120, regularMarketChangePercent: 6 },
+          { symbol: 'TSLA', regularMarketPrice: 250 },
+        ],
+        gainers: [{ symbol: 'NVDA', regularMarketPrice: 120, regularMarketChangePercent: 6 }],
+        losers: [{ symbol: 'INTC', regularMarketPrice: 30, regularMarketChangePercent: -8 }],
+        mostActive: [
+          { symbol: 'TSLA', regularMarketPrice: 250 },
+          { symbol: 'AAPL', regularMarketPrice: 190 },
+        ],
+      });
+    });
+
+    it('should name the lists Yahoo Finance cannot provide for the region', async () => {
+      mockTrendingSymbols.mockResolvedValue({ quotes: [{ symbol: 'SAP.DE' }] });
+      mockScreener.mockRejectedValue(new Error('Bad request'));
+      mockQuote.mockResolvedValue([{ symbol: 'SAP.DE', regularMarketPrice: 230 }]);
+
+      const result = await service.getMarketMovers({ region: 'DE', lists: ['trending', 'losers'] });
+
+      expect(result).toEqual({
+        region: 'DE',
+        trending: [{ symbol: 'SAP.DE', regularMarketPrice: 230 }],
+        unavailable: ['losers'],
+      });
+    });
+
+    it('should return the tickers alone when their quotes cannot be fetched', async () => {
+      mockTrendingSymbols.mockResolvedValue({ quotes: [{ symbol: 'NVDA' }] });
+      mockQuote.mockRejectedValue(new Error('Service unavailable'));
+
+      const result = await service.getMarketMovers({ lists: ['trending'] });
+
+      expect(result).toEqual({ region: 'US', trending: [{ symbol: 'NVDA' }] });
+    });
+
+    it('should throw NotFoundError when no list is available', async () => {
+      mockTrendingSymbols.mockRejectedValue(new Error('Bad request'));
+
+      await expect(service.getMarketMovers({ region: 'ZZ', lists: ['trending'] })).rejects.toThrow(
+        'Could not fetch market movers for region ZZ.'
+      );
+    });
+
+    it('should throw RateLimitError when Yahoo Finance is rate limited', async () => {
+      mockTrendingSymbols.mockRejectedValue(new Error('rate limit exceeded'));
+
+      await expect(service.getMarketMovers({ lists: ['trending'] })).rejects.toThrow(
+        RateLimitError
+      );
+    });
+  });
+
+  describe('valuePortfolio', () => {
+    const quotes: Record<string, unknown> = {
+      'EURUSD=X': { symbol: 'EURUSD=X', currency: 'USD', regularMarketPrice: 1.1 },
+      'GBPUSD=X': { symbol: 'GBPUSD=X', currency: 'USD', regularMarketPrice: 1.25 },
+    };
+
+    beforeEach(() => {
+      mockQuote.mockImplementation((symbols) =>
+        Promise.resolve(
+          typeof symbols === 'string'
+            ? quotes[symbols]
+            : [
+                {
+                  symbol: 'AAPL',
+                  shortName: 'Apple Inc.',
+                  currency: 'USD',
+                  quoteType: 'EQUITY',
+                  regularMarketPrice: 200,
+                  regularMarketChange: 2,
+                },
+                {
+                  symbol: 'SAP.DE',
+                  currency: 'EUR',
+                  quoteType: 'EQUITY',
+                  regularMarketPrice: 200,
+                  regularMarketChange: -4,
+                },
+              ]
+        )
+      );
+      mockQuoteSummary.mockResolvedValue({ assetProfile: { sector: 'Technology' } });
+    });
+
+    it('should value the positions in the base currency', async () => {
+      const result = await service.valuePortfolio({
+        positions: [
+          { ticker: 'AAPL', quantity: 10, costBasis: 150 },
+          { ticker: 'SAP.DE', quantity: 5, costBasis: 180 },
+          { ticker: 'AAPL', quantity: 5 },
+        ],
+        includeSectors: true,
+      });
+
+      expect(mockQuote).toHaveBeenCalledWith(['AAPL', 'SAP.DE'], undefined);
+      expect(mockQuoteSummary).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(
+        expect.objectContaining({
+          baseCurrency: 'USD',
+          marketValue: 4100,
+          costBasis: 2490,
+          sectors: [{ name: 'Technology', marketValue: 4100, weight: 100 }],
+          currencies: [
+            { name: 'USD', marketValue: 3000, weight: 73.17 },
+            { name: 'EUR', marketValue: 1100, weight: 26.83 },
+          ],
+        })
+      );
+      expect(result.positions[1]).toEqual(
+        expect.objectContaining({
+          ticker: 'SAP.DE',
+          currency: 'EUR',
+          sector: 'Technology',
+          marketValue: 1100,
+          costBasis: 990,
+          dayChange: -22,
+        })
+      );
+    });
+
+    it('should convert costs given in another currency at the latest rate', async () => {
+      const result = await service.valuePortfolio({
+        positions: [{ ticker: 'AAPL', quantity: 10, costBasis: 100, currency: 'GBP' }],
+      });
+
+      expect(result.positions[0]).toEqual(
+        expect.objectContaining({ costBasis: 1250, unrealizedPnl: 750 })
+      );
+      expect(result.sectors).toBeUndefined();
+      expect(mockQuoteSummary).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError when the sector of an equity cannot be fetched', async () => {
+      mockQuoteSummary.mockRejectedValue(new Error('Network error'));
+
+      await expect(
+        service.valuePortfolio({
+          positions: [{ ticker: 'AAPL', quantity: 10 }],
+          includeSectors: true,
+        })
+      ).rejects.toThrow('Could not fetch asset profile for AAPL. Please check the ticker.');
+    });
+
+    it('should report a ticker without a price as missing', async () => {
+      const result = await service.valuePortfolio({
+        positions: [
+          { ticker: 'AAPL', quantity: 1 },
+          { ticker: 'XYZ', quantity: 1 },
+        ],
+      });
+
+      expect(result.positions.map((position) => position.ticker)).toEqual(['AAPL']);
+      expect(result.missing).toEqual(['XYZ']);
+    });
+
+    it('should match a ticker to the symbol returned by Yahoo Finance', async () => {
+      mockQuote.mockResolvedValue([
+        { symbol: 'BRK-B', currency: 'USD', quoteType: 'EQUITY', regularMarketPrice: 500 },
+      ]);
+
+      const result = await service.valuePortfolio({
+        positions: [{ ticker: 'brk.b', quantity: 2 }],
+      });
+
+      expect(result.marketValue).toBe(1000);
+      expect(result.missing).toBeUndefined();
+    });
+
+    it('should throw NotFoundError when no ticker has a price', async () => {
+      await expect(
+        service.valuePortfolio({ positions: [{ ticker: 'XYZ', quantity: 1 }] })
+      ).rejects.toThrow('No price found for XYZ');
+    });
+  });
+
+  describe('watchlists', () => {
+    let dataDirectory: string;
+
+    beforeEach(async () => {
+      dataDirectory = await mkdtemp(path.join(os.tmpdir(), 'watchlists-'));
+      service = new StockQuotesService(mockYahooClient, { dataDirectory });
+    });
+
+    afterEach(async () => {
+      await rm(dataDirectory, { recursive: true, force: true });
+    });
+
+    it('should create, change and list watchlists', async () => {
+      await service.createWatchlist({ name: 'Tech', tickers: ['MSFT', 'AAPL', 'MSFT'] });
+      await service.createWatchlist({ name: 'Energy' });
+      await service.addToWatchlist({ name: 'tech', tickers: ['NVDA', 'AAPL'] });
+      const tech = await service.removeFromWatchlist({ name: 'TECH', tickers: ['MSFT', 'XOM'] });
+
+      expect(tech).toEqual(expect.objectContaining({ name: 'Tech', tickers: ['AAPL', 'NVDA'] }));
+      const watchlists = await service.listWatchlists();
+      expect(watchlists.map(({ name, tickers }) => ({ name, tickers }))).toEqual([
+        { name: 'Energy', tickers: [] },
+        { name: 'Tech', tickers: ['AAPL', 'NVDA'] },
+      ]);
+    });
+
+    it('should keep watchlists across service instances', async () => {
+      await service.createWatchlist({ name: 'Tech', tickers: ['AAPL'] });
+
+      const otherService = new StockQuotesService(mockYahooClient, { dataDirectory });
+
+      await expect(otherService.listWatchlists()).resolves.toEqual([
+        expect.objectContaining({ name: 'Tech', tickers: ['AAPL'] }),
+      ]);
+    });
+
+    it('should reject a watchlist name that is already used', async () => {
+      await service.createWatchlist({ name: 'Tech' });
+
+      await expect(service.createWatchlist({ name: 'TECH' })).rejects.toThrow(
+        "Watchlist 'TECH' already exists."
+      );
+    });
+
+    it('should throw NotFoundError for an unknown watchlist', async () => {
+      await expect(service.addToWatchlist({ name: 'Tech', tickers: ['AAPL'] })).rejects.toThrow(
+        NotFoundError
+      );
+      await expect(service.getWatchlistQuotes({ name: 'Tech' })).rejects.toThrow(
+        "Watchlist 'Tech' not found"
+      );
+    });
+
+    it('should fetch the quotes of a watchlist in its order', async () => {
+      await service.createWatchlist({ name: 'Tech', tickers: ['NVDA', 'AAPL'] });
+      mockQuote.mockResolvedValue([
+        { symbol: 'AAPL', regularMarketPrice: 190 },
+        { symbol: 'NVDA', regularMarketPrice: 120 },
+      ]);
+
+      const result = await service.getWatchlistQuotes({
+        name: 'Tech',
+        fields: ['regularMarketPrice'],
+      });
+
+      expect(mockQuote).toHaveBeenCalledWith(['NVDA', 'AAPL'], {
+        fields: ['regularMarketPrice', 'currency'],
+      });
+      expect(result).toEqual({
+        name: 'Tech',
+        quotes: [
+          { symbol: 'NVDA', regularMarketPrice: 120 },
+          { symbol: 'AAPL', regularMarketPrice: 190 },
+        ],
+      });
+    });
+
+    it('should return no quotes for an empty watchlist', async () => {
+      await service.createWatchlist({ name: 'Tech' });
+
+      await expect(service.getWatchlistQuotes({ name: 'Tech' })).resolves.toEqual({
+        name: 'Tech',
+        quotes: [],
+      });
+      expect(mockQuote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('price alerts', () => {
+    let dataDirectory: string;
+
+    beforeEach(async () => {
+      dataDirectory = await mkdtemp(path.join(os.tmpdir(), 'alerts-'));
+      service = new StockQuotesService(mockYahooClient, { dataDirectory });
+    });
+
+    afterEach(async () => {
+      await rm(dataDirectory, { recursive: true, force: true });
+    });
+
+    it('should create alerts with the defaults of their condition', async () => {
+      const spike = await service.createAlert({ ticker: 'AAPL', condition: 'volume_spike' });
+      const cross = await service.createAlert({
+        ticker: 'AAPL',
+        condition: 'cross_above_average',
+        threshold: 5,
+      });
+
+      expect(spike).toEqual(
+        expect.objectContaining({ condition: 'volume_spike', threshold: 2, status: 'active' })
+      );
+      expect(cross).toEqual(expect.objectContaining({ average: '200d' }));
+      expect(cross.threshold).toBeUndefined();
+      expect(spike.id).not.toEqual(cross.id);
+    });
+
+    it('should require a threshold for price and percent move alerts', async () => {
+      await expect(
+        service.createAlert({ ticker: 'AAPL', condition: 'price_below' })
+      ).rejects.toThrow('A threshold is required for price_below alerts.');
+    });
+
+    it('should list and delete alerts', async () => {
+      const alert = await service.createAlert({
+        ticker: 'AAPL',
+        condition: 'price_above',
+        threshold: 200,
+      });
+      await service.createAlert({ ticker: 'MSFT', condition: 'percent_move', threshold: 5 });
+
+      await expect(service.listAlerts({ status: 'triggered' })).resolves.toEqual([]);
+      await expect(service.deleteAlert({ id: alert.id })).resolves.toEqual(alert);
+      await expect(service.listAlerts()).resolves.toEqual([
+        expect.objectContaining({ ticker: 'MSFT' }),
+      ]);
+      await expect(service.deleteAlert({ id: alert.id })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should check the active alerts with one quote request and store the triggered ones', async () => {
+      await service.createAlert({ ticker: 'AAPL', condition: 'price_above', threshold: 200 });
+      await service.createAlert({ ticker: 'AAPL', condition: 'percent_move', threshold: 5 });
+      await service.createAlert({ ticker: 'MSFT', condition: 'price_below', threshold: 400 });
+      mockQuote.mockResolvedValue([
+        { symbol: 'AAPL', regularMarketPrice: 201, regularMarketChangePercent: 1.2 },
+        { symbol: 'MSFT', regularMarketPrice: 420, regularMarketChangePercent: -0.5 },
+      ]);
+
+      const check = await service.checkAlerts();
+
+      expect(mockQuote).toHaveBeenCalledTimes(1);
+      expect(mockQuote).toHaveBeenCalledWith(['AAPL', 'MSFT'], expect.any(Object));
+      expect(check.checked).toBe(3);
+      expect(check.triggered).toEqual([
+        expect.objectContaining({
+          ticker: 'AAPL',
+          condition: 'price_above',
+          status: 'triggered',
+          triggeredAt: check.checkedAt,
+          triggerPrice: 201,
+          message: 'AAPL rose to 201, above 200',
+        }),
+      ]);
+      await expect(service.listAlerts({ status: 'active' })).resolves.toHaveLength(2);
+    });
+
+    it('should trigger crossing alerts on a change of side across restarts', async () => {
+      await service.createAlert({
+        ticker: 'AAPL',
+        condition: 'cross_above_average',
+        average: '50d',
+      });
+      mockQuote.mockResolvedValueOnce([
+        { symbol: 'AAPL', regularMarketPrice: 180, fiftyDayAverage: 185 },
+      ]);
+      mockQuote.mockResolvedValueOnce([
+        { symbol: 'AAPL', regularMarketPrice: 190, fiftyDayAverage: 186 },
+      ]);
+
+      await expect(service.checkAlerts()).resolves.toEqual(
+        expect.objectContaining({ triggered: [] })
+      );
+      const restarted = new StockQuotesService(mockYahooClient, { dataDirectory });
+      const check = await restarted.checkAlerts();
+
+      expect(check.triggered).toEqual([
+        expect.objectContaining({ lastSide: 'above', status: 'triggered', triggerPrice: 190 }),
+      ]);
+    });
+
+    it('should record the delivery of triggered alerts', async () => {
+      const alert = await service.createAlert({
+        ticker: 'AAPL',
+        condition: 'price_above',
+        threshold: 200,
+      });
+
+      await service.recordAlertDelivery(alert.id, ['webhook']);
+      await service.recordAlertDelivery(
+        alert.id,
+        ['webhook', 'mcp_logging'],
+        '2024-06-04T15:05:00.000Z'
+      );
+      await service.recordAlertDelivery('deleted-alert', ['webhook']);
+
+      await expect(service.listAlerts()).resolves.toEqual([
+        expect.objectContaining({
+          id: alert.id,
+          deliveredTo: ['webhook', 'mcp_logging'],
+          notifiedAt: '2024-06-04T15:05:00.000Z',
+        }),
+      ]);
+    });
+
+    it('should not fetch quotes when no alert is active', async () => {
+      await expect(service.checkAlerts()).resolves.toEqual(
+        expect.objectContaining({ checked: 0, triggered: [] })
+      );
+      expect(mockQuote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transaction ledger', () => {
+    let dataDirectory: string;
+
+    beforeEach(async () => {
+      dataDirectory = await mkdtemp(path.join(os.tmpdir(), 'ledger-'));
+      service = new StockQuotesService(mockYahooClient, { dataDirectory });
+    });
+
+    afterEach(async () => {
+      await rm(dataDirectory, { recursive: true, force: true });
+    });
+
+    const recordPurchases = async (): Promise<string[]> => {
+      const first = await service.recordTransaction({
+        type: 'buy',
+        ticker: 'AAPL',
+        date: '2022-01-10',
+        quantity: 10,
+        price: 100,
+      });
+      const second = await service.recordTransaction({
+        type: 'buy',
+        ticker: 'AAPL',
+        date: '2023-06-01',
+        quantity: 10,
+        price: 150,
+      });
+      return [first.id, second.id];
+    };
+
+    it('should record transactions with the fields of their kind', async () => {
+      await recordPurchases();
+      const sale = await service.recordTransaction({
+        type: 'sell',
+        ticker: 'AAPL',
+        date: '2024-03-01',
+        quantity: 5,
+        price: 200,
+        amount: 10,
+      });
+
+      expect(sale).toEqual({
+        id: expect.any(String),
+        type: 'sell',
+        ticker: 'AAPL',
+        date: '2024-03-01',
+        quantity: 5,
+        price: 200,
+        lotMethod: 'fifo',
+        recordedAt: expect.any(String),
+      });
+      const transactions = await service.listTransactions({ ticker: 'AAPL' });
+      expect(transactions.map(({ date }) => date)).toEqual([
+        '2022-01-10',
+        '2023-06-01',
+        '2024-03-01',
+      ]);
+    });
+
+    it('should reject transactions without the fields of their kind', async () => {
+      await expect(
+        service.recordTransaction({ type: 'buy', ticker: 'AAPL', date: '2024-03-01', quantity: 1 })
+      ).rejects.toThrow('A quantity and a price are required for buy transactions.');
+      await expect(
+        service.recordTransaction({ type: 'split', ticker: 'AAPL', date: '2024-03-01' })
+      ).rejects.toThrow('A ratio is required for split transactions.');
+      await expect(
+        service.recordTransaction({
+          type: 'sell',
+          ticker: 'AAPL',
+          date: '2024-03-01',
+          quantity: 1,
+          price: 1,
+          lotMethod: 'specific',
+        })
+      ).rejects.toThrow('Lots are required for sales with the specific lot method.');
+    });
+
+    it('should reject sales of shares that are not held', async () => {
+      await recordPurchases();
+
+      await expect(
+        service.recordTransaction({
+          type: 'sell',
+          ticker: 'AAPL',
+          date: '2023-01-01',
+          quantity: 15,
+          price: 120,
+        })
+      ).rejects.toThrow(ValidationError);
+      await expect(service.listTransactions()).resolves.toHaveLength(2);
+    });
+
+    it('should reject lots with the fifo and lifo lot methods', async () => {
+      const [lotId] = await recordPurchases();
+
+      await expect(
+        service.recordTransaction({
+          type: 'sell',
+          ticker: 'AAPL',
+          date: '2024-03-01',
+          quantity: 5,
+          price: 200,
+          lotMethod: 'lifo',
+          lots: [{ lotId, quantity: 5 }],
+        })
+      ).rejects.toThrow('Lots cannot be given for sales with the lifo lot method.');
+      await expect(service.listTransactions()).resolves.toHaveLength(2);
+    });
+
+    it('should not delete a buy whose shares were sold', async () => {
+      const [lotId] = await recordPurchases();
+      await service.recordTransaction({
+        type: 'sell',
+        ticker: 'AAPL',
+        date: '2024-03-01',
+        quantity: 10,
+        price: 200,
+        lots: [{ lotId, quantity: 10 }],
+      });
+
+      await expect(service.deleteTransaction({ id: lotId })).rejects.toThrow(
+        `Transaction '${lotId}' cannot be deleted: Lot ${lotId} is not an open lot of AAPL on ` +
+          '2024-03-01.'
+      );
+      await expect(service.deleteTransaction({ id: 'unknown' })).rejects.toThrow(NotFoundError);
+    });
+
+    it('should value the open lots at the current quotes', async () => {
+      await recordPurchases();
+      mockQuote.mockResolvedValue([{ symbol: 'AAPL', regularMarketPrice: 200 }]);
+
+      const report = await service.getTaxLots();
+
+      expect(mockQuote).toHaveBeenCalledWith(['AAPL'], expect.any(Object));
+      expect(report).toEqual(
+        expect.objectContaining({ costBasis: 2500, marketValue: 4000, unrealizedGain: 1500 })
+      );
+      expect(report.lots).toHaveLength(2);
+    });
+
+    it('should value the lots held on a past date at its close', async () => {
+      await recordPurchases();
+      await service.recordTransaction({
+        type: 'split',
+        ticker: 'AAPL',
+        date: '2024-01-02',
+        ratio: 2,
+      });
+      // Closes before the split are adjusted for it by Yahoo Finance
+      mockChart.mockResolvedValue({
+        quotes: [
+          { date: new Date('2023-12-28'), close: 95, high: 96, low: 94, volume: 1000 },
+          { date: new Date('2023-12-29'), close: 96, high: 97, low: 95, volume: 1000 },
+        ],
+      });
+
+      const report = await service.getTaxLots({ asOf: '2023-12-31' });
+
+      expect(mockChart).toHaveBeenCalledWith(
+        'AAPL',
+        expect.objectContaining({ period1: '2023-12-24' })
+      );
+      expect(report.positions).toEqual([
+        {
+          ticker: 'AAPL',
+          quantity: 20,
+          costBasis: 2500,
+          price: 192,
+          marketValue: 3840,
+          unrealizedGain: 1340,
+        },
+      ]);
+      expect(mockQuote).not.toHaveBeenCalled();
+    });
+
+    it('should report the lots at cost when a ticker has no close on a past date', async () => {
+      await recordPurchases();
+      mockChart.mockRejectedValue(new Error('No data found, symbol may be delisted'));
+
+      const report = await service.getTaxLots({ asOf: '2023-12-31' });
+
+      expect(report).toEqual(
+        expect.objectContaining({ costBasis: 2500, marketValue: 0, unrealizedGain: 0 })
+      );
+      expect(report.positions).toEqual([{ ticker: 'AAPL', quantity: 20, costBasis: 2500 }]);
+    });
+
+    it('should value the lots at the last complete bar before a past date', async () => {
+      await recordPurchases();
+      mockChart.mockResolvedValue({
+        quotes: [
+          { date: new Date('2023-12-28'), close: 190, high: 191, low: 189, volume: 1000 },
+          { date: new Date('2023-12-29'), high: 192, low: 190 },
+        ],
+      });
+
+      const report = await service.getTaxLots({ asOf: '2023-12-31' });
+
+      expect(report.positions).toEqual([
+        expect.objectContaining({ ticker: 'AAPL', price: 190, marketValue: 3800 }),
+      ]);
+    });
+
+    it('should throw RateLimitError when the close of a past date is rate limited', async () => {
+      await recordPurchases();
+      mockChart.mockRejectedValue(new Error('Too many requests: rate limit exceeded'));
+
+      await expect(service.getTaxLots({ asOf: '2023-12-31' })).rejects.toThrow(RateLimitError);
+    });
+
+    it('should report the realized gains and dividends of a period', async () => {
+      await recordPurchases();
+      await service.recordTransaction({
+        type: 'dividend',
+        ticker: 'AAPL',
+        date: '2024-02-15',
+        amount: 4.8,
+      });
+      await service.recordTransaction({
+        type: 'sell',
+        ticker: 'AAPL',
+        date: '2024-03-01',
+        quantity: 15,
+        price: 200,
+        lotMethod: 'lifo',
+      });
+
+      const report = await service.getRealizedGains({
+        fromDate: '2024-01-01',
+        toDate: '2024-12-31',
+      });
+
+      expect(report).toEqual(
+        expect.objectContaining({
+          proceeds: 3000,
+          costBasis: 2000,
+          realizedGain: 1000,
+          shortTermGain: 500,
+          longTermGain: 500,
+          dividendIncome: 4.8,
+        })
+      );
+      await expect(service.getRealizedGains({ fromDate: '2025-01-01' })).resolves.toEqual(
+        expect.objectContaining({ realizedGain: 0, realized: [] })
+      );
+    });
+  });
+
+  describe('projectDividendIncome', () => {
+    const exDate = (daysAgo: number): Date => subDays(new Date(), daysAgo);
+
+    beforeEach(() => {
+      mockQuote.mockResolvedValue([
+        {
+          symbol: 'KO',
+          shortName: 'Coca-Cola Company (The)',
+          currency: 'USD',
+          regularMarketPrice: 60,
+          trailingAnnualDividendRate: 1.94,
+          dividendYield: 3.4,
+        },
+        {
+          symbol: 'ULVR.L',
+          currency: 'GBp',
+          regularMarketPrice: 4800,
+          trailingAnnualDividendRate: 150,
+        },
+      ]);
+      mockChart.mockImplementation((symbol) =>
+        symbol === 'KO'
+          ? Promise.resolve({
+              meta: { symbol: 'KO', currency: 'USD' },
+              quotes: [],
+              events: {
+                dividends: [303, 212, 121, 30].map((daysAgo) => ({
+                  date: exDate(daysAgo),
+                  amount: 0.51,
+                })),
+              },
+            })
+          : Promise.reject(new Error('Network error'))
+      );
+    });
+
+    it('should project the income from the dividend history and the quote', async () => {
+      const projection = await service.projectDividendIncome({
+        holdings: [
+          { ticker: 'KO', quantity: 100, costBasis: 40 },
+          { ticker: 'ULVR.L', quantity: 10, costBasis: 30 },
+        ],
+      });
+
+      expect(projection.holdings).toEqual([
+        expect.objectContaining({
+          ticker: 'KO',
+          name: 'Coca-Cola Company (The)',
+          currency: 'USD',
+          annualDividendPerShare: 2.04,
+          annualIncome: 204,
+          monthlyIncome: 17,
+          dividendYield: 3.4,
+          yieldOnCost: 5.1,
+          paymentsPerYear: 4,
+          nextExDate: format(addMonths(exDate(30), 3), 'yyyy-MM-dd'),
+          nextPaymentEstimate: 51,
+          basis: 'dividend_history',
+        }),
+        expect.objectContaining({
+          ticker: 'ULVR.L',
+          currency: 'GBP',
+          annualDividendPerShare: 1.5,
+          annualIncome: 15,
+          yieldOnCost: 5,
+          basis: 'trailing_rate',
+        }),
+      ]);
+      expect(projection.currencies[0]).toEqual(
+        expect.objectContaining({ currency: 'USD', annualIncome: 204 })
+      );
+      expect(projection.currencies[0].schedule).toHaveLength(4);
+      expect(projection.currencies[1]).toEqual({
+        currency: 'GBP',
+        annualIncome: 15,
+        monthlyIncome: 1.25,
+        schedule: [],
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Failed to fetch dividends for ULVR.L',
+        expect.any(Object)
+      );
+    });
+
+    it('should throw RateLimitError when the dividends are rate limited', async () => {
+      mockChart.mockRejectedValue(new Error('Too many requests: rate limit exceeded'));
+
+      await expect(
+        service.projectDividendIncome({ holdings: [{ ticker: 'KO', quantity: 100 }] })
+      ).rejects.toThrow(RateLimitError);
+    });
+
+    it('should report a ticker without a quote as missing', async () => {
+      const projection = await service.projectDividendIncome({
+        holdings: [
+          { ticker: 'KO', quantity: 100 },
+          { ticker: 'XYZ', quantity: 1 },
+        ],
+      });
+
+      expect(projection.holdings.map((holding) => holding.ticker)).toEqual(['KO']);
+      expect(projection.missing).toEqual(['XYZ']);
+    });
+
+    it('should throw NotFoundError when no ticker has a quote', async () => {
+      await expect(
+        service.projectDividendIncome({ holdings: [{ ticker: 'XYZ', quantity: 1 }] })
+      ).rejects.toThrow('No price found for XYZ');
     });
   });
 });
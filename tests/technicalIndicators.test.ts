@@ -0,0 +1,96 @@
+import {
+  bollingerBands,
+  computeIndicator,
+  ema,
+  macd,
+  rsi,
+  sma,
+  warmUpBars,
+} from '../src/technicalIndicators.js';
+
+describe('Technical Indicators', () => {
+  describe('sma', () => {
+    it('should compute a rolling average once the period is filled', () => {
+      expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    });
+
+    it('should return only nulls when there is not enough history', () => {
+      expect(sma([1, 2], 3)).toEqual([null, null]);
+    });
+  });
+
+  describe('ema', () => {
+    it('should seed with the simple average and smooth afterwards', () => {
+      expect(ema([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    });
+
+    it('should skip leading nulls', () => {
+      expect(ema([null, null, 2, 4, 6], 2)).toEqual([null, null, null, 3, 5]);
+    });
+
+    it('should return only nulls for an empty series', () => {
+      expect(ema([null, null], 2)).toEqual([null, null]);
+    });
+  });
+
+  describe('rsi', () => {
+    it("should use Wilder's smoothing", () => {
+      expect(rsi([1, 2, 1, 2, 1], 2)).toEqual([null, null, 50, 75, 37.5]);
+    });
+
+    it('should return 100 when prices only rise', () => {
+      expect(rsi([1, 2, 3, 4], 2)).toEqual([null, null, 100, 100]);
+    });
+
+    it('should return only nulls when there is not enough history', () => {
+      expect(rsi([1, 2], 2)).toEqual([null, null]);
+    });
+  });
+
+  describe('macd', () => {
+    it('should align the MACD line, signal and histogram', () => {
+      const result = macd([5, 5, 5, 5, 5, 5, 5, 5], 2, 4, 2);
+
+      expect(result.macd).toEqual([null, null, null, 0, 0, 0, 0, 0]);
+      expect(result.signal).toEqual([null, null, null, null, 0, 0, 0, 0]);
+      expect(result.histogram).toEqual([null, null, null, null, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('bollingerBands', () => {
+    it('should place the bands a number of standard deviations around the average', () => {
+      const result = bollingerBands([1, 2, 3], 3, 2);
+
+      expect(result.middle).toEqual([null, null, 2]);
+      expect(result.upper[2]).toBeCloseTo(3.633, 3);
+      expect(result.lower[2]).toBeCloseTo(0.367, 3);
+      expect(result.upper.slice(0, 2)).toEqual([null, null]);
+    });
+  });
+
+  describe('warmUpBars', () => {
+    it('should require more history for exponential indicators', () => {
+      expect(warmUpBars({ type: 'sma', period: 50 })).toBe(50);
+      expect(warmUpBars({ type: 'rsi', period: 14 })).toBe(42);
+      expect(warmUpBars({ type: 'macd', fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 })).toBe(
+        87
+      );
+    });
+  });
+
+  describe('computeIndicator', () => {
+    it('should name series after the indicator and its parameters', () => {
+      const closes = [1, 2, 3, 4, 5];
+
+      expect(Object.keys(computeIndicator({ type: 'ema', period: 3 }, closes))).toEqual(['ema_3']);
+      expect(
+        Object.keys(
+          computeIndicator({ type: 'macd', fastPeriod: 2, slowPeriod: 3, signalPeriod: 2 }, closes)
+        )
+      ).toEqual(['macd_2_3_2', 'macd_signal_2_3_2', 'macd_histogram_2_3_2']);
+      expect(
+        Object.keys(computeIndicator({ type: 'bollinger', period: 3, stdDev: 2 }, closes))
+      ).toEqual(['bollinger_upper_3_2', 'bollinger_middle_3_2', 'bollinger_lower_3_2']);
+    });
+  });
+});
@@ -18,17 +18,80 @@ describe('Tool Registration', () => {
       getQuotes: jest.fn(),
       search: jest.fn(),
       getHistoricalData: jest.fn(),
+      getCorporateActions: jest.fn(),
+      getTechnicalIndicators: jest.fn(),
+      getPerformanceStats: jest.fn(),
+      compareTickers: jest.fn(),
+      getFundamentals: jest.fn(),
+      getOptionChain: jest.fn(),
+      getEarnings: jest.fn(),
+      getUpcomingEarnings: jest.fn(),
+      getNews: jest.fn(),
+      getAnalystRatings: jest.fn(),
+      getOwnership: jest.fn(),
+      getFxRate: jest.fn(),
+      getCryptoQuote: jest.fn(),
+      screenStocks: jest.fn(),
+      getMarketMovers: jest.fn(),
+      resolveIdentifier: jest.fn(),
+      valuePortfolio: jest.fn(),
+      createWatchlist: jest.fn(),
+      addToWatchlist: jest.fn(),
+      removeFromWatchlist: jest.fn(),
+      listWatchlists: jest.fn(),
+      getWatchlistQuotes: jest.fn(),
+      createAlert: jest.fn(),
+      listAlerts: jest.fn(),
+      deleteAlert: jest.fn(),
+      checkAlerts: jest.fn(),
+      recordTransaction: jest.fn(),
+      listTransactions: jest.fn(),
+      deleteTransaction: jest.fn(),
+      getTaxLots: jest.fn(),
+      getRealizedGains: jest.fn(),
+      projectDividendIncome: jest.fn(),
     };
   });
 
   it('should register all tools', () => {
     registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
 
-    expect(mockServer.registerTool).toHaveBeenCalledTimes(4);
+    expect(mockServer.registerTool).toHaveBeenCalledTimes(35);
     expect(registeredTools['get_stock_quote']).toBeDefined();
     expect(registeredTools['get_stock_quotes']).toBeDefined();
     expect(registeredTools['search_stocks']).toBeDefined();
     expect(registeredTools['get_historical_data']).toBeDefined();
+    expect(registeredTools['get_corporate_actions']).toBeDefined();
+    expect(registeredTools['get_technical_indicators']).toBeDefined();
+    expect(registeredTools['get_performance_stats']).toBeDefined();
+    expect(registeredTools['compare_tickers']).toBeDefined();
+    expect(registeredTools['get_fundamentals']).toBeDefined();
+    expect(registeredTools['get_option_chain']).toBeDefined();
+    expect(registeredTools['get_earnings']).toBeDefined();
+    expect(registeredTools['get_stock_news']).toBeDefined();
+    expect(registeredTools['get_analyst_ratings']).toBeDefined();
+    expect(registeredTools['get_ownership']).toBeDefined();
+    expect(registeredTools['get_fx_rate']).toBeDefined();
+    expect(registeredTools['get_crypto_quote']).toBeDefined();
+    expect(registeredTools['screen_stocks']).toBeDefined();
+    expect(registeredTools['get_market_movers']).toBeDefined();
+    expect(registeredTools['resolve_identifier']).toBeDefined();
+    expect(registeredTools['value_portfolio']).toBeDefined();
+    expect(registeredTools['create_watchlist']).toBeDefined();
+    expect(registeredTools['add_to_watchlist']).toBeDefined();
+    expect(registeredTools['remove_from_watchlist']).toBeDefined();
+    expect(registeredTools['list_watchlists']).toBeDefined();
+    expect(registeredTools['get_watchlist_quotes']).toBeDefined();
+    expect(registeredTools['create_alert']).toBeDefined();
+    expect(registeredTools['list_alerts']).toBeDefined();
+    expect(registeredTools['delete_alert']).toBeDefined();
+    expect(registeredTools['check_alerts']).toBeDefined();
+    expect(registeredTools['record_transaction']).toBeDefined();
+    expect(registeredTools['list_transactions']).toBeDefined();
+    expect(registeredTools['delete_transaction']).toBeDefined();
+    expect(registeredTools['get_tax_lots']).toBeDefined();
+    expect(registeredTools['get_realized_gains']).toBeDefined();
+    expect(registeredTools['project_dividend_income']).toBeDefined();
   });
 
   describe('get_stock_quote handler', () => {
@@ -62,6 +125,45 @@ describe('Tool Registration', () => {
 
       await expect(handler({ ticker: 'INVALID' })).rejects.toThrow('Ticker not found');
     });
+
+    it('should pass an identifier instead of a ticker', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_stock_quote'].handler;
+
+      mockStockService.getQuote.mockResolvedValue({ symbol: 'AAPL' });
+
+      await handler({ identifier: 'US0378331005' });
+
+      expect(mockStockService.getQuote).toHaveBeenCalledWith({ identifier: 'US0378331005' });
+    });
+
+    it('should pass the target currency to getQuote', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_stock_quote'].handler;
+
+      mockStockService.getQuote.mockResolvedValue({ symbol: 'AAPL', currency: 'EUR' });
+
+      await handler({ ticker: 'AAPL', targetCurrency: 'EUR' });
+
+      expect(mockStockService.getQuote).toHaveBeenCalledWith({
+        ticker: 'AAPL',
+        targetCurrency: 'EUR',
+      });
+    });
+
+    it('should pass the raw prices flag to getQuote', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_stock_quote'].handler;
+
+      mockStockService.getQuote.mockResolvedValue({ symbol: 'VOD.L', currency: 'GBP' });
+
+      await handler({ ticker: 'VOD.L', includeRawPrices: true });
+
+      expect(mockStockService.getQuote).toHaveBeenCalledWith({
+        ticker: 'VOD.L',
+        includeRawPrices: true,
+      });
+    });
   });
 
   describe('get_stock_quotes handler', () => {
@@ -108,9 +210,12 @@ describe('Tool Registration', () => {
       const mockResults = [{ symbol: 'AAPL', name: 'Apple' }];
       mockStockService.search.mockResolvedValue(mockResults);
 
-      const result = await handler({ query: 'Apple' });
+      const result = await handler({ query: 'Apple', quoteType: 'equity', limit: 5 });
 
-      expect(mockStockService.search).toHaveBeenCalledWith('Apple');
+      expect(mockStockService.search).toHaveBeenCalledWith('Apple', {
+        quoteType: 'equity',
+        limit: 5,
+      });
       expect(result).toEqual({
         content: [
           {
@@ -148,7 +253,8 @@ describe('Tool Registration', () => {
         'AAPL',
         '2023-01-01',
         '2023-01-10',
-        undefined
+        undefined,
+        { interval: undefined, adjusted: undefined }
       );
       expect(result).toEqual({
         content: [
@@ -180,7 +286,8 @@ describe('Tool Registration', () => {
         'AAPL',
         '2023-01-01',
         '2023-01-10',
-        ['close']
+        ['close'],
+        { interval: undefined, adjusted: undefined }
       );
       expect(result).toEqual({
         content: [
@@ -193,6 +300,53 @@ describe('Tool Registration', () => {
       });
     });
 
+    it('should pass the interval and adjustment to getHistoricalData', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_historical_data'].handler;
+
+      mockStockService.getHistoricalData.mockResolvedValue([]);
+
+      const params = {
+        ticker: 'AAPL',
+        fromDate: '2023-01-01',
+        toDate: '2023-12-31',
+        interval: '1wk',
+        adjusted: true,
+      };
+      await handler(params);
+
+      expect(mockStockService.getHistoricalData).toHaveBeenCalledWith(
+        'AAPL',
+        '2023-01-01',
+        '2023-12-31',
+        undefined,
+        { interval: '1wk', adjusted: true }
+      );
+    });
+
+    it('should pass the target currency to getHistoricalData', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_historical_data'].handler;
+
+      mockStockService.getHistoricalData.mockResolvedValue([]);
+
+      const params = {
+        ticker: 'AAPL',
+        fromDate: '2023-01-01',
+        toDate: '2023-12-31',
+        targetCurrency: 'EUR',
+      };
+      await handler(params);
+
+      expect(mockStockService.getHistoricalData).toHaveBeenCalledWith(
+        'AAPL',
+        '2023-01-01',
+        '2023-12-31',
+        undefined,
+        { interval: undefined, adjusted: undefined, targetCurrency: 'EUR' }
+      );
+    });
+
     it('should throw error when getHistoricalData fails', async () => {
       registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
       const handler = registeredTools['get_historical_data'].handler;
@@ -204,4 +358,884 @@ describe('Tool Registration', () => {
       await expect(handler(params)).rejects.toThrow('Historical data fetch failed');
     });
   });
+  describe('get_corporate_actions handler', () => {
+    it('should call getCorporateActions and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_corporate_actions'].handler;
+
+      const mockActions = {
+        symbol: 'AAPL',
+        dividends: [{ exDate: '2023-02-10', amount: 0.23 }],
+        splits: [],
+      };
+      mockStockService.getCorporateActions.mockResolvedValue(mockActions);
+
+      const params = { ticker: 'AAPL', fromDate: '2023-01-01', toDate: '2023-12-31' };
+      const result = await handler(params);
+
+      expect(mockStockService.getCorporateActions).toHaveBeenCalledWith(
+        'AAPL',
+        '2023-01-01',
+        '2023-12-31'
+      );
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockActions, null, 2),
+          },
+        ],
+        structuredContent: mockActions,
+      });
+    });
+
+    it('should throw error when getCorporateActions fails', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_corporate_actions'].handler;
+
+      mockStockService.getCorporateActions.mockRejectedValue(new Error('Events fetch failed'));
+
+      const params = { ticker: 'AAPL', fromDate: '2023-01-01', toDate: '2023-12-31' };
+      await expect(handler(params)).rejects.toThrow('Events fetch failed');
+    });
+  });
+  describe('get_technical_indicators handler', () => {
+    it('should call getTechnicalIndicators and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_technical_indicators'].handler;
+
+      const mockResult = {
+        symbol: 'AAPL',
+        indicators: ['sma_20'],
+        series: [{ date: '2023-01-03', close: 125, sma_20: 130 }],
+      };
+      mockStockService.getTechnicalIndicators.mockResolvedValue(mockResult);
+
+      const params = {
+        ticker: 'AAPL',
+        fromDate: '2023-01-01',
+        toDate: '2023-01-31',
+        indicators: [{ type: 'sma', period: 20 }],
+      };
+      const result = await handler(params);
+
+      expect(mockStockService.getTechnicalIndicators).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockResult, null, 2),
+          },
+        ],
+        structuredContent: mockResult,
+      });
+    });
+  });
+  describe('get_performance_stats handler', () => {
+    it('should call getPerformanceStats and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_performance_stats'].handler;
+
+      const mockStats = { symbol: 'NVDA', totalReturnPercent: 238.87, sharpeRatio: 3.1 };
+      mockStockService.getPerformanceStats.mockResolvedValue(mockStats);
+
+      const params = {
+        ticker: 'NVDA',
+        fromDate: '2023-01-01',
+        toDate: '2023-12-31',
+        benchmark: 'SPY',
+        riskFreeRate: 4,
+      };
+      const result = await handler(params);
+
+      expect(mockStockService.getPerformanceStats).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockStats, null, 2),
+          },
+        ],
+        structuredContent: mockStats,
+      });
+    });
+  });
+  describe('compare_tickers handler', () => {
+    it('should call compareTickers and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['compare_tickers'].handler;
+
+      const mockComparison = { tickers: ['AAPL', 'MSFT'], performance: [], correlationMatrix: {} };
+      mockStockService.compareTickers.mockResolvedValue(mockComparison);
+
+      const params = { tickers: ['AAPL', 'MSFT'], fromDate: '2024-01-01', toDate: '2024-06-30' };
+      const result = await handler(params);
+
+      expect(mockStockService.compareTickers).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockComparison, null, 2),
+          },
+        ],
+        structuredContent: mockComparison,
+      });
+    });
+  });
+  describe('get_fundamentals handler', () => {
+    it('should call getFundamentals and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_fundamentals'].handler;
+
+      const mockFundamentals = { symbol: 'MSFT', period: 'quarterly', incomeStatements: [] };
+      mockStockService.getFundamentals.mockResolvedValue(mockFundamentals);
+
+      const params = { ticker: 'MSFT', modules: ['incomeStatementHistory'], period: 'quarterly' };
+      const result = await handler(params);
+
+      expect(mockStockService.getFundamentals).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockFundamentals, null, 2),
+          },
+        ],
+        structuredContent: mockFundamentals,
+      });
+    });
+  });
+  describe('get_option_chain handler', () => {
+    it('should call getOptionChain and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_option_chain'].handler;
+
+      const mockChain = { symbol: 'AAPL', expiration: '2024-07-19', calls: [], puts: [] };
+      mockStockService.getOptionChain.mockResolvedValue(mockChain);
+
+      const params = {
+        ticker: 'AAPL',
+        expiration: '2024-07-19',
+        optionType: 'call',
+        minMoneyness: 0.9,
+        maxMoneyness: 1.1,
+      };
+      const result = await handler(params);
+
+      expect(mockStockService.getOptionChain).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockChain, null, 2),
+          },
+        ],
+        structuredContent: mockChain,
+      });
+    });
+  });
+  describe('get_earnings handler', () => {
+    it('should call getEarnings for each ticker and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_earnings'].handler;
+
+      mockStockService.getEarnings.mockImplementation(async (ticker: string) => ({
+        symbol: ticker,
+        nextEarnings: null,
+        history: [],
+        estimates: [],
+      }));
+
+      const result = await handler({ tickers: ['AAPL', 'MSFT', 'AAPL'] });
+
+      const earnings = [
+        { symbol: 'AAPL', nextEarnings: null, history: [], estimates: [] },
+        { symbol: 'MSFT', nextEarnings: null, history: [], estimates: [] },
+      ];
+      expect(mockStockService.getEarnings).toHaveBeenCalledTimes(2);
+      expect(mockStockService.getUpcomingEarnings).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(earnings, null, 2),
+          },
+        ],
+        structuredContent: { earnings },
+      });
+    });
+
+    it('should call getUpcomingEarnings when upcomingWithinDays is set', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_earnings'].handler;
+
+      const mockCalendar = {
+        fromDate: '2024-10-20',
+        toDate: '2024-11-03',
+        upcoming: [],
+        unavailable: [],
+      };
+      mockStockService.getUpcomingEarnings.mockResolvedValue(mockCalendar);
+
+      const result = await handler({ tickers: ['AAPL', 'MSFT'], upcomingWithinDays: 14 });
+
+      expect(mockStockService.getUpcomingEarnings).toHaveBeenCalledWith(['AAPL', 'MSFT'], 14);
+      expect(mockStockService.getEarnings).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockCalendar, null, 2),
+          },
+        ],
+        structuredContent: mockCalendar,
+      });
+    });
+  });
+  describe('get_stock_news handler', () => {
+    it('should call getNews and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_stock_news'].handler;
+
+      const mockNews = { query: 'AAPL', articles: [] };
+      mockStockService.getNews.mockResolvedValue(mockNews);
+
+      const params = { query: 'AAPL', count: 5, onlyNew: true };
+      const result = await handler(params);
+
+      expect(mockStockService.getNews).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockNews, null, 2),
+          },
+        ],
+        structuredContent: mockNews,
+      });
+    });
+  });
+  describe('get_analyst_ratings handler', () => {
+    it('should call getAnalystRatings and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_analyst_ratings'].handler;
+
+      const mockRatings = {
+        symbol: 'AAPL',
+        consensus: { rating: 'buy' },
+        priceTargets: {},
+        recommendationTrend: [],
+      };
+      mockStockService.getAnalystRatings.mockResolvedValue(mockRatings);
+
+      const result = await handler({ ticker: 'AAPL' });
+
+      expect(mockStockService.getAnalystRatings).toHaveBeenCalledWith('AAPL');
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockRatings, null, 2),
+          },
+        ],
+        structuredContent: mockRatings,
+      });
+    });
+  });
+  describe('get_ownership handler', () => {
+    it('should call getOwnership and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_ownership'].handler;
+
+      const mockOwnership = {
+        symbol: 'AAPL',
+        institutionalHolders: [],
+        fundHolders: [],
+        insiderTransactions: [],
+      };
+      mockStockService.getOwnership.mockResolvedValue(mockOwnership);
+
+      const params = { ticker: 'AAPL', transactionLimit: 5 };
+      const result = await handler(params);
+
+      expect(mockStockService.getOwnership).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockOwnership, null, 2),
+          },
+        ],
+        structuredContent: mockOwnership,
+      });
+    });
+  });
+  describe('get_fx_rate handler', () => {
+    it('should call getFxRate and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_fx_rate'].handler;
+
+      const mockRate = {
+        pair: 'EUR/USD',
+        baseCurrency: 'EUR',
+        quoteCurrency: 'USD',
+        rate: 1.08,
+        symbols: ['EURUSD=X'],
+      };
+      mockStockService.getFxRate.mockResolvedValue(mockRate);
+
+      const params = { pair: 'EUR/USD', pivotCurrency: 'GBP' };
+      const result = await handler(params);
+
+      expect(mockStockService.getFxRate).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockRate, null, 2),
+          },
+        ],
+        structuredContent: mockRate,
+      });
+    });
+  });
+  describe('get_crypto_quote handler', () => {
+    it('should call getCryptoQuote and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_crypto_quote'].handler;
+
+      const mockQuote = {
+        pair: 'BTC/EUR',
+        baseCurrency: 'BTC',
+        quoteCurrency: 'EUR',
+        rate: 55000,
+        symbols: ['BTC-EUR'],
+      };
+      mockStockService.getCryptoQuote.mockResolvedValue(mockQuote);
+
+      const params = { pair: 'BTC in EUR', fromDate: '2024-01-01' };
+      const result = await handler(params);
+
+      expect(mockStockService.getCryptoQuote).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockQuote, null, 2),
+          },
+        ],
+        structuredContent: mockQuote,
+      });
+    });
+  });
+  describe('screen_stocks handler', () => {
+    it('should call screenStocks and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['screen_stocks'].handler;
+
+      const mockResult = {
+        screener: 'most_actives',
+        region: 'US',
+        screenedCount: 250,
+        quotes: [{ symbol: 'KO' }],
+      };
+      mockStockService.screenStocks.mockResolvedValue(mockResult);
+
+      const params = { sector: 'Consumer Defensive', minDividendYield: 3 };
+      const result = await handler(params);
+
+      expect(mockStockService.screenStocks).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockResult, null, 2),
+          },
+        ],
+        structuredContent: mockResult,
+      });
+    });
+  });
+  describe('get_market_movers handler', () => {
+    it('should call getMarketMovers and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_market_movers'].handler;
+
+      const mockResult = {
+        region: 'US',
+        gainers: [{ symbol: 'NVDA', regularMarketChangePercent: 6 }],
+      };
+      mockStockService.getMarketMovers.mockResolvedValue(mockResult);
+
+      const result = await handler({ lists: ['gainers'], count: 1 });
+
+      expect(mockStockService.getMarketMovers).toHaveBeenCalledWith({
+        region: undefined,
+        lists: ['gainers'],
+        count: 1,
+      });
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockResult, null, 2),
+          },
+        ],
+        structuredContent: mockResult,
+      });
+    });
+  });
+  describe('resolve_identifier handler', () => {
+    it('should call resolveIdentifier and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['resolve_identifier'].handler;
+
+      const mockResult = {
+        identifier: 'US0378331005',
+        identifierType: 'isin',
+        symbol: 'AAPL',
+        name: 'Apple Inc.',
+        listings: [{ symbol: 'AAPL', name: 'Apple Inc.', exchange: 'NMS' }],
+      };
+      mockStockService.resolveIdentifier.mockResolvedValue(mockResult);
+
+      const result = await handler({ identifier: 'US0378331005' });
+
+      expect(mockStockService.resolveIdentifier).toHaveBeenCalledWith('US0378331005');
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockResult, null, 2),
+          },
+        ],
+        structuredContent: mockResult,
+      });
+    });
+  });
+  describe('value_portfolio handler', () => {
+    it('should call valuePortfolio and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['value_portfolio'].handler;
+
+      const mockResult = {
+        baseCurrency: 'EUR',
+        marketValue: 1800,
+        positions: [{ ticker: 'AAPL', quantity: 10, marketValue: 1800, weight: 100 }],
+        sectors: [{ name: 'Technology', marketValue: 1800, weight: 100 }],
+        currencies: [{ name: 'USD', marketValue: 1800, weight: 100 }],
+      };
+      mockStockService.valuePortfolio.mockResolvedValue(mockResult);
+
+      const params = {
+        positions: [{ ticker: 'AAPL', quantity: 10 }],
+        baseCurrency: 'EUR',
+        includeSectors: true,
+      };
+      const result = await handler(params);
+
+      expect(mockStockService.valuePortfolio).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockResult, null, 2),
+          },
+        ],
+        structuredContent: mockResult,
+      });
+    });
+  });
+  describe('create_watchlist handler', () => {
+    it('should call createWatchlist and return the watchlist', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['create_watchlist'].handler;
+
+      const mockWatchlist = {
+        name: 'Tech',
+        tickers: ['AAPL', 'NVDA'],
+        createdAt: '2024-01-02T00:00:00.000Z',
+        updatedAt: '2024-01-03T00:00:00.000Z',
+      };
+      mockStockService.createWatchlist.mockResolvedValue(mockWatchlist);
+
+      const params = { name: 'Tech', tickers: ['AAPL', 'NVDA'] };
+      const result = await handler(params);
+
+      expect(mockStockService.createWatchlist).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockWatchlist, null, 2),
+          },
+        ],
+        structuredContent: mockWatchlist,
+      });
+    });
+  });
+  describe('add_to_watchlist handler', () => {
+    it('should call addToWatchlist and return the watchlist', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['add_to_watchlist'].handler;
+
+      const mockWatchlist = {
+        name: 'Tech',
+        tickers: ['MSFT', 'AAPL', 'NVDA'],
+        createdAt: '2024-01-02T00:00:00.000Z',
+        updatedAt: '2024-01-03T00:00:00.000Z',
+      };
+      mockStockService.addToWatchlist.mockResolvedValue(mockWatchlist);
+
+      const params = { name: 'Tech', tickers: ['AAPL', 'NVDA'] };
+      const result = await handler(params);
+
+      expect(mockStockService.addToWatchlist).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockWatchlist, null, 2),
+          },
+        ],
+        structuredContent: mockWatchlist,
+      });
+    });
+  });
+  describe('remove_from_watchlist handler', () => {
+    it('should call removeFromWatchlist and return the watchlist', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['remove_from_watchlist'].handler;
+
+      const mockWatchlist = {
+        name: 'Tech',
+        tickers: ['MSFT'],
+        createdAt: '2024-01-02T00:00:00.000Z',
+        updatedAt: '2024-01-03T00:00:00.000Z',
+      };
+      mockStockService.removeFromWatchlist.mockResolvedValue(mockWatchlist);
+
+      const params = { name: 'Tech', tickers: ['AAPL', 'NVDA'] };
+      const result = await handler(params);
+
+      expect(mockStockService.removeFromWatchlist).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockWatchlist, null, 2),
+          },
+        ],
+        structuredContent: mockWatchlist,
+      });
+    });
+  });
+  describe('list_watchlists handler', () => {
+    it('should call listWatchlists and return the watchlists', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['list_watchlists'].handler;
+
+      const mockWatchlists = [{ name: 'Tech', tickers: ['AAPL'] }];
+      mockStockService.listWatchlists.mockResolvedValue(mockWatchlists);
+
+      const result = await handler({});
+
+      expect(mockStockService.listWatchlists).toHaveBeenCalled();
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockWatchlists, null, 2),
+          },
+        ],
+        structuredContent: { watchlists: mockWatchlists },
+      });
+    });
+  });
+  describe('get_watchlist_quotes handler', () => {
+    it('should call getWatchlistQuotes and return formatted result', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_watchlist_quotes'].handler;
+
+      const mockResult = { name: 'Tech', quotes: [{ symbol: 'AAPL', regularMarketPrice: 190 }] };
+      mockStockService.getWatchlistQuotes.mockResolvedValue(mockResult);
+
+      const params = { name: 'Tech', fields: ['regularMarketPrice'] };
+      const result = await handler(params);
+
+      expect(mockStockService.getWatchlistQuotes).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockResult, null, 2),
+          },
+        ],
+        structuredContent: mockResult,
+      });
+    });
+  });
+  describe('create_alert handler', () => {
+    it('should call createAlert and return the alert', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['create_alert'].handler;
+
+      const mockAlert = {
+        id: 'alert-1',
+        ticker: 'AAPL',
+        condition: 'price_above',
+        threshold: 200,
+        status: 'active',
+        createdAt: '2024-06-03T12:00:00.000Z',
+      };
+      mockStockService.createAlert.mockResolvedValue(mockAlert);
+
+      const params = { ticker: 'AAPL', condition: 'price_above', threshold: 200 };
+      const result = await handler(params);
+
+      expect(mockStockService.createAlert).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockAlert, null, 2),
+          },
+        ],
+        structuredContent: mockAlert,
+      });
+    });
+  });
+  describe('list_alerts handler', () => {
+    it('should call listAlerts and return the alerts', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['list_alerts'].handler;
+
+      const mockAlerts = [{ id: 'alert-1', ticker: 'AAPL', status: 'active' }];
+      mockStockService.listAlerts.mockResolvedValue(mockAlerts);
+
+      const result = await handler({ status: 'active' });
+
+      expect(mockStockService.listAlerts).toHaveBeenCalledWith({ status: 'active' });
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockAlerts, null, 2),
+          },
+        ],
+        structuredContent: { alerts: mockAlerts },
+      });
+    });
+  });
+  describe('delete_alert handler', () => {
+    it('should call deleteAlert and return the deleted alert', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['delete_alert'].handler;
+
+      const mockAlert = { id: 'alert-1', ticker: 'AAPL', status: 'active' };
+      mockStockService.deleteAlert.mockResolvedValue(mockAlert);
+
+      const result = await handler({ id: 'alert-1' });
+
+      expect(mockStockService.deleteAlert).toHaveBeenCalledWith({ id: 'alert-1' });
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockAlert, null, 2),
+          },
+        ],
+        structuredContent: mockAlert,
+      });
+    });
+  });
+  describe('check_alerts handler', () => {
+    it('should call checkAlerts and return the triggered alerts', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['check_alerts'].handler;
+
+      const mockCheck = {
+        checkedAt: '2024-06-03T12:00:00.000Z',
+        checked: 2,
+        triggered: [{ id: 'alert-1', ticker: 'AAPL', status: 'triggered' }],
+      };
+      mockStockService.checkAlerts.mockResolvedValue(mockCheck);
+
+      const result = await handler({});
+
+      expect(mockStockService.checkAlerts).toHaveBeenCalled();
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockCheck, null, 2),
+          },
+        ],
+        structuredContent: mockCheck,
+      });
+    });
+  });
+  describe('record_transaction handler', () => {
+    it('should call recordTransaction and return the transaction', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['record_transaction'].handler;
+
+      const mockTransaction = {
+        id: 'tx-1',
+        type: 'buy',
+        ticker: 'AAPL',
+        date: '2024-03-01',
+        quantity: 10,
+        price: 180,
+        recordedAt: '2024-03-01T18:00:00.000Z',
+      };
+      mockStockService.recordTransaction.mockResolvedValue(mockTransaction);
+
+      const params = { type: 'buy', ticker: 'AAPL', date: '2024-03-01', quantity: 10, price: 180 };
+      const result = await handler(params);
+
+      expect(mockStockService.recordTransaction).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockTransaction, null, 2),
+          },
+        ],
+        structuredContent: mockTransaction,
+      });
+    });
+  });
+  describe('list_transactions handler', () => {
+    it('should call listTransactions and return the transactions', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['list_transactions'].handler;
+
+      const mockTransactions = [{ id: 'tx-1', type: 'buy', ticker: 'AAPL' }];
+      mockStockService.listTransactions.mockResolvedValue(mockTransactions);
+
+      const result = await handler({ ticker: 'AAPL' });
+
+      expect(mockStockService.listTransactions).toHaveBeenCalledWith({ ticker: 'AAPL' });
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockTransactions, null, 2),
+          },
+        ],
+        structuredContent: { transactions: mockTransactions },
+      });
+    });
+  });
+  describe('delete_transaction handler', () => {
+    it('should call deleteTransaction and return the deleted transaction', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['delete_transaction'].handler;
+
+      const mockTransaction = { id: 'tx-1', type: 'dividend', ticker: 'AAPL', amount: 2.4 };
+      mockStockService.deleteTransaction.mockResolvedValue(mockTransaction);
+
+      const result = await handler({ id: 'tx-1' });
+
+      expect(mockStockService.deleteTransaction).toHaveBeenCalledWith({ id: 'tx-1' });
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockTransaction, null, 2),
+          },
+        ],
+        structuredContent: mockTransaction,
+      });
+    });
+  });
+  describe('get_tax_lots handler', () => {
+    it('should call getTaxLots and return the report', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_tax_lots'].handler;
+
+      const mockReport = {
+        asOf: '2023-12-29',
+        costBasis: 1800,
+        marketValue: 1920,
+        unrealizedGain: 120,
+        positions: [],
+        lots: [],
+      };
+      mockStockService.getTaxLots.mockResolvedValue(mockReport);
+
+      const params = { ticker: 'AAPL', asOf: '2023-12-29' };
+      const result = await handler(params);
+
+      expect(mockStockService.getTaxLots).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockReport, null, 2),
+          },
+        ],
+        structuredContent: mockReport,
+      });
+    });
+  });
+  describe('get_realized_gains handler', () => {
+    it('should call getRealizedGains and return the report', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['get_realized_gains'].handler;
+
+      const mockReport = {
+        fromDate: '2024-01-01',
+        toDate: '2024-12-31',
+        realizedGain: 245,
+        shortTermGain: 245,
+        longTermGain: 0,
+        realized: [],
+        dividends: [],
+      };
+      mockStockService.getRealizedGains.mockResolvedValue(mockReport);
+
+      const params = { fromDate: '2024-01-01', toDate: '2024-12-31' };
+      const result = await handler(params);
+
+      expect(mockStockService.getRealizedGains).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockReport, null, 2),
+          },
+        ],
+        structuredContent: mockReport,
+      });
+    });
+  });
+  describe('project_dividend_income handler', () => {
+    it('should call projectDividendIncome and return the projection', async () => {
+      registerToolsOnServer(mockServer, mockStockService as StockQuotesService);
+      const handler = registeredTools['project_dividend_income'].handler;
+
+      const mockProjection = {
+        holdings: [{ ticker: 'KO', quantity: 100, currency: 'USD', annualIncome: 194 }],
+        currencies: [{ currency: 'USD', annualIncome: 194, monthlyIncome: 16.17, schedule: [] }],
+      };
+      mockStockService.projectDividendIncome.mockResolvedValue(mockProjection);
+
+      const params = { holdings: [{ ticker: 'KO', quantity: 100, costBasis: 50 }] };
+      const result = await handler(params);
+
+      expect(mockStockService.projectDividendIncome).toHaveBeenCalledWith(params);
+      expect(result).toEqual({
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(mockProjection, null, 2),
+          },
+        ],
+        structuredContent: mockProjection,
+      });
+    });
+  });
 });
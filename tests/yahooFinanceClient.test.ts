@@ -6,6 +6,11 @@ describe('YahooFinanceClient', () => {
     quote: jest.Mock;
     search: jest.Mock;
     chart: jest.Mock;
+    quoteSummary: jest.Mock;
+    fundamentalsTimeSeries: jest.Mock;
+    options: jest.Mock;
+    screener: jest.Mock;
+    trendingSymbols: jest.Mock;
   };
 
   beforeEach(() => {
@@ -14,6 +19,11 @@ describe('YahooFinanceClient', () => {
       quote: jest.fn(),
       search: jest.fn(),
       chart: jest.fn(),
+      quoteSummary: jest.fn(),
+      fundamentalsTimeSeries: jest.fn(),
+      options: jest.fn(),
+      screener: jest.fn(),
+      trendingSymbols: jest.fn(),
     };
 
     // Inject the mock into the client
@@ -47,6 +57,63 @@ describe('YahooFinanceClient', () => {
     expect(result).toEqual({ quotes: [] });
   });
 
+  it('should call yahooFinance.quoteSummary', async () => {
+    mockYahooInstance.quoteSummary.mockResolvedValue({ financialData: {} });
+
+    const result = await client.quoteSummary('MSFT', { modules: ['financialData'] });
+
+    expect(mockYahooInstance.quoteSummary).toHaveBeenCalledWith('MSFT', { modules: ['financialData'] }, undefined);
+    expect(result).toEqual({ financialData: {} });
+  });
+
+  it('should call yahooFinance.fundamentalsTimeSeries', async () => {
+    mockYahooInstance.fundamentalsTimeSeries.mockResolvedValue([{ totalRevenue: 245 }]);
+
+    const options = { period1: '2020-01-01', type: 'annual', module: 'all' };
+    const result = await client.fundamentalsTimeSeries('MSFT', options);
+
+    expect(mockYahooInstance.fundamentalsTimeSeries).toHaveBeenCalledWith('MSFT', options);
+    expect(result).toEqual([{ totalRevenue: 245 }]);
+  });
+
+  it('should call yahooFinance.options', async () => {
+    mockYahooInstance.options.mockResolvedValue({ options: [] });
+
+    const result = await client.options('AAPL', { date: '2024-07-19' });
+
+    expect(mockYahooInstance.options).toHaveBeenCalledWith('AAPL', { date: '2024-07-19' }, undefined);
+    expect(result).toEqual({ options: [] });
+  });
+
+  it('should fetch the ownership modules with yahooFinance.quoteSummary', async () => {
+    mockYahooInstance.quoteSummary.mockResolvedValue({ majorHoldersBreakdown: {} });
+
+    const result = await client.ownership('AAPL');
+
+    expect(mockYahooInstance.quoteSummary).toHaveBeenCalledWith('AAPL', {
+      modules: ['institutionOwnership', 'fundOwnership', 'majorHoldersBreakdown', 'insiderTransactions'],
+    });
+    expect(result).toEqual({ majorHoldersBreakdown: {} });
+  });
+
+  it('should call yahooFinance.screener', async () => {
+    mockYahooInstance.screener.mockResolvedValue({ quotes: [] });
+
+    const result = await client.screener({ scrIds: 'day_gainers', count: 10 });
+
+    expect(mockYahooInstance.screener).toHaveBeenCalledWith({ scrIds: 'day_gainers', count: 10 });
+    expect(result).toEqual({ quotes: [] });
+  });
+
+  it('should call yahooFinance.trendingSymbols', async () => {
+    mockYahooInstance.trendingSymbols.mockResolvedValue({ count: 1, quotes: [{ symbol: 'AAPL' }] });
+
+    const result = await client.trendingSymbols('US', { count: 5 });
+
+    expect(mockYahooInstance.trendingSymbols).toHaveBeenCalledWith('US', { count: 5 });
+    expect(result).toEqual({ count: 1, quotes: [{ symbol: 'AAPL' }] });
+  });
+
   it('should serialize multiple concurrent calls', async () => {
     const callOrder: string[] = [];
     